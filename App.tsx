@@ -3,14 +3,27 @@ import { StatusBar } from 'expo-status-bar';
 import { NavigationContainer } from '@react-navigation/native';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { FlipsProvider } from './src/state/FlipsContext';
+import { SettingsProvider } from './src/state/SettingsContext';
 import Home from './src/screens/Home';
 import FlipSheet from './src/screens/FlipSheet';
 import Settings from './src/screens/Settings';
+import CategoryRules from './src/screens/CategoryRules';
+import ImportData from './src/screens/ImportData';
+import Duplicates from './src/screens/Duplicates';
+import ExchangeRates from './src/screens/ExchangeRates';
+import Dashboard from './src/screens/Dashboard';
+import Search from './src/screens/Search';
 
 export type RootStackParamList = {
   Home: undefined;
   FlipSheet: { flipId?: number };
   Settings: undefined;
+  CategoryRules: undefined;
+  ImportData: undefined;
+  Duplicates: undefined;
+  ExchangeRates: undefined;
+  Dashboard: undefined;
+  Search: undefined;
 };
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
@@ -18,19 +31,27 @@ const Stack = createNativeStackNavigator<RootStackParamList>();
 export default function App() {
   return (
     <FlipsProvider>
-      <NavigationContainer>
-        <Stack.Navigator
-          initialRouteName="Home"
-          screenOptions={{
-            headerShown: false,
-          }}
-        >
-          <Stack.Screen name="Home" component={Home} />
-          <Stack.Screen name="FlipSheet" component={FlipSheet} />
-          <Stack.Screen name="Settings" component={Settings} />
-        </Stack.Navigator>
-        <StatusBar style="auto" />
-      </NavigationContainer>
+      <SettingsProvider>
+        <NavigationContainer>
+          <Stack.Navigator
+            initialRouteName="Home"
+            screenOptions={{
+              headerShown: false,
+            }}
+          >
+            <Stack.Screen name="Home" component={Home} />
+            <Stack.Screen name="FlipSheet" component={FlipSheet} />
+            <Stack.Screen name="Settings" component={Settings} />
+            <Stack.Screen name="CategoryRules" component={CategoryRules} />
+            <Stack.Screen name="ImportData" component={ImportData} />
+            <Stack.Screen name="Duplicates" component={Duplicates} />
+            <Stack.Screen name="ExchangeRates" component={ExchangeRates} />
+            <Stack.Screen name="Dashboard" component={Dashboard} />
+            <Stack.Screen name="Search" component={Search} />
+          </Stack.Navigator>
+          <StatusBar style="auto" />
+        </NavigationContainer>
+      </SettingsProvider>
     </FlipsProvider>
   );
 }
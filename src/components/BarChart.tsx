@@ -0,0 +1,107 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+
+export interface BarChartItem {
+  key: string;
+  label: string;
+  value: number;
+}
+
+interface BarChartProps {
+  items: BarChartItem[];
+  formatValue: (value: number) => string;
+  emptyText?: string;
+}
+
+// Horizontal bars drawn with plain views. Bars grow right from a shared zero
+// line for gains and left for losses, scaled to the largest magnitude.
+const BarChart: React.FC<BarChartProps> = ({ items, formatValue, emptyText = 'No data yet' }) => {
+  if (items.length === 0) {
+    return <Text style={styles.emptyText}>{emptyText}</Text>;
+  }
+
+  const maxMagnitude = Math.max(...items.map(item => Math.abs(item.value)), 1);
+  const hasNegative = items.some(item => item.value < 0);
+  const hasPositive = items.some(item => item.value > 0);
+  // Space on each side of the zero line, as a share of the track
+  const negativeShare = hasNegative ? (hasPositive ? 0.5 : 1) : 0;
+
+  return (
+    <View>
+      {items.map(item => {
+        const share = Math.abs(item.value) / maxMagnitude;
+        const negative = item.value < 0;
+
+        return (
+          <View key={item.key} style={styles.row}>
+            <Text style={styles.label} numberOfLines={1}>{item.label}</Text>
+            <View style={styles.track}>
+              <View style={[styles.side, { flex: negativeShare }]}>
+                {negative && (
+                  <View style={[styles.bar, styles.negativeBar, { width: `${share * 100}%`, alignSelf: 'flex-end' }]} />
+                )}
+              </View>
+              <View style={[styles.side, { flex: 1 - negativeShare }]}>
+                {!negative && (
+                  <View style={[styles.bar, styles.positiveBar, { width: `${share * 100}%` }]} />
+                )}
+              </View>
+            </View>
+            <Text style={[styles.value, negative && styles.negativeValue]} numberOfLines={1}>
+              {formatValue(item.value)}
+            </Text>
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  label: {
+    width: 80,
+    fontSize: 12,
+    color: '#333333',
+  },
+  track: {
+    flex: 1,
+    flexDirection: 'row',
+    height: 16,
+    marginHorizontal: 8,
+  },
+  side: {
+    justifyContent: 'center',
+  },
+  bar: {
+    height: 14,
+    borderRadius: 3,
+    minWidth: 2,
+  },
+  positiveBar: {
+    backgroundColor: '#4CAF50',
+  },
+  negativeBar: {
+    backgroundColor: '#F44336',
+  },
+  value: {
+    width: 80,
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#4CAF50',
+    textAlign: 'right',
+  },
+  negativeValue: {
+    color: '#F44336',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999999',
+  },
+});
+
+export default BarChart;
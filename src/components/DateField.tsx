@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Platform } from 'react-native';
+import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/datetimepicker';
+import { formatDate } from '../utils/dates';
+
+interface DateFieldProps {
+  label: string;
+  value?: string;
+  onChange: (isoString: string) => void;
+  editable?: boolean;
+  placeholder?: string;
+  minimumDate?: Date;
+  maximumDate?: Date;
+}
+
+const DateField: React.FC<DateFieldProps> = ({
+  label,
+  value,
+  onChange,
+  editable = true,
+  placeholder = 'Select date',
+  minimumDate,
+  maximumDate,
+}) => {
+  const [showPicker, setShowPicker] = useState(false);
+
+  const handleChange = (event: DateTimePickerEvent, selected?: Date) => {
+    // Android shows a one-shot dialog; iOS keeps the inline picker open
+    if (Platform.OS === 'android') {
+      setShowPicker(false);
+    }
+    if (event.type !== 'set' || !selected) return;
+
+    // Store calendar dates at local noon so they don't shift a day across time zones
+    const atNoon = new Date(selected.getFullYear(), selected.getMonth(), selected.getDate(), 12);
+    onChange(atNoon.toISOString());
+  };
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity
+        style={[styles.field, !editable && styles.fieldDisabled]}
+        onPress={() => setShowPicker(!showPicker)}
+        disabled={!editable}
+      >
+        <Text style={styles.label}>{label}</Text>
+        <Text style={[styles.value, !value && styles.placeholder]}>
+          {value ? formatDate(value) : placeholder}
+        </Text>
+      </TouchableOpacity>
+
+      {showPicker && editable && (
+        <DateTimePicker
+          value={value ? new Date(value) : new Date()}
+          mode="date"
+          display={Platform.OS === 'ios' ? 'inline' : 'default'}
+          onChange={handleChange}
+          minimumDate={minimumDate}
+          maximumDate={maximumDate}
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 15,
+  },
+  field: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    borderRadius: 8,
+    padding: 12,
+    backgroundColor: '#FFFFFF',
+  },
+  fieldDisabled: {
+    backgroundColor: '#FAFAFA',
+  },
+  label: {
+    fontSize: 16,
+    color: '#666666',
+  },
+  value: {
+    fontSize: 16,
+    color: '#333333',
+  },
+  placeholder: {
+    color: '#999999',
+  },
+});
+
+export default DateField;
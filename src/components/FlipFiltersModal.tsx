@@ -0,0 +1,381 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { CurrencyCode, FlipListFilters, FlipListTab, FlipSortField, LineItemCategory, SortDirection } from '../types';
+import { formatCentsAsDecimal, parseCents } from '../utils/currency';
+import { CATEGORY_LABELS, LINE_ITEM_CATEGORIES } from '../utils/categorize';
+import {
+  DEFAULT_FLIP_LIST_FILTERS,
+  SORT_DIRECTION_LABELS,
+  SORT_FIELD_LABELS,
+  validateFlipListFilters,
+} from '../utils/flipFilters';
+import DateField from './DateField';
+
+interface FlipFiltersModalProps {
+  visible: boolean;
+  tab: FlipListTab;
+  currency: CurrencyCode;
+  filters: FlipListFilters;
+  // Errors thrown here are shown in the modal so the user can fix them
+  onApply: (filters: FlipListFilters) => Promise<void>;
+  onCancel: () => void;
+}
+
+const centsToText = (cents: number | null): string => (cents === null ? '' : formatCentsAsDecimal(cents, true));
+
+const roiToText = (roi: number | null): string => (roi === null ? '' : String(Math.round(roi * 10000) / 100));
+
+// Blank means no bound; anything else has to parse
+const parseAmount = (text: string, label: string): number | null => {
+  if (!text.trim()) return null;
+  const cents = parseCents(text);
+  if (cents === null) throw new Error(`${label} must be an amount`);
+  return cents;
+};
+
+const parsePercent = (text: string, label: string): number | null => {
+  if (!text.trim()) return null;
+  const percent = Number(text.trim().replace(/%$/, ''));
+  if (isNaN(percent)) throw new Error(`${label} must be a percentage`);
+  return percent / 100;
+};
+
+const FlipFiltersModal: React.FC<FlipFiltersModalProps> = ({
+  visible,
+  tab,
+  currency,
+  filters,
+  onApply,
+  onCancel,
+}) => {
+  const [minProfit, setMinProfit] = useState('');
+  const [maxProfit, setMaxProfit] = useState('');
+  const [minRoi, setMinRoi] = useState('');
+  const [maxRoi, setMaxRoi] = useState('');
+  const [fromDate, setFromDate] = useState<string | null>(null);
+  const [toDate, setToDate] = useState<string | null>(null);
+  const [spendCategory, setSpendCategory] = useState<LineItemCategory | null>(null);
+  const [minCategorySpend, setMinCategorySpend] = useState('');
+  const [sortBy, setSortBy] = useState<FlipSortField>('created');
+  const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
+  const [error, setError] = useState<string | null>(null);
+  const [working, setWorking] = useState(false);
+
+  const loadFilters = (source: FlipListFilters) => {
+    setMinProfit(centsToText(source.minProfitCents));
+    setMaxProfit(centsToText(source.maxProfitCents));
+    setMinRoi(roiToText(source.minRoi));
+    setMaxRoi(roiToText(source.maxRoi));
+    setFromDate(source.fromDate);
+    setToDate(source.toDate);
+    setSpendCategory(source.spendCategory);
+    setMinCategorySpend(centsToText(source.minCategorySpendCents));
+    setSortBy(source.sortBy);
+    setSortDirection(source.sortDirection);
+  };
+
+  useEffect(() => {
+    if (visible) {
+      loadFilters(filters);
+      setError(null);
+      setWorking(false);
+    }
+  }, [visible]);
+
+  const handleApply = async () => {
+    let next: FlipListFilters;
+    try {
+      next = {
+        minProfitCents: parseAmount(minProfit, 'Minimum profit'),
+        maxProfitCents: parseAmount(maxProfit, 'Maximum profit'),
+        minRoi: parsePercent(minRoi, 'Minimum ROI'),
+        maxRoi: parsePercent(maxRoi, 'Maximum ROI'),
+        fromDate,
+        toDate,
+        spendCategory,
+        minCategorySpendCents: spendCategory ? parseAmount(minCategorySpend, 'Category spend') : null,
+        sortBy,
+        sortDirection,
+      };
+    } catch (parseError) {
+      setError(parseError instanceof Error ? parseError.message : String(parseError));
+      return;
+    }
+
+    const invalid = validateFlipListFilters(next);
+    if (invalid) {
+      setError(invalid);
+      return;
+    }
+
+    setError(null);
+    setWorking(true);
+    try {
+      await onApply(next);
+    } catch (applyError) {
+      setError(applyError instanceof Error ? applyError.message : String(applyError));
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const renderRangeInputs = (
+    min: string,
+    setMin: (text: string) => void,
+    max: string,
+    setMax: (text: string) => void,
+    suffix: string
+  ) => (
+    <View style={styles.rangeRow}>
+      <TextInput
+        style={styles.rangeInput}
+        placeholder="Min"
+        value={min}
+        onChangeText={setMin}
+        keyboardType="numbers-and-punctuation"
+        editable={!working}
+      />
+      <Text style={styles.rangeSeparator}>to</Text>
+      <TextInput
+        style={styles.rangeInput}
+        placeholder="Max"
+        value={max}
+        onChangeText={setMax}
+        keyboardType="numbers-and-punctuation"
+        editable={!working}
+      />
+      <Text style={styles.rangeSuffix}>{suffix}</Text>
+    </View>
+  );
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onCancel}>
+      <View style={styles.backdrop}>
+        <View style={styles.sheet}>
+          <View style={styles.sheetHeader}>
+            <TouchableOpacity onPress={onCancel} disabled={working}>
+              <Text style={styles.headerButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <Text style={styles.title}>Filter & Sort</Text>
+            <TouchableOpacity onPress={() => loadFilters(DEFAULT_FLIP_LIST_FILTERS)} disabled={working}>
+              <Text style={styles.headerButtonText}>Reset</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+            <Text style={styles.label}>Sort By</Text>
+            <View style={styles.optionRow}>
+              {(Object.keys(SORT_FIELD_LABELS) as FlipSortField[]).map(field => (
+                <TouchableOpacity
+                  key={field}
+                  style={[styles.optionChip, sortBy === field && styles.optionChipSelected]}
+                  onPress={() => setSortBy(field)}
+                >
+                  <Text style={[styles.optionChipText, sortBy === field && styles.optionChipTextSelected]}>
+                    {SORT_FIELD_LABELS[field]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <View style={styles.optionRow}>
+              {(Object.keys(SORT_DIRECTION_LABELS) as SortDirection[]).map(direction => (
+                <TouchableOpacity
+                  key={direction}
+                  style={[styles.optionChip, sortDirection === direction && styles.optionChipSelected]}
+                  onPress={() => setSortDirection(direction)}
+                >
+                  <Text style={[styles.optionChipText, sortDirection === direction && styles.optionChipTextSelected]}>
+                    {SORT_DIRECTION_LABELS[direction]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.label}>Profit</Text>
+            {renderRangeInputs(minProfit, setMinProfit, maxProfit, setMaxProfit, currency)}
+
+            <Text style={styles.label}>ROI</Text>
+            {renderRangeInputs(minRoi, setMinRoi, maxRoi, setMaxRoi, '%')}
+
+            <Text style={styles.label}>{tab === 'closed' ? 'Sold Between' : 'Bought Between'}</Text>
+            <DateField label="From" value={fromDate ?? undefined} onChange={setFromDate} placeholder="Any" editable={!working} />
+            <DateField label="To" value={toDate ?? undefined} onChange={setToDate} placeholder="Any" editable={!working} />
+            {(fromDate || toDate) && (
+              <TouchableOpacity onPress={() => { setFromDate(null); setToDate(null); }} disabled={working}>
+                <Text style={styles.clearText}>Clear dates</Text>
+              </TouchableOpacity>
+            )}
+
+            <Text style={styles.label}>Spent On</Text>
+            <View style={styles.optionRow}>
+              {[null, ...LINE_ITEM_CATEGORIES].map(category => (
+                <TouchableOpacity
+                  key={category ?? 'any'}
+                  style={[styles.optionChip, spendCategory === category && styles.optionChipSelected]}
+                  onPress={() => setSpendCategory(category)}
+                >
+                  <Text style={[styles.optionChipText, spendCategory === category && styles.optionChipTextSelected]}>
+                    {category ? CATEGORY_LABELS[category] : 'Any'}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            {spendCategory && (
+              <View style={styles.rangeRow}>
+                <Text style={styles.rangeSeparator}>At least</Text>
+                <TextInput
+                  style={styles.rangeInput}
+                  placeholder="Any amount"
+                  value={minCategorySpend}
+                  onChangeText={setMinCategorySpend}
+                  keyboardType="decimal-pad"
+                  editable={!working}
+                />
+                <Text style={styles.rangeSuffix}>{currency}</Text>
+              </View>
+            )}
+
+            {error && <Text style={styles.error}>{error}</Text>}
+          </ScrollView>
+
+          <TouchableOpacity style={styles.applyButton} onPress={handleApply} disabled={working}>
+            {working ? (
+              <ActivityIndicator color="#FFFFFF" />
+            ) : (
+              <Text style={styles.applyButtonText}>Apply</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: '#F5F5F5',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    maxHeight: '90%',
+    paddingBottom: 30,
+  },
+  sheetHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    backgroundColor: '#FFFFFF',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E0E0E0',
+  },
+  headerButtonText: {
+    fontSize: 16,
+    color: '#007AFF',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333333',
+  },
+  content: {
+    paddingHorizontal: 20,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#333333',
+    marginTop: 15,
+    marginBottom: 8,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  optionChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 7,
+    marginRight: 6,
+    marginBottom: 6,
+    borderRadius: 6,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+  },
+  optionChipSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  optionChipText: {
+    fontSize: 14,
+    color: '#333333',
+  },
+  optionChipTextSelected: {
+    color: '#FFFFFF',
+  },
+  rangeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  rangeInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 16,
+    backgroundColor: '#FFFFFF',
+  },
+  rangeSeparator: {
+    fontSize: 14,
+    color: '#666666',
+    marginHorizontal: 8,
+  },
+  rangeSuffix: {
+    width: 40,
+    fontSize: 14,
+    color: '#666666',
+    marginLeft: 8,
+  },
+  clearText: {
+    fontSize: 14,
+    color: '#007AFF',
+    marginBottom: 6,
+  },
+  error: {
+    fontSize: 14,
+    color: '#F44336',
+    marginTop: 12,
+  },
+  applyButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 8,
+    paddingVertical: 14,
+    marginHorizontal: 20,
+    marginTop: 15,
+    alignItems: 'center',
+  },
+  applyButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default FlipFiltersModal;
@@ -0,0 +1,270 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { Flip, ListingPlatform, ListingWithPrices } from '../types';
+import { formatCentsAsDecimal, formatCurrency, parseCents } from '../utils/currency';
+import { getCurrentISOString } from '../utils/dates';
+import { getAskingPrice, LISTING_PLATFORMS, LISTING_PLATFORM_LABELS } from '../utils/listings';
+import DateField from './DateField';
+
+// Opening a listing, changing its asking price, or taking it down
+export type ListingModalMode = 'new' | 'price' | 'end';
+
+export interface ListingModalValues {
+  platform: ListingPlatform;
+  date: string;
+  // Null when ending a listing
+  priceCents: number | null;
+}
+
+interface ListingModalProps {
+  visible: boolean;
+  mode: ListingModalMode;
+  flip: Flip;
+  // The listing being changed; unused for new listings
+  listing?: ListingWithPrices;
+  // Errors thrown here are shown in the modal so the user can fix them
+  onSubmit: (values: ListingModalValues) => Promise<void>;
+  onCancel: () => void;
+}
+
+const TITLES: Record<ListingModalMode, string> = {
+  new: 'New Listing',
+  price: 'Change Asking Price',
+  end: 'End Listing',
+};
+
+const ListingModal: React.FC<ListingModalProps> = ({ visible, mode, flip, listing, onSubmit, onCancel }) => {
+  const [platform, setPlatform] = useState<ListingPlatform>('marketplace');
+  const [date, setDate] = useState(getCurrentISOString());
+  const [price, setPrice] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [working, setWorking] = useState(false);
+
+  const currentPrice = listing ? getAskingPrice(listing) : null;
+
+  useEffect(() => {
+    if (visible) {
+      setPlatform(listing?.platform ?? 'marketplace');
+      // Listings of a car that already sold are being filled in after the fact
+      setDate(flip.sold_date ?? getCurrentISOString());
+      setPrice('');
+      setError(null);
+      setWorking(false);
+    }
+  }, [visible]);
+
+  const handleSubmit = async () => {
+    let priceCents: number | null = null;
+    if (mode !== 'end') {
+      priceCents = parseCents(price);
+      if (priceCents === null) {
+        setError('Enter the asking price');
+        return;
+      }
+    }
+
+    setError(null);
+    setWorking(true);
+    try {
+      await onSubmit({ platform, date, priceCents });
+    } catch (submitError) {
+      setError(submitError instanceof Error ? submitError.message : String(submitError));
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const earliest = mode === 'new' ? flip.purchase_date : listing?.listed_at;
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onCancel}>
+      <KeyboardAvoidingView
+        style={styles.backdrop}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <View style={styles.dialog}>
+          <ScrollView keyboardShouldPersistTaps="handled">
+            <Text style={styles.title}>{TITLES[mode]}</Text>
+            {listing && currentPrice && (
+              <Text style={styles.message}>
+                {LISTING_PLATFORM_LABELS[listing.platform]} listing, asking{' '}
+                {formatCurrency(currentPrice.price_cents, flip.currency)}
+              </Text>
+            )}
+
+            {mode === 'new' && (
+              <>
+                <Text style={styles.label}>Platform</Text>
+                <View style={styles.optionRow}>
+                  {LISTING_PLATFORMS.map(option => (
+                    <TouchableOpacity
+                      key={option}
+                      style={[styles.optionChip, platform === option && styles.optionChipSelected]}
+                      onPress={() => setPlatform(option)}
+                      disabled={working}
+                    >
+                      <Text style={[styles.optionChipText, platform === option && styles.optionChipTextSelected]}>
+                        {LISTING_PLATFORM_LABELS[option]}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </>
+            )}
+
+            <DateField
+              label={mode === 'new' ? 'Listed On' : mode === 'price' ? 'Changed On' : 'Ended On'}
+              value={date}
+              onChange={setDate}
+              editable={!working}
+              minimumDate={earliest ? new Date(earliest) : undefined}
+              maximumDate={flip.sold_date ? new Date(flip.sold_date) : new Date()}
+            />
+
+            {mode !== 'end' && (
+              <>
+                <Text style={styles.label}>
+                  {mode === 'new' ? 'Asking Price' : 'New Asking Price'} ({flip.currency})
+                </Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder={currentPrice ? formatCentsAsDecimal(currentPrice.price_cents, true) : '0.00'}
+                  value={price}
+                  onChangeText={setPrice}
+                  keyboardType="decimal-pad"
+                  editable={!working}
+                />
+              </>
+            )}
+
+            {error && <Text style={styles.error}>{error}</Text>}
+
+            <View style={styles.buttons}>
+              <TouchableOpacity style={styles.cancelButton} onPress={onCancel} disabled={working}>
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.submitButton} onPress={handleSubmit} disabled={working}>
+                {working ? (
+                  <ActivityIndicator color="#FFFFFF" />
+                ) : (
+                  <Text style={styles.submitButtonText}>{mode === 'end' ? 'End Listing' : 'Save'}</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </ScrollView>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    justifyContent: 'center',
+    padding: 20,
+  },
+  dialog: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 20,
+    maxHeight: '90%',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333333',
+    marginBottom: 5,
+  },
+  message: {
+    fontSize: 14,
+    color: '#666666',
+    marginBottom: 15,
+  },
+  label: {
+    fontSize: 12,
+    color: '#666666',
+    marginBottom: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: '#FFFFFF',
+    marginBottom: 12,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 6,
+  },
+  optionChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 6,
+    marginBottom: 6,
+    borderRadius: 6,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+  },
+  optionChipSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  optionChipText: {
+    fontSize: 13,
+    color: '#333333',
+  },
+  optionChipTextSelected: {
+    color: '#FFFFFF',
+  },
+  error: {
+    fontSize: 14,
+    color: '#F44336',
+    marginBottom: 8,
+  },
+  buttons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 8,
+  },
+  cancelButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    marginRight: 8,
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    color: '#007AFF',
+  },
+  submitButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 8,
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+    minWidth: 100,
+    alignItems: 'center',
+  },
+  submitButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default ListingModal;
@@ -0,0 +1,210 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { MIN_PASSPHRASE_LENGTH } from '../utils/encryption';
+
+export type PassphraseMode = 'encrypt' | 'decrypt';
+
+interface PassphraseModalProps {
+  visible: boolean;
+  mode: PassphraseMode;
+  title: string;
+  message?: string;
+  // Errors thrown here are shown in the modal so the user can try again
+  onSubmit: (passphrase: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+const PassphraseModal: React.FC<PassphraseModalProps> = ({
+  visible,
+  mode,
+  title,
+  message,
+  onSubmit,
+  onCancel,
+}) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [working, setWorking] = useState(false);
+
+  useEffect(() => {
+    if (!visible) {
+      setPassphrase('');
+      setConfirmation('');
+      setError(null);
+      setWorking(false);
+    }
+  }, [visible]);
+
+  const handleSubmit = async () => {
+    if (mode === 'encrypt') {
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        setError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters`);
+        return;
+      }
+      if (passphrase !== confirmation) {
+        setError('Passphrases do not match');
+        return;
+      }
+    } else if (!passphrase) {
+      setError('Enter the passphrase');
+      return;
+    }
+
+    setError(null);
+    setWorking(true);
+    try {
+      await onSubmit(passphrase);
+    } catch (submitError) {
+      setError(submitError instanceof Error ? submitError.message : String(submitError));
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onCancel}>
+      <KeyboardAvoidingView
+        style={styles.backdrop}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <View style={styles.dialog}>
+          <Text style={styles.title}>{title}</Text>
+          {message && <Text style={styles.message}>{message}</Text>}
+
+          <TextInput
+            style={styles.input}
+            placeholder="Passphrase"
+            value={passphrase}
+            onChangeText={setPassphrase}
+            secureTextEntry
+            autoCapitalize="none"
+            autoCorrect={false}
+            autoFocus
+            editable={!working}
+          />
+          {mode === 'encrypt' && (
+            <TextInput
+              style={styles.input}
+              placeholder="Confirm passphrase"
+              value={confirmation}
+              onChangeText={setConfirmation}
+              secureTextEntry
+              autoCapitalize="none"
+              autoCorrect={false}
+              editable={!working}
+            />
+          )}
+
+          {mode === 'encrypt' && (
+            <Text style={styles.hint}>
+              There is no way to recover a forgotten passphrase.
+            </Text>
+          )}
+          {working && (
+            <Text style={styles.hint}>
+              {mode === 'encrypt' ? 'Encrypting' : 'Decrypting'}. This can take a few seconds.
+            </Text>
+          )}
+          {error && <Text style={styles.error}>{error}</Text>}
+
+          <View style={styles.buttons}>
+            <TouchableOpacity style={styles.cancelButton} onPress={onCancel} disabled={working}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.submitButton} onPress={handleSubmit} disabled={working}>
+              {working ? (
+                <ActivityIndicator color="#FFFFFF" />
+              ) : (
+                <Text style={styles.submitButtonText}>{mode === 'encrypt' ? 'Encrypt' : 'Decrypt'}</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    justifyContent: 'center',
+    padding: 30,
+  },
+  dialog: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 20,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333333',
+    marginBottom: 5,
+  },
+  message: {
+    fontSize: 14,
+    color: '#666666',
+    marginBottom: 15,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: '#FFFFFF',
+    marginBottom: 12,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#999999',
+    marginBottom: 8,
+  },
+  error: {
+    fontSize: 14,
+    color: '#F44336',
+    marginBottom: 8,
+  },
+  buttons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 8,
+  },
+  cancelButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    marginRight: 8,
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    color: '#007AFF',
+  },
+  submitButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 8,
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+    minWidth: 100,
+    alignItems: 'center',
+  },
+  submitButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default PassphraseModal;
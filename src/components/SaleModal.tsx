@@ -0,0 +1,269 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { Flip, PaymentMethod, SaleDetails } from '../types';
+import { formatCentsAsDecimal, formatCurrency, parseCents } from '../utils/currency';
+import { getCurrentISOString } from '../utils/dates';
+import { PAYMENT_METHODS, PAYMENT_METHOD_LABELS, validateSale } from '../utils/sale';
+import DateField from './DateField';
+
+interface SaleModalProps {
+  visible: boolean;
+  flip: Flip;
+  // Errors thrown here are shown in the modal so the user can fix them
+  onSubmit: (sale: SaleDetails) => Promise<void>;
+  onCancel: () => void;
+}
+
+// Records a sale, or edits the one already recorded on the flip
+const SaleModal: React.FC<SaleModalProps> = ({ visible, flip, onSubmit, onCancel }) => {
+  const [soldDate, setSoldDate] = useState(getCurrentISOString());
+  const [price, setPrice] = useState('');
+  const [buyer, setBuyer] = useState('');
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod | undefined>(undefined);
+  const [odometer, setOdometer] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [working, setWorking] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setSoldDate(flip.sold_date ?? getCurrentISOString());
+      setPrice(flip.sell_price_cents != null ? formatCentsAsDecimal(flip.sell_price_cents, true) : '');
+      setBuyer(flip.buyer ?? '');
+      setPaymentMethod(flip.payment_method);
+      setOdometer(flip.sold_miles != null ? String(flip.sold_miles) : '');
+      setError(null);
+      setWorking(false);
+    }
+  }, [visible]);
+
+  const handleSubmit = async () => {
+    const sellPriceCents = parseCents(price);
+    if (sellPriceCents === null) {
+      setError('Enter the final sale price');
+      return;
+    }
+    const soldMiles = odometer.trim() ? Number(odometer.replace(/[,\s]/g, '')) : undefined;
+
+    const sale: SaleDetails = {
+      soldDate,
+      sellPriceCents,
+      buyer: buyer.trim() || undefined,
+      paymentMethod,
+      soldMiles,
+    };
+    const invalid = validateSale(flip, sale);
+    if (invalid) {
+      setError(invalid);
+      return;
+    }
+
+    setError(null);
+    setWorking(true);
+    try {
+      await onSubmit(sale);
+    } catch (submitError) {
+      setError(submitError instanceof Error ? submitError.message : String(submitError));
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onCancel}>
+      <KeyboardAvoidingView
+        style={styles.backdrop}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <View style={styles.dialog}>
+          <ScrollView keyboardShouldPersistTaps="handled">
+            <Text style={styles.title}>{flip.sold_date ? 'Edit Sale' : 'Record Sale'}</Text>
+            <Text style={styles.message}>
+              Bought for {formatCurrency(flip.buy_price_cents, flip.currency)}
+              {flip.miles != null ? ` with ${flip.miles.toLocaleString()} miles` : ''}
+            </Text>
+
+            <DateField
+              label="Sale Date"
+              value={soldDate}
+              onChange={setSoldDate}
+              editable={!working}
+              minimumDate={flip.purchase_date ? new Date(flip.purchase_date) : undefined}
+              maximumDate={new Date()}
+            />
+
+            <Text style={styles.label}>Final Price ({flip.currency})</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="0.00"
+              value={price}
+              onChangeText={setPrice}
+              keyboardType="decimal-pad"
+              editable={!working}
+            />
+
+            <Text style={styles.label}>Buyer</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="Optional"
+              value={buyer}
+              onChangeText={setBuyer}
+              editable={!working}
+            />
+
+            <Text style={styles.label}>Payment Method</Text>
+            <View style={styles.optionRow}>
+              {PAYMENT_METHODS.map(method => (
+                <TouchableOpacity
+                  key={method}
+                  style={[styles.optionChip, paymentMethod === method && styles.optionChipSelected]}
+                  onPress={() => setPaymentMethod(paymentMethod === method ? undefined : method)}
+                  disabled={working}
+                >
+                  <Text style={[styles.optionChipText, paymentMethod === method && styles.optionChipTextSelected]}>
+                    {PAYMENT_METHOD_LABELS[method]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.label}>Odometer at Sale</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="Optional"
+              value={odometer}
+              onChangeText={setOdometer}
+              keyboardType="number-pad"
+              editable={!working}
+            />
+
+            {error && <Text style={styles.error}>{error}</Text>}
+
+            <View style={styles.buttons}>
+              <TouchableOpacity style={styles.cancelButton} onPress={onCancel} disabled={working}>
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.submitButton} onPress={handleSubmit} disabled={working}>
+                {working ? (
+                  <ActivityIndicator color="#FFFFFF" />
+                ) : (
+                  <Text style={styles.submitButtonText}>Save Sale</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </ScrollView>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    justifyContent: 'center',
+    padding: 20,
+  },
+  dialog: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 20,
+    maxHeight: '90%',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333333',
+    marginBottom: 5,
+  },
+  message: {
+    fontSize: 14,
+    color: '#666666',
+    marginBottom: 15,
+  },
+  label: {
+    fontSize: 12,
+    color: '#666666',
+    marginBottom: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: '#FFFFFF',
+    marginBottom: 12,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 6,
+  },
+  optionChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 6,
+    marginBottom: 6,
+    borderRadius: 6,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+  },
+  optionChipSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  optionChipText: {
+    fontSize: 13,
+    color: '#333333',
+  },
+  optionChipTextSelected: {
+    color: '#FFFFFF',
+  },
+  error: {
+    fontSize: 14,
+    color: '#F44336',
+    marginBottom: 8,
+  },
+  buttons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 8,
+  },
+  cancelButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    marginRight: 8,
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    color: '#007AFF',
+  },
+  submitButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 8,
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+    minWidth: 100,
+    alignItems: 'center',
+  },
+  submitButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default SaleModal;
@@ -0,0 +1,218 @@
+import type * as SQLite from 'expo-sqlite';
+import { Database } from 'node-sqlite3-wasm';
+import { getSchemaVersion, MigrationError, runMigrations } from '../migrations';
+import { LATEST_SCHEMA_VERSION, Migration, MIGRATIONS } from '../schema';
+
+// Just enough of expo-sqlite's async API for the runner, backed by an
+// in-memory SQLite build that runs under Node
+const openDatabase = (sqlite: Database): SQLite.SQLiteDatabase => {
+  const database = {
+    execAsync: async (source: string) => {
+      sqlite.exec(source);
+    },
+    getFirstAsync: async (source: string, params: (string | number)[] = []) => sqlite.get(source, params),
+    getAllAsync: async (source: string, params: (string | number)[] = []) => sqlite.all(source, params),
+    withExclusiveTransactionAsync: async (task: (txn: SQLite.SQLiteDatabase) => Promise<void>) => {
+      sqlite.exec('BEGIN EXCLUSIVE');
+      try {
+        await task(database as unknown as SQLite.SQLiteDatabase);
+        sqlite.exec('COMMIT');
+      } catch (error) {
+        sqlite.exec('ROLLBACK');
+        throw error;
+      }
+    },
+  };
+  return database as unknown as SQLite.SQLiteDatabase;
+};
+
+// Like the app's connection, this one doesn't enforce foreign keys
+const createSqlite = (): Database => {
+  const sqlite = new Database();
+  sqlite.exec('PRAGMA foreign_keys = OFF');
+  return sqlite;
+};
+
+const getSchema = (sqlite: Database) => {
+  return sqlite.all("SELECT type, name, tbl_name, sql FROM sqlite_master WHERE name NOT LIKE 'sqlite_%' ORDER BY name");
+};
+
+const getColumns = (sqlite: Database, table: string): string[] => {
+  return sqlite.all(`PRAGMA table_info(${table})`).map(column => String(column.name));
+};
+
+const TIMESTAMP = '2024-03-01T12:00:00.000Z';
+
+// A sold flip with one expense, in whichever columns the schema has
+const seedFlip = (sqlite: Database) => {
+  const columns = getColumns(sqlite, 'flips');
+  const dollars = columns.includes('buy_price');
+  const flip: Record<string, string | number> = {
+    make: 'Honda',
+    [dollars ? 'buy_price' : 'buy_price_cents']: dollars ? 1234.56 : 123456,
+    [dollars ? 'sell_price' : 'sell_price_cents']: dollars ? 2000 : 200000,
+    sold_date: TIMESTAMP,
+    created_at: TIMESTAMP,
+    updated_at: TIMESTAMP,
+  };
+  if (columns.includes('status')) flip.status = 'sold';
+  sqlite.run(
+    `INSERT INTO flips (${Object.keys(flip).join(', ')}) VALUES (${Object.keys(flip).map(() => '?').join(', ')})`,
+    Object.values(flip)
+  );
+
+  const flipId = sqlite.get('SELECT MAX(id) AS id FROM flips')?.id as number;
+  sqlite.run(
+    `INSERT INTO line_items (flip_id, title, ${dollars ? 'amount' : 'amount_cents'}, created_at, updated_at) VALUES (?, ?, ?, ?, ?)`,
+    [flipId, 'Water pump', dollars ? 19.99 : 1999, TIMESTAMP, TIMESTAMP]
+  );
+};
+
+describe('runMigrations', () => {
+  let sqlite: Database;
+  let latestSchema: ReturnType<typeof getSchema>;
+
+  beforeAll(async () => {
+    const fresh = createSqlite();
+    await runMigrations(openDatabase(fresh));
+    latestSchema = getSchema(fresh);
+    fresh.close();
+  });
+
+  beforeEach(() => {
+    sqlite = createSqlite();
+  });
+
+  afterEach(() => {
+    sqlite.close();
+  });
+
+  it('builds the latest schema on an empty database', async () => {
+    const database = openDatabase(sqlite);
+
+    await expect(runMigrations(database)).resolves.toBe(LATEST_SCHEMA_VERSION);
+    expect(await getSchemaVersion(database)).toBe(LATEST_SCHEMA_VERSION);
+    expect(getColumns(sqlite, 'flips')).toEqual(expect.arrayContaining(['buy_price_cents', 'currency', 'status', 'buyer']));
+    expect(sqlite.get("SELECT COUNT(*) AS count FROM category_rules WHERE source = 'default'")?.count).toBeGreaterThan(0);
+  });
+
+  it('does nothing on a database that is up to date', async () => {
+    const database = openDatabase(sqlite);
+    await runMigrations(database);
+
+    await expect(runMigrations(database)).resolves.toBe(LATEST_SCHEMA_VERSION);
+    expect(getSchema(sqlite)).toEqual(latestSchema);
+  });
+
+  it.each(MIGRATIONS.slice(0, -1).map(migration => migration.version))(
+    'upgrades a version %i database with data to the latest schema',
+    async version => {
+      const database = openDatabase(sqlite);
+      await runMigrations(database, MIGRATIONS, version);
+      expect(await getSchemaVersion(database)).toBe(version);
+      seedFlip(sqlite);
+
+      await expect(runMigrations(database)).resolves.toBe(LATEST_SCHEMA_VERSION);
+
+      expect(getSchema(sqlite)).toEqual(latestSchema);
+      expect(sqlite.get('SELECT make, buy_price_cents, sell_price_cents, status FROM flips')).toEqual({
+        make: 'Honda',
+        buy_price_cents: 123456,
+        sell_price_cents: 200000,
+        status: 'sold',
+      });
+      expect(sqlite.get('SELECT title, amount_cents FROM line_items')).toEqual({ title: 'Water pump', amount_cents: 1999 });
+    }
+  );
+
+  describe('storing money as cents (version 5)', () => {
+    it('converts dollar amounts and keeps IDs and their counters', async () => {
+      const database = openDatabase(sqlite);
+      await runMigrations(database, MIGRATIONS, 4);
+      seedFlip(sqlite);
+      seedFlip(sqlite);
+      seedFlip(sqlite);
+      sqlite.run('UPDATE flips SET sell_price = NULL, sold_date = NULL WHERE id = 2');
+      sqlite.run('DELETE FROM line_items WHERE flip_id = 3');
+      sqlite.run('DELETE FROM flips WHERE id = 3');
+
+      await runMigrations(database, MIGRATIONS, 5);
+
+      expect(sqlite.all('SELECT id, buy_price_cents, sell_price_cents FROM flips ORDER BY id')).toEqual([
+        { id: 1, buy_price_cents: 123456, sell_price_cents: 200000 },
+        { id: 2, buy_price_cents: 123456, sell_price_cents: null },
+      ]);
+      expect(sqlite.all('SELECT id, flip_id, amount_cents FROM line_items ORDER BY id')).toEqual([
+        { id: 1, flip_id: 1, amount_cents: 1999 },
+        { id: 2, flip_id: 2, amount_cents: 1999 },
+      ]);
+      expect(sqlite.all('SELECT name, seq FROM sqlite_sequence ORDER BY name')).toEqual([
+        { name: 'category_rules', seq: expect.any(Number) },
+        { name: 'flips', seq: 3 },
+        { name: 'line_items', seq: 3 },
+      ]);
+
+      // The deleted flip's ID isn't handed out again
+      seedFlip(sqlite);
+      expect(sqlite.get('SELECT MAX(id) AS id FROM flips')?.id).toBe(4);
+      expect(sqlite.get('SELECT MAX(id) AS id FROM line_items')?.id).toBe(4);
+    });
+  });
+
+  describe('databases from before versioned migrations', () => {
+    // Those databases were built by running the same statements on every launch
+    const createLegacyDatabase = (version: number) => {
+      MIGRATIONS.slice(0, version).forEach(migration => migration.statements.forEach(statement => sqlite.exec(statement)));
+    };
+
+    it.each([1, 2])('recognizes a version %i database with user_version 0', async version => {
+      createLegacyDatabase(version);
+      seedFlip(sqlite);
+      const database = openDatabase(sqlite);
+      expect(await getSchemaVersion(database)).toBe(0);
+
+      await expect(runMigrations(database)).resolves.toBe(LATEST_SCHEMA_VERSION);
+
+      expect(getSchema(sqlite)).toEqual(latestSchema);
+      expect(sqlite.get('SELECT buy_price_cents FROM flips')).toEqual({ buy_price_cents: 123456 });
+      expect(sqlite.get('SELECT amount_cents FROM line_items')).toEqual({ amount_cents: 1999 });
+    });
+  });
+
+  describe('failures', () => {
+    const broken: Migration[] = [
+      MIGRATIONS[0],
+      {
+        version: 2,
+        name: 'broken',
+        statements: ['ALTER TABLE flips ADD COLUMN notes TEXT', 'INSERT INTO missing_table VALUES (1)'],
+      },
+    ];
+
+    it('rolls back a failed migration and reports which one it was', async () => {
+      const database = openDatabase(sqlite);
+
+      const error = await runMigrations(database, broken).catch(caught => caught);
+
+      expect(error).toBeInstanceOf(MigrationError);
+      expect(error).toMatchObject({ version: 2, migrationName: 'broken' });
+      expect(error.message).toMatch(/^Database migration 2 \(broken\) failed/);
+      expect(await getSchemaVersion(database)).toBe(1);
+      expect(getColumns(sqlite, 'flips')).not.toContain('notes');
+    });
+
+    it('refuses a database newer than the app', async () => {
+      const database = openDatabase(sqlite);
+      await runMigrations(database);
+
+      await expect(runMigrations(database, MIGRATIONS.slice(0, 3))).rejects.toThrow('newer than this app supports');
+    });
+
+    it('refuses migrations that are not numbered consecutively', async () => {
+      const database = openDatabase(sqlite);
+
+      await expect(runMigrations(database, [MIGRATIONS[0], MIGRATIONS[2]])).rejects.toThrow('numbered consecutively');
+      expect(await getSchemaVersion(database)).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,336 @@
+import { getBaseCurrency, getDatabase } from './sqlite';
+import { FLIP_TOTALS_CTE } from './totals';
+import { CurrencyCode, FlipStatus, ListingPlatform } from '../types';
+import { getDaysToSell } from '../utils/dates';
+import { FLIP_STATUSES, isClosedStatus } from '../utils/flipStatus';
+import { LISTING_PLATFORMS } from '../utils/listings';
+
+export interface ProfitPeriod {
+  // "2026-03" for months, "2026-Q1" for quarters
+  period: string;
+  flips: number;
+  profitCents: number;
+}
+
+export interface ModelProfit {
+  make?: string;
+  model?: string;
+  flips: number;
+  profitCents: number;
+  averageRoi: number;
+}
+
+export interface FlipPerformance {
+  id: number;
+  year?: number;
+  make?: string;
+  model?: string;
+  profitCents: number;
+  roi: number;
+}
+
+// Time flips spent in a stage before moving on. Flips still in the stage
+// aren't averaged in, since their stay isn't over.
+export interface StageDuration {
+  status: FlipStatus;
+  averageDays: number | null;
+  completed: number;
+  current: number;
+}
+
+// A listing's time on the market runs until it ends or the car sells.
+// Listings still up aren't averaged in.
+export interface PlatformDaysOnMarket {
+  platform: ListingPlatform;
+  averageDays: number | null;
+  completed: number;
+  active: number;
+}
+
+// Realized figures cover sold flips only. Amounts are cents of the base currency.
+export interface PortfolioAnalytics {
+  currency: CurrencyCode;
+  soldCount: number;
+  realizedProfitCents: number;
+  // Null until something has sold
+  averageRoi: number | null;
+  averageDaysToSell: number | null;
+  medianDaysToSell: number | null;
+  monthlyProfit: ProfitPeriod[];
+  quarterlyProfit: ProfitPeriod[];
+  profitByModel: ModelProfit[];
+  bestFlips: FlipPerformance[];
+  worstFlips: FlipPerformance[];
+  openCount: number;
+  // Purchase price plus expenses so far of every flip bought and still held.
+  // Prospects haven't been paid for and scrapped flips are gone.
+  openCapitalCents: number;
+  // Flips scrapped or parted out without a sale, and what they had cost
+  scrappedCount: number;
+  writtenOffCents: number;
+  // Flips with amounts left out for lack of an exchange rate
+  incompleteCount: number;
+  // Open stages in lifecycle order
+  stageDurations: StageDuration[];
+  // How far below the first asking price sold flips went, as a fraction of
+  // that price. Null until a listed flip has sold.
+  averageListingDiscount: number | null;
+  listedSaleCount: number;
+  // Every platform, in LISTING_PLATFORMS order
+  daysOnMarket: PlatformDaysOnMarket[];
+}
+
+const RANKED_FLIPS = 3;
+
+interface SummaryRow {
+  sold_count: number | null;
+  realized_profit_cents: number | null;
+  average_roi: number | null;
+  open_count: number | null;
+  open_capital_cents: number | null;
+  scrapped_count: number | null;
+  written_off_cents: number | null;
+  incomplete_count: number | null;
+}
+
+interface PeriodRow {
+  period: string;
+  flips: number;
+  profit_cents: number;
+}
+
+interface ModelRow {
+  make: string | null;
+  model: string | null;
+  flips: number;
+  profit_cents: number;
+  average_roi: number;
+}
+
+interface RankedRow {
+  id: number;
+  year: number | null;
+  make: string | null;
+  model: string | null;
+  profit_cents: number;
+  roi: number;
+}
+
+// Bought and not yet sold or scrapped, matching isClosedStatus. Prospects
+// haven't been paid for.
+const HELD = `sold_date IS NULL AND status NOT IN ('prospect', 'sold', 'scrapped')`;
+
+const WRITTEN_OFF = `sold_date IS NULL AND status = 'scrapped'`;
+
+const SUMMARY_QUERY = `${FLIP_TOTALS_CTE}
+  SELECT
+    SUM(CASE WHEN sold_date IS NOT NULL THEN 1 ELSE 0 END) AS sold_count,
+    SUM(CASE WHEN sold_date IS NOT NULL THEN profit_cents ELSE 0 END) AS realized_profit_cents,
+    AVG(CASE WHEN sold_date IS NOT NULL THEN roi END) AS average_roi,
+    SUM(CASE WHEN ${HELD} THEN 1 ELSE 0 END) AS open_count,
+    SUM(CASE WHEN ${HELD} THEN buy_total_cents + expense_total_cents ELSE 0 END) AS open_capital_cents,
+    SUM(CASE WHEN ${WRITTEN_OFF} THEN 1 ELSE 0 END) AS scrapped_count,
+    SUM(CASE WHEN ${WRITTEN_OFF} THEN buy_total_cents + expense_total_cents ELSE 0 END) AS written_off_cents,
+    SUM(CASE WHEN missing_rates IS NOT NULL THEN 1 ELSE 0 END) AS incomplete_count
+  FROM flip_totals
+`;
+
+// Sale dates are grouped in local time so a sale lands in the month it was made
+const periodQuery = (period: string) => `${FLIP_TOTALS_CTE}
+  SELECT ${period} AS period, COUNT(*) AS flips, SUM(profit_cents) AS profit_cents
+  FROM flip_totals
+  WHERE sold_date IS NOT NULL AND period IS NOT NULL
+  GROUP BY period
+  ORDER BY period ASC
+`;
+
+const MONTH = `strftime('%Y-%m', sold_date, 'localtime')`;
+
+const QUARTER = `strftime('%Y', sold_date, 'localtime') || '-Q' ||
+    ((CAST(strftime('%m', sold_date, 'localtime') AS INTEGER) + 2) / 3)`;
+
+// "bmw" and "BMW " are the same make
+const MODEL_QUERY = `${FLIP_TOTALS_CTE}
+  SELECT MAX(make) AS make, MAX(model) AS model, COUNT(*) AS flips,
+    SUM(profit_cents) AS profit_cents, AVG(roi) AS average_roi
+  FROM flip_totals
+  WHERE sold_date IS NOT NULL
+  GROUP BY LOWER(TRIM(COALESCE(make, ''))), LOWER(TRIM(COALESCE(model, '')))
+  ORDER BY profit_cents DESC
+`;
+
+const rankedQuery = (direction: 'ASC' | 'DESC') => `${FLIP_TOTALS_CTE}
+  SELECT id, year, make, model, profit_cents, roi
+  FROM flip_totals
+  WHERE sold_date IS NOT NULL
+  ORDER BY profit_cents ${direction}, id ASC
+  LIMIT ${RANKED_FLIPS}
+`;
+
+interface StageRow {
+  status: FlipStatus;
+  average_days: number | null;
+  completed: number;
+  current: number;
+}
+
+// Each status change lasts until the flip's next one. History of deleted
+// flips is left out in case any was orphaned.
+const STAGE_QUERY = `
+  WITH stays AS (
+    SELECT status, changed_at,
+      LEAD(changed_at) OVER (PARTITION BY flip_id ORDER BY changed_at ASC, id ASC) AS left_at
+    FROM flip_status_history
+    WHERE flip_id IN (SELECT id FROM flips)
+  )
+  SELECT status,
+    AVG(CASE WHEN left_at IS NOT NULL THEN julianday(left_at) - julianday(changed_at) END) AS average_days,
+    SUM(CASE WHEN left_at IS NOT NULL THEN 1 ELSE 0 END) AS completed,
+    SUM(CASE WHEN left_at IS NULL THEN 1 ELSE 0 END) AS current
+  FROM stays
+  GROUP BY status
+`;
+
+interface DiscountRow {
+  average_discount: number | null;
+  sales: number;
+}
+
+interface PlatformRow {
+  platform: ListingPlatform;
+  average_days: number | null;
+  completed: number;
+  active: number;
+}
+
+// A flip's first asking price is the opening price of its earliest listing.
+// Both prices are in the flip's currency, so no conversion is needed.
+const DISCOUNT_QUERY = `
+  WITH first_asks AS (
+    SELECT listings.flip_id, listing_prices.price_cents,
+      ROW_NUMBER() OVER (
+        PARTITION BY listings.flip_id
+        ORDER BY listings.listed_at ASC, listings.id ASC, listing_prices.changed_at ASC, listing_prices.id ASC
+      ) AS position
+    FROM listings
+    JOIN listing_prices ON listing_prices.listing_id = listings.id
+  )
+  SELECT
+    AVG(1.0 * (first_asks.price_cents - flips.sell_price_cents) / first_asks.price_cents) AS average_discount,
+    COUNT(*) AS sales
+  FROM first_asks
+  JOIN flips ON flips.id = first_asks.flip_id
+  WHERE first_asks.position = 1 AND first_asks.price_cents > 0
+    AND flips.sold_date IS NOT NULL AND flips.sell_price_cents IS NOT NULL
+`;
+
+// Listings on scrapped flips that were never ended went nowhere, so they
+// count as neither
+const PLATFORM_QUERY = `
+  WITH stays AS (
+    SELECT listings.platform, listings.listed_at, flips.status,
+      COALESCE(listings.ended_at, flips.sold_date) AS off_market_at
+    FROM listings
+    JOIN flips ON flips.id = listings.flip_id
+  )
+  SELECT platform,
+    AVG(julianday(off_market_at) - julianday(listed_at)) AS average_days,
+    SUM(CASE WHEN off_market_at IS NOT NULL THEN 1 ELSE 0 END) AS completed,
+    SUM(CASE WHEN off_market_at IS NULL AND status != 'scrapped' THEN 1 ELSE 0 END) AS active
+  FROM stays
+  GROUP BY platform
+`;
+
+const toPeriods = (rows: PeriodRow[]): ProfitPeriod[] =>
+  rows.map(row => ({ period: row.period, flips: row.flips, profitCents: row.profit_cents }));
+
+const toPerformance = (row: RankedRow): FlipPerformance => ({
+  id: row.id,
+  year: row.year ?? undefined,
+  make: row.make ?? undefined,
+  model: row.model ?? undefined,
+  profitCents: row.profit_cents,
+  roi: row.roi,
+});
+
+const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+export const getPortfolioAnalytics = async (): Promise<PortfolioAnalytics> => {
+  const database = getDatabase();
+  const currency = await getBaseCurrency();
+  const params = { $base: currency, $now: new Date().toISOString() };
+
+  const summary = await database.getFirstAsync<SummaryRow>(SUMMARY_QUERY, params);
+  const monthly = await database.getAllAsync<PeriodRow>(periodQuery(MONTH), params);
+  const quarterly = await database.getAllAsync<PeriodRow>(periodQuery(QUARTER), params);
+  const models = await database.getAllAsync<ModelRow>(MODEL_QUERY, params);
+  const best = await database.getAllAsync<RankedRow>(rankedQuery('DESC'), params);
+  const worst = await database.getAllAsync<RankedRow>(rankedQuery('ASC'), params);
+
+  // Flips without a purchase date can't say how long they took to sell
+  const sales = await database.getAllAsync<{ purchase_date: string | null; sold_date: string }>(
+    'SELECT purchase_date, sold_date FROM flips WHERE sold_date IS NOT NULL'
+  );
+  const daysToSell = sales
+    .map(sale => getDaysToSell(sale.purchase_date ?? undefined, sale.sold_date))
+    .filter((days): days is number => days !== null && !isNaN(days));
+
+  const stages = await database.getAllAsync<StageRow>(STAGE_QUERY);
+  const discount = await database.getFirstAsync<DiscountRow>(DISCOUNT_QUERY);
+  const platforms = await database.getAllAsync<PlatformRow>(PLATFORM_QUERY);
+
+  const bestIds = new Set(best.map(row => row.id));
+
+  return {
+    currency,
+    soldCount: summary?.sold_count ?? 0,
+    realizedProfitCents: summary?.realized_profit_cents ?? 0,
+    averageRoi: summary?.average_roi ?? null,
+    averageDaysToSell: daysToSell.length > 0
+      ? daysToSell.reduce((sum, days) => sum + days, 0) / daysToSell.length
+      : null,
+    medianDaysToSell: median(daysToSell),
+    monthlyProfit: toPeriods(monthly),
+    quarterlyProfit: toPeriods(quarterly),
+    profitByModel: models.map(row => ({
+      make: row.make ?? undefined,
+      model: row.model ?? undefined,
+      flips: row.flips,
+      profitCents: row.profit_cents,
+      averageRoi: row.average_roi,
+    })),
+    bestFlips: best.map(toPerformance),
+    // With only a few sales the lists would overlap; each flip shows once
+    worstFlips: worst.filter(row => !bestIds.has(row.id)).map(toPerformance),
+    openCount: summary?.open_count ?? 0,
+    openCapitalCents: summary?.open_capital_cents ?? 0,
+    scrappedCount: summary?.scrapped_count ?? 0,
+    writtenOffCents: summary?.written_off_cents ?? 0,
+    incompleteCount: summary?.incomplete_count ?? 0,
+    stageDurations: FLIP_STATUSES.filter(status => !isClosedStatus(status)).map(status => {
+      const row = stages.find(stage => stage.status === status);
+      return {
+        status,
+        averageDays: row?.average_days ?? null,
+        completed: row?.completed ?? 0,
+        current: row?.current ?? 0,
+      };
+    }),
+    averageListingDiscount: discount?.average_discount ?? null,
+    listedSaleCount: discount?.sales ?? 0,
+    daysOnMarket: LISTING_PLATFORMS.map(platform => {
+      const row = platforms.find(stay => stay.platform === platform);
+      return {
+        platform,
+        averageDays: row?.average_days ?? null,
+        completed: row?.completed ?? 0,
+        active: row?.active ?? 0,
+      };
+    }),
+  };
+};
@@ -0,0 +1,79 @@
+import { FlipWithTotals, getBaseCurrency, getDatabase } from './sqlite';
+import { FLIP_TOTALS_CTE, FlipTotalsColumns, toFlipWithTotals } from './totals';
+import { Flip, FlipListQuery, FlipSortField } from '../types';
+import { getTabStatuses } from '../utils/flipStatus';
+
+// Days from purchase to sale, or to now while unsold
+const DAYS_HELD = `julianday(COALESCE(sold_date, $now)) - julianday(purchase_date)`;
+
+const SORT_COLUMNS: Record<FlipSortField, string> = {
+  created: 'created_at',
+  profit: 'profit_cents',
+  roi: 'roi',
+  days_held: DAYS_HELD,
+  buy_price: 'buy_total_cents',
+  sold_date: 'sold_date',
+};
+
+const SEARCH_COLUMNS = ['CAST(year AS TEXT)', 'make', 'model', 'vin'];
+
+// LIKE treats % and _ as wildcards; typed ones should match literally
+const escapeLike = (text: string): string => text.replace(/[\\%_]/g, match => `\\${match}`);
+
+// The Home list: flips with their totals, filtered and sorted in SQL. Flips
+// missing the value being sorted on go last either way.
+export const queryFlips = async (query: FlipListQuery): Promise<FlipWithTotals[]> => {
+  const database = getDatabase();
+  const currency = await getBaseCurrency();
+  const { filters } = query;
+  const conditions: string[] = [];
+  const params: Record<string, string | number> = { $base: currency, $now: new Date().toISOString() };
+
+  const statuses = query.status ? [query.status] : getTabStatuses(query.tab);
+  statuses.forEach((status, index) => {
+    params[`$status${index}`] = status;
+  });
+  conditions.push(`status IN (${statuses.map((_, index) => `$status${index}`).join(', ')})`);
+
+  // Every word has to appear in one of the columns
+  query.search.trim().split(/\s+/).filter(Boolean).forEach((term, index) => {
+    const name = `$term${index}`;
+    params[name] = `%${escapeLike(term)}%`;
+    conditions.push(`(${SEARCH_COLUMNS.map(column => `${column} LIKE ${name} ESCAPE '\\'`).join(' OR ')})`);
+  });
+
+  const addBound = (expression: string, operator: '>=' | '<=', name: string, value: number | string | null, bound = name) => {
+    if (value === null) return;
+    params[name] = value;
+    conditions.push(`${expression} ${operator} ${bound}`);
+  };
+
+  addBound('profit_cents', '>=', '$minProfit', filters.minProfitCents);
+  addBound('profit_cents', '<=', '$maxProfit', filters.maxProfitCents);
+  addBound('roi', '>=', '$minRoi', filters.minRoi);
+  addBound('roi', '<=', '$maxRoi', filters.maxRoi);
+
+  // Dates are compared as local calendar days, like the date pickers show them
+  const dateColumn = query.tab === 'closed' ? 'sold_date' : 'purchase_date';
+  addBound(`date(${dateColumn}, 'localtime')`, '>=', '$fromDate', filters.fromDate, `date($fromDate, 'localtime')`);
+  addBound(`date(${dateColumn}, 'localtime')`, '<=', '$toDate', filters.toDate, `date($toDate, 'localtime')`);
+
+  if (filters.spendCategory) {
+    params.$spendCategory = filters.spendCategory;
+    params.$minCategorySpend = filters.minCategorySpendCents ?? 1;
+    conditions.push(`(
+      SELECT TOTAL(ROUND(amount_cents * rate)) FROM converted_items
+      WHERE converted_items.flip_id = flip_totals.id AND category = $spendCategory
+    ) >= $minCategorySpend`);
+  }
+
+  const direction = filters.sortDirection === 'asc' ? 'ASC' : 'DESC';
+  const rows = await database.getAllAsync<Flip & FlipTotalsColumns>(
+    `${FLIP_TOTALS_CTE}
+    SELECT * FROM flip_totals
+    WHERE ${conditions.join(' AND ')}
+    ORDER BY ${SORT_COLUMNS[filters.sortBy]} ${direction} NULLS LAST, created_at DESC, id DESC`,
+    params
+  );
+  return rows.map(row => toFlipWithTotals(row, currency));
+};
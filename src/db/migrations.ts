@@ -0,0 +1,103 @@
+import * as SQLite from 'expo-sqlite';
+import { Migration, MIGRATIONS } from './schema';
+
+export class MigrationError extends Error {
+  readonly version: number;
+  readonly migrationName: string;
+
+  constructor(migration: Migration, cause: unknown) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    super(`Database migration ${migration.version} (${migration.name}) failed: ${reason}`);
+    this.name = 'MigrationError';
+    this.version = migration.version;
+    this.migrationName = migration.name;
+  }
+}
+
+export const getSchemaVersion = async (database: SQLite.SQLiteDatabase): Promise<number> => {
+  const row = await database.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+  return row?.user_version ?? 0;
+};
+
+const setSchemaVersion = async (database: SQLite.SQLiteDatabase, version: number) => {
+  // PRAGMA values can't be bound as parameters; version is always an integer we control
+  await database.execAsync(`PRAGMA user_version = ${Math.trunc(version)}`);
+};
+
+const tableExists = async (database: SQLite.SQLiteDatabase, table: string): Promise<boolean> => {
+  const row = await database.getFirstAsync(
+    "SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?",
+    [table]
+  );
+  return !!row;
+};
+
+const columnExists = async (database: SQLite.SQLiteDatabase, table: string, column: string): Promise<boolean> => {
+  const columns = await database.getAllAsync<{ name: string }>(`PRAGMA table_info(${table})`);
+  return columns.some(c => c.name === column);
+};
+
+// Databases created before versioned migrations have user_version 0 but already
+// contain tables. Work out which historical version they correspond to so the
+// runner only applies what is actually missing.
+const detectLegacyVersion = async (database: SQLite.SQLiteDatabase): Promise<number> => {
+  if (!(await tableExists(database, 'flips'))) {
+    return 0;
+  }
+  return (await columnExists(database, 'line_items', 'receipt_uri')) ? 2 : 1;
+};
+
+const validateMigrations = (migrations: Migration[]) => {
+  migrations.forEach((migration, index) => {
+    if (migration.version !== index + 1) {
+      throw new Error(
+        `Migrations must be numbered consecutively from 1; found version ${migration.version} at position ${index + 1}`
+      );
+    }
+  });
+};
+
+// Brings the database up to the latest (or the given target) schema version.
+// Each pending migration runs in its own transaction; if any statement fails the
+// transaction is rolled back and a MigrationError is thrown.
+export const runMigrations = async (
+  database: SQLite.SQLiteDatabase,
+  migrations: Migration[] = MIGRATIONS,
+  targetVersion: number = migrations.length
+): Promise<number> => {
+  validateMigrations(migrations);
+
+  let currentVersion = await getSchemaVersion(database);
+
+  if (currentVersion === 0) {
+    const legacyVersion = await detectLegacyVersion(database);
+    if (legacyVersion > 0) {
+      await setSchemaVersion(database, legacyVersion);
+      currentVersion = legacyVersion;
+    }
+  }
+
+  if (currentVersion > migrations.length) {
+    throw new Error(
+      `Database schema version ${currentVersion} is newer than this app supports (${migrations.length}). Please update the app.`
+    );
+  }
+
+  const pending = migrations.filter(m => m.version > currentVersion && m.version <= targetVersion);
+
+  for (const migration of pending) {
+    try {
+      await database.withExclusiveTransactionAsync(async (txn) => {
+        for (const statement of migration.statements) {
+          await txn.execAsync(statement);
+        }
+        await setSchemaVersion(txn, migration.version);
+      });
+    } catch (error) {
+      throw new MigrationError(migration, error);
+    }
+    currentVersion = migration.version;
+  }
+
+  return currentVersion;
+};
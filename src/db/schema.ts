@@ -1,5 +1,11 @@
+export interface Migration {
+  version: number;
+  name: string;
+  statements: string[];
+}
+
 export const CREATE_FLIPS_TABLE = `
-  CREATE TABLE IF NOT EXISTS flips (
+  CREATE TABLE flips (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
     year INTEGER,
     make TEXT,
@@ -15,14 +21,13 @@ export const CREATE_FLIPS_TABLE = `
 `;
 
 export const CREATE_LINE_ITEMS_TABLE = `
-  CREATE TABLE IF NOT EXISTS line_items (
+  CREATE TABLE line_items (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
     flip_id INTEGER NOT NULL,
     title TEXT NOT NULL,
     amount REAL NOT NULL,
     category TEXT,
     date TEXT,
-    receipt_uri TEXT,
     created_at TEXT NOT NULL,
     updated_at TEXT NOT NULL,
     FOREIGN KEY (flip_id) REFERENCES flips (id) ON DELETE CASCADE
@@ -30,19 +35,324 @@ export const CREATE_LINE_ITEMS_TABLE = `
 `;
 
 export const CREATE_LINE_ITEMS_INDEX = `
-  CREATE INDEX IF NOT EXISTS idx_line_items_flip_id ON line_items(flip_id);
+  CREATE INDEX idx_line_items_flip_id ON line_items(flip_id);
 `;
 
 export const ADD_RECEIPT_COLUMN = `
   ALTER TABLE line_items ADD COLUMN receipt_uri TEXT;
 `;
 
-export const MIGRATIONS = [
-  CREATE_FLIPS_TABLE,
-  CREATE_LINE_ITEMS_TABLE,
-  CREATE_LINE_ITEMS_INDEX,
+export const CREATE_CATEGORY_RULES_TABLE = `
+  CREATE TABLE category_rules (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    keyword TEXT NOT NULL UNIQUE,
+    category TEXT NOT NULL,
+    source TEXT NOT NULL DEFAULT 'user',
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+`;
+
+const DEFAULT_CATEGORY_RULES: Array<[string, string]> = [
+  ['pump', 'parts'],
+  ['thermostat', 'parts'],
+  ['gasket', 'parts'],
+  ['ofhg', 'parts'],
+  ['filter', 'parts'],
+  ['brake', 'parts'],
+  ['rotor', 'parts'],
+  ['pads', 'parts'],
+  ['tire', 'parts'],
+  ['battery', 'parts'],
+  ['belt', 'parts'],
+  ['hose', 'parts'],
+  ['sensor', 'parts'],
+  ['coolant', 'parts'],
+  ['oil', 'parts'],
+  ['spark plug', 'parts'],
+  ['alternator', 'parts'],
+  ['radiator', 'parts'],
+  ['labor', 'labor'],
+  ['install', 'labor'],
+  ['mechanic', 'labor'],
+  ['shop', 'labor'],
+  ['diagnostic', 'labor'],
+  ['title', 'fees'],
+  ['tax', 'fees'],
+  ['registration', 'fees'],
+  ['listing', 'fees'],
+  ['fee', 'fees'],
+  ['auction', 'fees'],
+  ['inspection', 'fees'],
+  ['smog', 'fees'],
+  ['detail', 'misc'],
+  ['car wash', 'misc'],
+  ['gas', 'misc'],
+  ['tow', 'misc'],
+];
+
+export const SEED_DEFAULT_CATEGORY_RULES = `
+  INSERT INTO category_rules (keyword, category, source, created_at, updated_at)
+  VALUES ${DEFAULT_CATEGORY_RULES.map(([keyword, category]) =>
+    `('${keyword}', '${category}', 'default', strftime('%Y-%m-%dT%H:%M:%fZ', 'now'), strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))`
+  ).join(',\n    ')};
+`;
+
+export const ADD_PURCHASE_DATE_COLUMN = `
+  ALTER TABLE flips ADD COLUMN purchase_date TEXT;
+`;
+
+// Flips entered before purchase dates existed fall back to when they were created
+export const BACKFILL_PURCHASE_DATE = `
+  UPDATE flips SET purchase_date = created_at WHERE purchase_date IS NULL;
+`;
+
+// Money columns were REAL dollars; rebuild both tables with INTEGER cents so
+// sums are exact. SQLite can't change a column's type in place.
+export const CREATE_FLIPS_CENTS_TABLE = `
+  CREATE TABLE flips_cents (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    year INTEGER,
+    make TEXT,
+    model TEXT,
+    vin TEXT,
+    miles INTEGER,
+    buy_price_cents INTEGER NOT NULL,
+    sell_price_cents INTEGER,
+    purchase_date TEXT,
+    sold_date TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+`;
+
+export const COPY_FLIPS_AS_CENTS = `
+  INSERT INTO flips_cents (id, year, make, model, vin, miles, buy_price_cents, sell_price_cents, purchase_date, sold_date, created_at, updated_at)
+  SELECT id, year, make, model, vin, miles,
+    CAST(ROUND(buy_price * 100) AS INTEGER),
+    CASE WHEN sell_price IS NULL THEN NULL ELSE CAST(ROUND(sell_price * 100) AS INTEGER) END,
+    purchase_date, sold_date, created_at, updated_at
+  FROM flips;
+`;
+
+export const CREATE_LINE_ITEMS_CENTS_TABLE = `
+  CREATE TABLE line_items_cents (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    flip_id INTEGER NOT NULL,
+    title TEXT NOT NULL,
+    amount_cents INTEGER NOT NULL,
+    category TEXT,
+    date TEXT,
+    receipt_uri TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    FOREIGN KEY (flip_id) REFERENCES flips (id) ON DELETE CASCADE
+  );
+`;
+
+export const COPY_LINE_ITEMS_AS_CENTS = `
+  INSERT INTO line_items_cents (id, flip_id, title, amount_cents, category, date, receipt_uri, created_at, updated_at)
+  SELECT id, flip_id, title, CAST(ROUND(amount * 100) AS INTEGER), category, date, receipt_uri, created_at, updated_at
+  FROM line_items;
+`;
+
+// Carry the AUTOINCREMENT counters over so IDs of deleted rows aren't reused
+export const SWAP_IN_CENTS_TABLES = `
+  DELETE FROM sqlite_sequence WHERE name IN ('flips_cents', 'line_items_cents');
+  INSERT INTO sqlite_sequence (name, seq)
+    SELECT name || '_cents', seq FROM sqlite_sequence WHERE name IN ('flips', 'line_items');
+  DROP TABLE line_items;
+  DROP TABLE flips;
+  ALTER TABLE flips_cents RENAME TO flips;
+  ALTER TABLE line_items_cents RENAME TO line_items;
+  CREATE INDEX idx_line_items_flip_id ON line_items(flip_id);
+`;
+
+export const ADD_FLIP_CURRENCY_COLUMN = `
+  ALTER TABLE flips ADD COLUMN currency TEXT NOT NULL DEFAULT 'USD';
+`;
+
+export const ADD_LINE_ITEM_CURRENCY_COLUMN = `
+  ALTER TABLE line_items ADD COLUMN currency TEXT NOT NULL DEFAULT 'USD';
+`;
+
+export const CREATE_EXCHANGE_RATES_TABLE = `
+  CREATE TABLE exchange_rates (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    from_currency TEXT NOT NULL,
+    to_currency TEXT NOT NULL,
+    rate REAL NOT NULL,
+    effective_date TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+`;
+
+export const CREATE_APP_SETTINGS_TABLE = `
+  CREATE TABLE app_settings (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    key TEXT NOT NULL UNIQUE,
+    value TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+`;
+
+// Full-text index over expense titles. It reads titles from line_items
+// (external content), so the triggers below are what keep it in sync.
+export const CREATE_LINE_ITEMS_FTS_TABLE = `
+  CREATE VIRTUAL TABLE line_items_fts USING fts5(
+    title,
+    content = 'line_items',
+    content_rowid = 'id',
+    tokenize = 'porter unicode61'
+  );
+`;
+
+export const CREATE_LINE_ITEMS_FTS_TRIGGERS = `
+  CREATE TRIGGER line_items_fts_insert AFTER INSERT ON line_items BEGIN
+    INSERT INTO line_items_fts (rowid, title) VALUES (new.id, new.title);
+  END;
+  CREATE TRIGGER line_items_fts_delete AFTER DELETE ON line_items BEGIN
+    INSERT INTO line_items_fts (line_items_fts, rowid, title) VALUES ('delete', old.id, old.title);
+  END;
+  CREATE TRIGGER line_items_fts_update AFTER UPDATE OF title ON line_items BEGIN
+    INSERT INTO line_items_fts (line_items_fts, rowid, title) VALUES ('delete', old.id, old.title);
+    INSERT INTO line_items_fts (rowid, title) VALUES (new.id, new.title);
+  END;
+`;
+
+export const REBUILD_LINE_ITEMS_FTS = `
+  INSERT INTO line_items_fts (line_items_fts) VALUES ('rebuild');
+`;
+
+export const ADD_FLIP_STATUS_COLUMN = `
+  ALTER TABLE flips ADD COLUMN status TEXT NOT NULL DEFAULT 'purchased';
+`;
+
+export const BACKFILL_FLIP_STATUS = `
+  UPDATE flips SET status = 'sold' WHERE sold_date IS NOT NULL;
+`;
+
+export const CREATE_FLIP_STATUS_HISTORY_TABLE = `
+  CREATE TABLE flip_status_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    flip_id INTEGER NOT NULL,
+    status TEXT NOT NULL,
+    changed_at TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    FOREIGN KEY (flip_id) REFERENCES flips (id) ON DELETE CASCADE
+  );
+  CREATE INDEX idx_flip_status_history_flip_id ON flip_status_history(flip_id);
+`;
+
+// Existing flips were bought on their purchase date and, if sold, sold on
+// their sale date; nothing is known about the stages in between
+export const BACKFILL_FLIP_STATUS_HISTORY = `
+  INSERT INTO flip_status_history (flip_id, status, changed_at, created_at)
+  SELECT id, 'purchased', COALESCE(purchase_date, created_at), strftime('%Y-%m-%dT%H:%M:%fZ', 'now') FROM flips;
+  INSERT INTO flip_status_history (flip_id, status, changed_at, created_at)
+  SELECT id, 'sold', sold_date, strftime('%Y-%m-%dT%H:%M:%fZ', 'now') FROM flips WHERE sold_date IS NOT NULL;
+`;
+
+export const ADD_FLIP_SALE_COLUMNS = `
+  ALTER TABLE flips ADD COLUMN buyer TEXT;
+  ALTER TABLE flips ADD COLUMN payment_method TEXT;
+  ALTER TABLE flips ADD COLUMN sold_miles INTEGER;
+`;
+
+export const CREATE_LISTINGS_TABLES = `
+  CREATE TABLE listings (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    flip_id INTEGER NOT NULL,
+    platform TEXT NOT NULL,
+    listed_at TEXT NOT NULL,
+    ended_at TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    FOREIGN KEY (flip_id) REFERENCES flips (id) ON DELETE CASCADE
+  );
+  CREATE INDEX idx_listings_flip_id ON listings(flip_id);
+  CREATE TABLE listing_prices (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    listing_id INTEGER NOT NULL,
+    price_cents INTEGER NOT NULL,
+    changed_at TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    FOREIGN KEY (listing_id) REFERENCES listings (id) ON DELETE CASCADE
+  );
+  CREATE INDEX idx_listing_prices_listing_id ON listing_prices(listing_id);
+`;
+
+// Ordered list of schema migrations. Each entry is applied exactly once, in a
+// transaction, and bumps PRAGMA user_version to its version number. Never edit
+// or reorder a migration that has shipped; append a new one instead.
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'create_flips_and_line_items',
+    statements: [CREATE_FLIPS_TABLE, CREATE_LINE_ITEMS_TABLE, CREATE_LINE_ITEMS_INDEX],
+  },
+  {
+    version: 2,
+    name: 'add_line_item_receipts',
+    statements: [ADD_RECEIPT_COLUMN],
+  },
+  {
+    version: 3,
+    name: 'create_category_rules',
+    statements: [CREATE_CATEGORY_RULES_TABLE, SEED_DEFAULT_CATEGORY_RULES],
+  },
+  {
+    version: 4,
+    name: 'add_flip_purchase_date',
+    statements: [ADD_PURCHASE_DATE_COLUMN, BACKFILL_PURCHASE_DATE],
+  },
+  {
+    version: 5,
+    name: 'store_money_as_cents',
+    statements: [
+      CREATE_FLIPS_CENTS_TABLE,
+      COPY_FLIPS_AS_CENTS,
+      CREATE_LINE_ITEMS_CENTS_TABLE,
+      COPY_LINE_ITEMS_AS_CENTS,
+      SWAP_IN_CENTS_TABLES,
+    ],
+  },
+  {
+    version: 6,
+    name: 'add_currencies_and_exchange_rates',
+    statements: [
+      ADD_FLIP_CURRENCY_COLUMN,
+      ADD_LINE_ITEM_CURRENCY_COLUMN,
+      CREATE_EXCHANGE_RATES_TABLE,
+      CREATE_APP_SETTINGS_TABLE,
+    ],
+  },
+  {
+    version: 7,
+    name: 'add_line_item_search',
+    statements: [CREATE_LINE_ITEMS_FTS_TABLE, CREATE_LINE_ITEMS_FTS_TRIGGERS, REBUILD_LINE_ITEMS_FTS],
+  },
+  {
+    version: 8,
+    name: 'add_flip_status_history',
+    statements: [
+      ADD_FLIP_STATUS_COLUMN,
+      BACKFILL_FLIP_STATUS,
+      CREATE_FLIP_STATUS_HISTORY_TABLE,
+      BACKFILL_FLIP_STATUS_HISTORY,
+    ],
+  },
+  {
+    version: 9,
+    name: 'add_flip_sale_details',
+    statements: [ADD_FLIP_SALE_COLUMNS],
+  },
+  {
+    version: 10,
+    name: 'create_listings',
+    statements: [CREATE_LISTINGS_TABLES],
+  },
 ];
 
-export const SCHEMA_UPDATES = [
-  ADD_RECEIPT_COLUMN,
-];
\ No newline at end of file
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
@@ -0,0 +1,134 @@
+import { getBaseCurrency, getDatabase } from './sqlite';
+import { FLIP_TOTALS_CTE } from './totals';
+import { CurrencyCode } from '../types';
+
+export interface LineItemMatch {
+  id: number;
+  flipId: number;
+  title: string;
+  amountCents: number;
+  currency: CurrencyCode;
+  // The expense date, or when it was entered if it has none
+  date: string;
+  // Amount in the base currency; null when there's no exchange rate
+  baseAmountCents: number | null;
+}
+
+export interface FlipMatches {
+  flipId: number;
+  year?: number;
+  make?: string;
+  model?: string;
+  items: LineItemMatch[];
+}
+
+// What the matched expenses cost over time, in cents of the base currency
+export interface PriceHistory {
+  points: Array<{ date: string; amountCents: number }>;
+  lowestCents: number;
+  highestCents: number;
+  averageCents: number;
+}
+
+export interface LineItemSearchResult {
+  currency: CurrencyCode;
+  // Flips with the most recent match first, their matches newest first
+  groups: FlipMatches[];
+  // Null when nothing matched or no match could be converted
+  history: PriceHistory | null;
+}
+
+interface MatchRow {
+  id: number;
+  flip_id: number;
+  title: string;
+  amount_cents: number;
+  currency: CurrencyCode;
+  match_date: string;
+  base_amount_cents: number | null;
+  year: number | null;
+  make: string | null;
+  model: string | null;
+}
+
+// Turns typed text into an FTS5 query: every word has to match, and the last
+// one may be a prefix so results show up while typing. Words are quoted so
+// FTS syntax like AND, NEAR or column filters is taken literally.
+const toMatchQuery = (text: string): string | null => {
+  const words = text.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+  if (words.length === 0) return null;
+  return words.map((word, index) => `"${word}"${index === words.length - 1 ? '*' : ''}`).join(' ');
+};
+
+const SEARCH_QUERY = `${FLIP_TOTALS_CTE}
+  SELECT line_items.id, line_items.flip_id, line_items.title, line_items.amount_cents, line_items.currency,
+    COALESCE(line_items.date, line_items.created_at) AS match_date,
+    CAST(ROUND(converted_items.amount_cents * converted_items.rate) AS INTEGER) AS base_amount_cents,
+    flips.year, flips.make, flips.model
+  FROM line_items_fts
+  JOIN line_items ON line_items.id = line_items_fts.rowid
+  JOIN converted_items ON converted_items.id = line_items.id
+  JOIN flips ON flips.id = line_items.flip_id
+  WHERE line_items_fts MATCH $match
+  ORDER BY match_date DESC, line_items.id DESC
+`;
+
+const buildHistory = (matches: LineItemMatch[]): PriceHistory | null => {
+  const points = matches
+    .filter(match => match.baseAmountCents !== null)
+    .map(match => ({ date: match.date, amountCents: match.baseAmountCents as number }))
+    .reverse();
+  if (points.length === 0) return null;
+
+  const amounts = points.map(point => point.amountCents);
+  return {
+    points,
+    lowestCents: Math.min(...amounts),
+    highestCents: Math.max(...amounts),
+    averageCents: Math.round(amounts.reduce((sum, cents) => sum + cents, 0) / amounts.length),
+  };
+};
+
+export const searchLineItems = async (text: string): Promise<LineItemSearchResult> => {
+  const currency = await getBaseCurrency();
+  const match = toMatchQuery(text);
+  if (!match) return { currency, groups: [], history: null };
+
+  const database = getDatabase();
+  const rows = await database.getAllAsync<MatchRow>(SEARCH_QUERY, {
+    $base: currency,
+    $now: new Date().toISOString(),
+    $match: match,
+  });
+
+  // Rows come newest first, so each flip's first row is its latest match
+  const groups = new Map<number, FlipMatches>();
+  const matches: LineItemMatch[] = [];
+  for (const row of rows) {
+    const item: LineItemMatch = {
+      id: row.id,
+      flipId: row.flip_id,
+      title: row.title,
+      amountCents: row.amount_cents,
+      currency: row.currency,
+      date: row.match_date,
+      baseAmountCents: row.base_amount_cents,
+    };
+    matches.push(item);
+
+    const group = groups.get(row.flip_id);
+    if (group) {
+      group.items.push(item);
+    } else {
+      groups.set(row.flip_id, {
+        flipId: row.flip_id,
+        year: row.year ?? undefined,
+        make: row.make ?? undefined,
+        model: row.model ?? undefined,
+        items: [item],
+      });
+    }
+  }
+
+  return { currency, groups: [...groups.values()], history: buildHistory(matches) };
+};
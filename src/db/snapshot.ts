@@ -0,0 +1,308 @@
+import * as SQLite from 'expo-sqlite';
+import { getDatabase } from './sqlite';
+import { getSchemaVersion } from './migrations';
+
+// Every table holding user data. Add new tables here so backups stay complete.
+export const SNAPSHOT_TABLES = [
+  'flips',
+  'line_items',
+  'flip_status_history',
+  'listings',
+  'listing_prices',
+  'category_rules',
+  'exchange_rates',
+  'app_settings',
+] as const;
+
+export type SnapshotTable = typeof SNAPSHOT_TABLES[number];
+
+export type SnapshotValue = string | number | null;
+
+export type SnapshotRow = Record<string, SnapshotValue>;
+
+export type SnapshotTables = Record<SnapshotTable, SnapshotRow[]>;
+
+export interface Snapshot {
+  schemaVersion: number;
+  tables: SnapshotTables;
+}
+
+export type RestoreMode = 'replace' | 'merge';
+
+export interface TableRestoreSummary {
+  added: number;
+  updated: number;
+  unchanged: number;
+  removed: number;
+}
+
+export type RestoreSummary = Record<SnapshotTable, TableRestoreSummary>;
+
+const emptySummary = (): TableRestoreSummary => ({ added: 0, updated: 0, unchanged: 0, removed: 0 });
+
+export const readSnapshot = async (): Promise<Snapshot> => {
+  const database = getDatabase();
+  const tables = {} as SnapshotTables;
+
+  for (const table of SNAPSHOT_TABLES) {
+    tables[table] = await database.getAllAsync<SnapshotRow>(`SELECT * FROM ${table} ORDER BY id ASC`);
+  }
+
+  return { schemaVersion: await getSchemaVersion(database), tables };
+};
+
+const getColumns = async (database: SQLite.SQLiteDatabase, table: SnapshotTable): Promise<string[]> => {
+  const columns = await database.getAllAsync<{ name: string }>(`PRAGMA table_info(${table})`);
+  return columns.map(c => c.name);
+};
+
+// Only columns that exist in the current schema are written, so rows from an
+// older backup fall back to column defaults for anything they lack.
+const insertRow = async (
+  database: SQLite.SQLiteDatabase,
+  table: SnapshotTable,
+  columns: string[],
+  row: SnapshotRow,
+  keepId: boolean
+): Promise<number> => {
+  const present = columns.filter(column => column in row && (keepId || column !== 'id'));
+  const result = await database.runAsync(
+    `INSERT INTO ${table} (${present.join(', ')}) VALUES (${present.map(() => '?').join(', ')})`,
+    present.map(column => row[column])
+  );
+  return result.lastInsertRowId;
+};
+
+const updateRow = async (
+  database: SQLite.SQLiteDatabase,
+  table: SnapshotTable,
+  columns: string[],
+  id: number,
+  row: SnapshotRow
+) => {
+  const present = columns.filter(column => column in row && column !== 'id');
+  await database.runAsync(
+    `UPDATE ${table} SET ${present.map(column => `${column} = ?`).join(', ')} WHERE id = ?`,
+    [...present.map(column => row[column]), id]
+  );
+};
+
+const isNewer = (incoming: SnapshotRow, existing: SnapshotRow): boolean => {
+  return String(incoming.updated_at ?? '') > String(existing.updated_at ?? '');
+};
+
+const normalizeVin = (vin: SnapshotValue): string => (typeof vin === 'string' ? vin.trim().toUpperCase() : '');
+
+const replaceAll = async (database: SQLite.SQLiteDatabase, tables: SnapshotTables): Promise<RestoreSummary> => {
+  const summary = {} as RestoreSummary;
+
+  // Children first; foreign keys aren't enforced, so order only matters for clarity
+  for (const table of [...SNAPSHOT_TABLES].reverse()) {
+    const existing = await database.getFirstAsync<{ count: number }>(`SELECT COUNT(*) AS count FROM ${table}`);
+    await database.runAsync(`DELETE FROM ${table}`);
+    summary[table] = { ...emptySummary(), removed: existing?.count ?? 0 };
+  }
+
+  for (const table of SNAPSHOT_TABLES) {
+    const columns = await getColumns(database, table);
+    for (const row of tables[table]) {
+      await insertRow(database, table, columns, row, true);
+    }
+    summary[table].added = tables[table].length;
+  }
+
+  return summary;
+};
+
+// Rows are recognized as the same record when they share an ID and creation
+// time (so IDs from another device don't collide), or for flips the same VIN.
+// The newer copy of a matched row wins; everything else is added with a new ID.
+const mergeAll = async (database: SQLite.SQLiteDatabase, tables: SnapshotTables): Promise<RestoreSummary> => {
+  const summary: RestoreSummary = {
+    flips: emptySummary(),
+    line_items: emptySummary(),
+    flip_status_history: emptySummary(),
+    listings: emptySummary(),
+    listing_prices: emptySummary(),
+    category_rules: emptySummary(),
+    exchange_rates: emptySummary(),
+    app_settings: emptySummary(),
+  };
+
+  const flipColumns = await getColumns(database, 'flips');
+  const localFlips = await database.getAllAsync<SnapshotRow>('SELECT * FROM flips');
+  const flipIds = new Map<SnapshotValue, number>();
+
+  for (const row of tables.flips) {
+    const match =
+      localFlips.find(flip => flip.id === row.id && flip.created_at === row.created_at) ||
+      (normalizeVin(row.vin) ? localFlips.find(flip => normalizeVin(flip.vin) === normalizeVin(row.vin)) : undefined);
+
+    if (match) {
+      if (isNewer(row, match)) {
+        await updateRow(database, 'flips', flipColumns, match.id as number, row);
+        summary.flips.updated++;
+      } else {
+        summary.flips.unchanged++;
+      }
+      flipIds.set(row.id, match.id as number);
+    } else {
+      flipIds.set(row.id, await insertRow(database, 'flips', flipColumns, row, false));
+      summary.flips.added++;
+    }
+  }
+
+  const lineItemColumns = await getColumns(database, 'line_items');
+  const localLineItems = await database.getAllAsync<SnapshotRow>('SELECT * FROM line_items');
+
+  for (const row of tables.line_items) {
+    const flipId = flipIds.get(row.flip_id);
+    if (flipId === undefined) continue;
+
+    const mapped = { ...row, flip_id: flipId };
+    const match = localLineItems.find(item =>
+      item.flip_id === flipId &&
+      item.created_at === row.created_at &&
+      (item.id === row.id || (item.title === row.title && item.amount_cents === row.amount_cents))
+    );
+
+    if (match) {
+      if (isNewer(row, match)) {
+        await updateRow(database, 'line_items', lineItemColumns, match.id as number, mapped);
+        summary.line_items.updated++;
+      } else {
+        summary.line_items.unchanged++;
+      }
+    } else {
+      await insertRow(database, 'line_items', lineItemColumns, mapped, false);
+      summary.line_items.added++;
+    }
+  }
+
+  // A flip entering the same status at the same moment is the same change
+  const historyColumns = await getColumns(database, 'flip_status_history');
+  const localHistory = await database.getAllAsync<SnapshotRow>('SELECT * FROM flip_status_history');
+
+  for (const row of tables.flip_status_history) {
+    const flipId = flipIds.get(row.flip_id);
+    if (flipId === undefined) continue;
+
+    const match = localHistory.find(change =>
+      change.flip_id === flipId && change.status === row.status && change.changed_at === row.changed_at
+    );
+    if (match) {
+      summary.flip_status_history.unchanged++;
+    } else {
+      await insertRow(database, 'flip_status_history', historyColumns, { ...row, flip_id: flipId }, false);
+      summary.flip_status_history.added++;
+    }
+  }
+
+  // Listings match like expenses; a price is the same change when it was set
+  // on the same listing at the same moment
+  const listingColumns = await getColumns(database, 'listings');
+  const localListings = await database.getAllAsync<SnapshotRow>('SELECT * FROM listings');
+  const listingIds = new Map<SnapshotValue, number>();
+
+  for (const row of tables.listings) {
+    const flipId = flipIds.get(row.flip_id);
+    if (flipId === undefined) continue;
+
+    const mapped = { ...row, flip_id: flipId };
+    const match = localListings.find(listing =>
+      listing.flip_id === flipId &&
+      listing.created_at === row.created_at &&
+      (listing.id === row.id || (listing.platform === row.platform && listing.listed_at === row.listed_at))
+    );
+
+    if (match) {
+      if (isNewer(row, match)) {
+        await updateRow(database, 'listings', listingColumns, match.id as number, mapped);
+        summary.listings.updated++;
+      } else {
+        summary.listings.unchanged++;
+      }
+      listingIds.set(row.id, match.id as number);
+    } else {
+      listingIds.set(row.id, await insertRow(database, 'listings', listingColumns, mapped, false));
+      summary.listings.added++;
+    }
+  }
+
+  const priceColumns = await getColumns(database, 'listing_prices');
+  const localPrices = await database.getAllAsync<SnapshotRow>('SELECT * FROM listing_prices');
+
+  for (const row of tables.listing_prices) {
+    const listingId = listingIds.get(row.listing_id);
+    if (listingId === undefined) continue;
+
+    const match = localPrices.find(price =>
+      price.listing_id === listingId && price.changed_at === row.changed_at && price.price_cents === row.price_cents
+    );
+    if (match) {
+      summary.listing_prices.unchanged++;
+    } else {
+      await insertRow(database, 'listing_prices', priceColumns, { ...row, listing_id: listingId }, false);
+      summary.listing_prices.added++;
+    }
+  }
+
+  // Rules are unique by keyword; rules the user typed in locally are kept
+  const ruleColumns = await getColumns(database, 'category_rules');
+  const localRules = await database.getAllAsync<SnapshotRow>('SELECT * FROM category_rules');
+
+  for (const row of tables.category_rules) {
+    const match = localRules.find(rule => rule.keyword === row.keyword);
+
+    if (!match) {
+      await insertRow(database, 'category_rules', ruleColumns, row, false);
+      summary.category_rules.added++;
+    } else if (isNewer(row, match) && !(match.source === 'user' && row.source !== 'user')) {
+      await updateRow(database, 'category_rules', ruleColumns, match.id as number, row);
+      summary.category_rules.updated++;
+    } else {
+      summary.category_rules.unchanged++;
+    }
+  }
+
+  // One rate per currency pair and day; settings are unique by key
+  const naturalKeys: Array<[SnapshotTable, (a: SnapshotRow, b: SnapshotRow) => boolean]> = [
+    ['exchange_rates', (a, b) =>
+      a.from_currency === b.from_currency && a.to_currency === b.to_currency && a.effective_date === b.effective_date],
+    ['app_settings', (a, b) => a.key === b.key],
+  ];
+
+  for (const [table, isSame] of naturalKeys) {
+    const columns = await getColumns(database, table);
+    const localRows = await database.getAllAsync<SnapshotRow>(`SELECT * FROM ${table}`);
+
+    for (const row of tables[table]) {
+      const match = localRows.find(local => isSame(local, row));
+
+      if (!match) {
+        await insertRow(database, table, columns, row, false);
+        summary[table].added++;
+      } else if (isNewer(row, match)) {
+        await updateRow(database, table, columns, match.id as number, row);
+        summary[table].updated++;
+      } else {
+        summary[table].unchanged++;
+      }
+    }
+  }
+
+  return summary;
+};
+
+// Restores all tables in one transaction: either everything is applied or,
+// on any failure, nothing is.
+export const restoreSnapshot = async (tables: SnapshotTables, mode: RestoreMode): Promise<RestoreSummary> => {
+  const database = getDatabase();
+  let summary = {} as RestoreSummary;
+
+  await database.withExclusiveTransactionAsync(async txn => {
+    summary = mode === 'replace' ? await replaceAll(txn, tables) : await mergeAll(txn, tables);
+  });
+
+  return summary;
+};
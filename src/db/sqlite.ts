@@ -1,6 +1,14 @@
 import * as SQLite from 'expo-sqlite';
-import { MIGRATIONS, SCHEMA_UPDATES } from './schema';
-import { Flip, LineItem, FlipTotals } from '../types';
+import { runMigrations } from './migrations';
+import { Flip, LineItem, FlipTotals, CategoryRule, LineItemCategory, CategoryRuleSource, CurrencyCode, ExchangeRate, NewFlip, FlipStatus, FlipStatusChange, SaleDetails, Listing, ListingPrice, ListingWithPrices } from '../types';
+import { normalizeKeyword } from '../utils/categorize';
+import { ImportPlan, ImportResult } from '../utils/csvImport';
+import { FlipMergeResult } from '../utils/duplicates';
+import { parseSetting } from '../utils/settings';
+import { computeFlipTotals } from '../utils/exchangeRates';
+import { inferFlipStatus, isClosedStatus } from '../utils/flipStatus';
+import { toSaleFields } from '../utils/sale';
+import { FLIP_TOTALS_CTE, FlipTotalsColumns, toFlipWithTotals } from './totals';
 
 const DATABASE_NAME = 'autotrackr.db';
 
@@ -9,21 +17,7 @@ let db: SQLite.SQLiteDatabase | null = null;
 export const initDatabase = async (): Promise<void> => {
   try {
     db = await SQLite.openDatabaseAsync(DATABASE_NAME);
-    
-    // Run migrations
-    for (const migration of MIGRATIONS) {
-      await db.execAsync(migration);
-    }
-    
-    // Run schema updates (safely with try-catch for existing columns)
-    for (const update of SCHEMA_UPDATES) {
-      try {
-        await db.execAsync(update);
-      } catch (error) {
-        // Column might already exist, which is fine
-        console.log('Schema update skipped (likely already exists):', error);
-      }
-    }
+    await runMigrations(db);
   } catch (error) {
     console.error('Failed to initialize database:', error);
     throw error;
@@ -37,19 +31,39 @@ export const getDatabase = (): SQLite.SQLiteDatabase => {
   return db;
 };
 
+const recordStatusChange = async (flipId: number, status: FlipStatus, changedAt: string): Promise<void> => {
+  const database = getDatabase();
+  await database.runAsync(
+    'INSERT INTO flip_status_history (flip_id, status, changed_at, created_at) VALUES (?, ?, ?, ?)',
+    [flipId, status, changedAt, new Date().toISOString()]
+  );
+};
+
 // Flip CRUD operations
-export const createFlip = async (flip: Omit<Flip, 'id' | 'created_at' | 'updated_at'>): Promise<number> => {
+export const createFlip = async (flip: NewFlip): Promise<number> => {
   const database = getDatabase();
   const now = new Date().toISOString();
+  const purchaseDate = flip.purchase_date || now;
+  const status = flip.status ?? inferFlipStatus(flip.sold_date);
   
   const result = await database.runAsync(
-    `INSERT INTO flips (year, make, model, vin, miles, buy_price, sell_price, sold_date, created_at, updated_at)
-     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    `INSERT INTO flips (year, make, model, vin, miles, buy_price_cents, sell_price_cents, currency, purchase_date, sold_date, status, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
     [flip.year || null, flip.make || null, flip.model || null, flip.vin || null, 
-     flip.miles || null, flip.buy_price, flip.sell_price || null, flip.sold_date || null, now, now]
+     flip.miles || null, flip.buy_price_cents, flip.sell_price_cents || null, flip.currency, purchaseDate,
+     flip.sold_date || null, status, now, now]
   );
+
+  // Anything past a prospect was bought on its purchase date
+  const flipId = result.lastInsertRowId;
+  if (status !== 'prospect') {
+    await recordStatusChange(flipId, 'purchased', purchaseDate);
+  }
+  if (status !== 'purchased') {
+    await recordStatusChange(flipId, status, status === 'sold' && flip.sold_date ? flip.sold_date : now);
+  }
   
-  return result.lastInsertRowId;
+  return flipId;
 };
 
 export const getFlips = async (): Promise<Flip[]> => {
@@ -64,17 +78,26 @@ export const getFlipById = async (id: number): Promise<Flip | null> => {
   return result as Flip | null;
 };
 
+// Status changes are recorded in flip_status_history. Setting a sale date
+// marks the flip sold unless a status is given or it was scrapped.
 export const updateFlip = async (id: number, flip: Partial<Omit<Flip, 'id' | 'created_at'>>): Promise<void> => {
   const database = getDatabase();
   const now = new Date().toISOString();
+  const changes = { ...flip };
+  
+  const current = changes.status || changes.sold_date ? await getFlipById(id) : null;
+  if (current && changes.sold_date && !changes.status && current.status !== 'scrapped') {
+    changes.status = 'sold';
+  }
   
   const fields = [];
   const values = [];
   
-  Object.entries(flip).forEach(([key, value]) => {
+  Object.entries(changes).forEach(([key, value]) => {
+    if (key === 'status' && !value) return;
     if (key !== 'id' && key !== 'created_at') {
       fields.push(`${key} = ?`);
-      values.push(value);
+      values.push(value ?? null);
     }
   });
   
@@ -86,11 +109,168 @@ export const updateFlip = async (id: number, flip: Partial<Omit<Flip, 'id' | 'cr
     `UPDATE flips SET ${fields.join(', ')} WHERE id = ?`,
     values
   );
+
+  if (current && changes.status && changes.status !== current.status) {
+    // A sale is dated by its sale date, not by when it was entered
+    const soldDate = changes.sold_date ?? current.sold_date;
+    await recordStatusChange(id, changes.status, changes.status === 'sold' && soldDate ? soldDate : now);
+  }
 };
 
 export const deleteFlip = async (id: number): Promise<void> => {
   const database = getDatabase();
-  await database.runAsync('DELETE FROM flips WHERE id = ?', [id]);
+  // Foreign keys aren't enforced on this connection, so remove line items explicitly
+  await database.withTransactionAsync(async () => {
+    await database.runAsync('DELETE FROM line_items WHERE flip_id = ?', [id]);
+    await database.runAsync('DELETE FROM flip_status_history WHERE flip_id = ?', [id]);
+    await database.runAsync(
+      'DELETE FROM listing_prices WHERE listing_id IN (SELECT id FROM listings WHERE flip_id = ?)',
+      [id]
+    );
+    await database.runAsync('DELETE FROM listings WHERE flip_id = ?', [id]);
+    await database.runAsync('DELETE FROM flips WHERE id = ?', [id]);
+  });
+};
+
+// Callers run this in a transaction
+const applySale = async (id: number, sale: SaleDetails): Promise<void> => {
+  const database = getDatabase();
+  await updateFlip(id, toSaleFields(sale));
+  await database.runAsync(
+    `UPDATE flip_status_history SET changed_at = ? WHERE id = (
+       SELECT id FROM flip_status_history WHERE flip_id = ? AND status = 'sold'
+       ORDER BY changed_at DESC, id DESC LIMIT 1
+     )`,
+    [sale.soldDate, id]
+  );
+};
+
+// Records a sale, or corrects one. A corrected sale date moves the flip's
+// sold entry in the status history along with it.
+export const recordSale = async (id: number, sale: SaleDetails): Promise<void> => {
+  const database = getDatabase();
+  await database.withTransactionAsync(async () => {
+    await applySale(id, sale);
+  });
+};
+
+// Clears a sale recorded by mistake. The flip goes back to the status it had
+// before it sold.
+export const reopenFlip = async (id: number): Promise<void> => {
+  const database = getDatabase();
+  await database.withTransactionAsync(async () => {
+    const history = await getFlipStatusHistory(id);
+    const previous = [...history].reverse().find(change => !isClosedStatus(change.status));
+    await updateFlip(id, { ...toSaleFields(null), status: previous?.status ?? 'purchased' });
+  });
+};
+
+// Oldest first
+export const getFlipStatusHistory = async (flipId: number): Promise<FlipStatusChange[]> => {
+  const database = getDatabase();
+  return await database.getAllAsync<FlipStatusChange>(
+    'SELECT * FROM flip_status_history WHERE flip_id = ? ORDER BY changed_at ASC, id ASC',
+    [flipId]
+  );
+};
+
+// Every flip's history, oldest first within each flip
+export const getAllFlipStatusHistory = async (): Promise<FlipStatusChange[]> => {
+  const database = getDatabase();
+  return await database.getAllAsync<FlipStatusChange>(
+    'SELECT * FROM flip_status_history ORDER BY flip_id ASC, changed_at ASC, id ASC'
+  );
+};
+
+// Fields the kept flip takes from the merged one when it has no value of its own.
+// A sale is carried over as a whole, like recordSale, so status and history follow.
+const MERGEABLE_FLIP_FIELDS = ['year', 'make', 'model', 'vin', 'miles', 'sell_price_cents', 'purchase_date'] as const;
+
+// Folds mergeId into keepId: gaps in the kept flip are filled from the other,
+// including a sale the kept flip lacks, its expenses move over (except exact copies of ones already there), so do its
+// listings, and the merged flip is deleted along with its status history. All
+// in one transaction.
+export const mergeFlips = async (keepId: number, mergeId: number): Promise<FlipMergeResult> => {
+  const database = getDatabase();
+  const result: FlipMergeResult = {
+    lineItemsMoved: 0,
+    lineItemsSkipped: 0,
+    orphanedReceipts: [],
+    sellPriceSkipped: false,
+    saleSkipped: false,
+  };
+
+  await database.withTransactionAsync(async () => {
+    const kept = await getFlipById(keepId);
+    const merged = await getFlipById(mergeId);
+    if (!kept || !merged || keepId === mergeId) {
+      throw new Error('Flip not found');
+    }
+
+    const filled: Partial<Flip> = {};
+    for (const field of MERGEABLE_FLIP_FIELDS) {
+      // A price means nothing in another flip's currency
+      if (field === 'sell_price_cents' && kept.currency !== merged.currency) {
+        result.sellPriceSkipped = kept.sell_price_cents == null && merged.sell_price_cents != null;
+        continue;
+      }
+      if (kept[field] == null && merged[field] != null) {
+        Object.assign(filled, { [field]: merged[field] });
+      }
+    }
+    await updateFlip(keepId, filled);
+
+    if (!kept.sold_date && merged.sold_date) {
+      const sellPriceCents = kept.sell_price_cents ??
+        (kept.currency === merged.currency ? merged.sell_price_cents : undefined);
+      if (sellPriceCents != null) {
+        await applySale(keepId, {
+          soldDate: merged.sold_date,
+          sellPriceCents,
+          buyer: merged.buyer,
+          paymentMethod: merged.payment_method,
+          soldMiles: merged.sold_miles,
+        });
+      } else {
+        result.saleSkipped = true;
+      }
+    }
+
+    const keptItems = await getLineItemsByFlip(keepId);
+    const now = new Date().toISOString();
+
+    for (const item of await getLineItemsByFlip(mergeId)) {
+      const copy = keptItems.find(existing =>
+        existing.title === item.title &&
+        existing.amount_cents === item.amount_cents &&
+        existing.currency === item.currency &&
+        (existing.date ?? null) === (item.date ?? null)
+      );
+
+      if (copy) {
+        await deleteLineItem(item.id);
+        if (item.receipt_uri && item.receipt_uri !== copy.receipt_uri) {
+          result.orphanedReceipts.push(item.receipt_uri);
+        }
+        result.lineItemsSkipped++;
+      } else {
+        await database.runAsync(
+          'UPDATE line_items SET flip_id = ?, updated_at = ? WHERE id = ?',
+          [keepId, now, item.id]
+        );
+        result.lineItemsMoved++;
+      }
+    }
+
+    await database.runAsync(
+      'UPDATE listings SET flip_id = ?, updated_at = ? WHERE flip_id = ?',
+      [keepId, now, mergeId]
+    );
+    await database.runAsync('DELETE FROM flip_status_history WHERE flip_id = ?', [mergeId]);
+    await database.runAsync('DELETE FROM flips WHERE id = ?', [mergeId]);
+  });
+
+  return result;
 };
 
 // LineItem CRUD operations
@@ -99,10 +279,10 @@ export const addLineItem = async (lineItem: Omit<LineItem, 'id' | 'created_at' |
   const now = new Date().toISOString();
   
   const result = await database.runAsync(
-    `INSERT INTO line_items (flip_id, title, amount, category, date, created_at, updated_at)
-     VALUES (?, ?, ?, ?, ?, ?, ?)`,
-    [lineItem.flip_id, lineItem.title, lineItem.amount, lineItem.category || null, 
-     lineItem.date || null, now, now]
+    `INSERT INTO line_items (flip_id, title, amount_cents, currency, category, date, receipt_uri, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [lineItem.flip_id, lineItem.title, lineItem.amount_cents, lineItem.currency, lineItem.category || null, 
+     lineItem.date || null, lineItem.receipt_uri || null, now, now]
   );
   
   return result.lastInsertRowId;
@@ -117,6 +297,18 @@ export const getLineItemsByFlip = async (flipId: number): Promise<LineItem[]> =>
   return result as LineItem[];
 };
 
+export const getAllLineItems = async (): Promise<LineItem[]> => {
+  const database = getDatabase();
+  const result = await database.getAllAsync('SELECT * FROM line_items ORDER BY flip_id ASC, created_at ASC');
+  return result as LineItem[];
+};
+
+export const getLineItemById = async (id: number): Promise<LineItem | null> => {
+  const database = getDatabase();
+  const result = await database.getFirstAsync('SELECT * FROM line_items WHERE id = ?', [id]);
+  return result as LineItem | null;
+};
+
 export const updateLineItem = async (id: number, lineItem: Partial<Omit<LineItem, 'id' | 'flip_id' | 'created_at'>>): Promise<void> => {
   const database = getDatabase();
   const now = new Date().toISOString();
@@ -127,7 +319,7 @@ export const updateLineItem = async (id: number, lineItem: Partial<Omit<LineItem
   Object.entries(lineItem).forEach(([key, value]) => {
     if (key !== 'id' && key !== 'flip_id' && key !== 'created_at') {
       fields.push(`${key} = ?`);
-      values.push(value);
+      values.push(value ?? null);
     }
   });
   
@@ -146,9 +338,322 @@ export const deleteLineItem = async (id: number): Promise<void> => {
   await database.runAsync('DELETE FROM line_items WHERE id = ?', [id]);
 };
 
+export const getUncategorizedLineItems = async (): Promise<LineItem[]> => {
+  const database = getDatabase();
+  const result = await database.getAllAsync(
+    'SELECT * FROM line_items WHERE category IS NULL ORDER BY flip_id ASC, created_at ASC'
+  );
+  return result as LineItem[];
+};
+
+export const setLineItemCategories = async (assignments: Array<{ id: number; category: LineItemCategory }>): Promise<void> => {
+  const database = getDatabase();
+  const now = new Date().toISOString();
+
+  await database.withTransactionAsync(async () => {
+    for (const { id, category } of assignments) {
+      await database.runAsync(
+        'UPDATE line_items SET category = ?, updated_at = ? WHERE id = ?',
+        [category, now, id]
+      );
+    }
+  });
+};
+
+// Applies a previewed import in a single transaction, so a failure part way
+// through leaves the database unchanged. Skipped rows are ignored.
+export const applyImport = async (plan: ImportPlan): Promise<ImportResult> => {
+  const database = getDatabase();
+  const result: ImportResult = { flipsCreated: 0, flipsUpdated: 0, lineItemsCreated: 0, lineItemsUpdated: 0 };
+
+  await database.withTransactionAsync(async () => {
+    // Rows without a currency column are taken to be in the base currency
+    const baseCurrency = await getBaseCurrency();
+    const flipIds = new Map<number, number>();
+
+    for (const [index, row] of plan.flips.entries()) {
+      if (row.action === 'create') {
+        flipIds.set(index, await createFlip({
+          ...row.values,
+          buy_price_cents: row.values.buy_price_cents ?? 0,
+          currency: row.values.currency ?? baseCurrency,
+        }));
+        result.flipsCreated++;
+      } else if (row.action === 'update' && row.existingFlipId !== undefined) {
+        await updateFlip(row.existingFlipId, row.values);
+        flipIds.set(index, row.existingFlipId);
+        result.flipsUpdated++;
+      }
+    }
+
+    for (const row of plan.lineItems) {
+      if (row.action === 'update' && row.existingLineItemId !== undefined) {
+        await updateLineItem(row.existingLineItemId, row.values);
+        result.lineItemsUpdated++;
+        continue;
+      }
+      if (row.action !== 'create') continue;
+
+      const flipId = row.flipRowIndex !== undefined ? flipIds.get(row.flipRowIndex) : row.existingFlipId;
+      if (flipId === undefined) {
+        throw new Error(`No flip to attach expense row ${row.rowNumber} to`);
+      }
+
+      await addLineItem({
+        flip_id: flipId,
+        title: row.values.title ?? '',
+        amount_cents: row.values.amount_cents ?? 0,
+        currency: row.values.currency ?? baseCurrency,
+        category: row.values.category,
+        date: row.values.date,
+      });
+      result.lineItemsCreated++;
+    }
+  });
+
+  return result;
+};
+
+// Listing operations
+// A listing opens at its first asking price
+export const addListing = async (
+  listing: Omit<Listing, 'id' | 'ended_at' | 'created_at' | 'updated_at'>,
+  askingPriceCents: number
+): Promise<number> => {
+  const database = getDatabase();
+  const now = new Date().toISOString();
+  let listingId = 0;
+
+  await database.withTransactionAsync(async () => {
+    const result = await database.runAsync(
+      `INSERT INTO listings (flip_id, platform, listed_at, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?)`,
+      [listing.flip_id, listing.platform, listing.listed_at, now, now]
+    );
+    listingId = result.lastInsertRowId;
+    await addListingPrice(listingId, askingPriceCents, listing.listed_at);
+  });
+
+  return listingId;
+};
+
+export const getListingById = async (id: number): Promise<ListingWithPrices | null> => {
+  const database = getDatabase();
+  const listing = await database.getFirstAsync<Listing>('SELECT * FROM listings WHERE id = ?', [id]);
+  if (!listing) return null;
+
+  const prices = await database.getAllAsync<ListingPrice>(
+    'SELECT * FROM listing_prices WHERE listing_id = ? ORDER BY changed_at ASC, id ASC',
+    [id]
+  );
+  return { ...listing, prices };
+};
+
+// Oldest listing first
+export const getListingsByFlip = async (flipId: number): Promise<ListingWithPrices[]> => {
+  const database = getDatabase();
+  const listings = await database.getAllAsync<Listing>(
+    'SELECT * FROM listings WHERE flip_id = ? ORDER BY listed_at ASC, id ASC',
+    [flipId]
+  );
+  const prices = await database.getAllAsync<ListingPrice>(
+    `SELECT * FROM listing_prices WHERE listing_id IN (SELECT id FROM listings WHERE flip_id = ?)
+     ORDER BY changed_at ASC, id ASC`,
+    [flipId]
+  );
+
+  return listings.map(listing => ({
+    ...listing,
+    prices: prices.filter(price => price.listing_id === listing.id),
+  }));
+};
+
+export const addListingPrice = async (listingId: number, priceCents: number, changedAt: string): Promise<number> => {
+  const database = getDatabase();
+  const now = new Date().toISOString();
+
+  const result = await database.runAsync(
+    'INSERT INTO listing_prices (listing_id, price_cents, changed_at, created_at) VALUES (?, ?, ?, ?)',
+    [listingId, priceCents, changedAt, now]
+  );
+  await database.runAsync('UPDATE listings SET updated_at = ? WHERE id = ?', [now, listingId]);
+
+  return result.lastInsertRowId;
+};
+
+// The opening price can't be removed; delete the listing instead
+export const deleteListingPrice = async (id: number): Promise<void> => {
+  const database = getDatabase();
+  await database.runAsync(
+    `DELETE FROM listing_prices WHERE id = ? AND id != (
+       SELECT opening.id FROM listing_prices opening
+       WHERE opening.listing_id = listing_prices.listing_id
+       ORDER BY opening.changed_at ASC, opening.id ASC LIMIT 1
+     )`,
+    [id]
+  );
+};
+
+// Takes the listing down, or puts it back up when endedAt is null
+export const endListing = async (id: number, endedAt: string | null): Promise<void> => {
+  const database = getDatabase();
+  await database.runAsync(
+    'UPDATE listings SET ended_at = ?, updated_at = ? WHERE id = ?',
+    [endedAt, new Date().toISOString(), id]
+  );
+};
+
+export const deleteListing = async (id: number): Promise<void> => {
+  const database = getDatabase();
+  await database.withTransactionAsync(async () => {
+    await database.runAsync('DELETE FROM listing_prices WHERE listing_id = ?', [id]);
+    await database.runAsync('DELETE FROM listings WHERE id = ?', [id]);
+  });
+};
+
+// Category rule operations
+export const getCategoryRules = async (): Promise<CategoryRule[]> => {
+  const database = getDatabase();
+  const result = await database.getAllAsync('SELECT * FROM category_rules ORDER BY category ASC, keyword ASC');
+  return result as CategoryRule[];
+};
+
+export const addCategoryRule = async (
+  keyword: string,
+  category: LineItemCategory,
+  source: CategoryRuleSource = 'user'
+): Promise<number> => {
+  const database = getDatabase();
+  const now = new Date().toISOString();
+  const normalized = normalizeKeyword(keyword);
+
+  if (!normalized) {
+    throw new Error('Keyword cannot be empty');
+  }
+
+  const result = await database.runAsync(
+    `INSERT INTO category_rules (keyword, category, source, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?)
+     ON CONFLICT(keyword) DO UPDATE SET category = excluded.category, source = excluded.source, updated_at = excluded.updated_at`,
+    [normalized, category, source, now, now]
+  );
+
+  return result.lastInsertRowId;
+};
+
+export const updateCategoryRule = async (id: number, rule: Partial<Pick<CategoryRule, 'keyword' | 'category'>>): Promise<void> => {
+  const database = getDatabase();
+  const now = new Date().toISOString();
+
+  const fields = ['source = ?', 'updated_at = ?'];
+  const values: (string | number)[] = ['user', now];
+
+  if (rule.keyword !== undefined) {
+    fields.push('keyword = ?');
+    values.push(normalizeKeyword(rule.keyword));
+  }
+  if (rule.category !== undefined) {
+    fields.push('category = ?');
+    values.push(rule.category);
+  }
+  values.push(id);
+
+  await database.runAsync(
+    `UPDATE category_rules SET ${fields.join(', ')} WHERE id = ?`,
+    values
+  );
+};
+
+export const deleteCategoryRule = async (id: number): Promise<void> => {
+  const database = getDatabase();
+  await database.runAsync('DELETE FROM category_rules WHERE id = ?', [id]);
+};
+
+// Remembers a manual re-categorization so future items with the same title
+// get the same category. Rules the user typed in explicitly are left alone.
+export const learnCategoryRule = async (title: string, category: LineItemCategory): Promise<void> => {
+  const database = getDatabase();
+  const now = new Date().toISOString();
+  const keyword = normalizeKeyword(title);
+
+  if (!keyword) return;
+
+  await database.runAsync(
+    `INSERT INTO category_rules (keyword, category, source, created_at, updated_at)
+     VALUES (?, ?, 'learned', ?, ?)
+     ON CONFLICT(keyword) DO UPDATE SET category = excluded.category, source = 'learned', updated_at = excluded.updated_at
+     WHERE category_rules.source != 'user'`,
+    [keyword, category, now, now]
+  );
+};
+
+// Exchange rate operations
+export const getExchangeRates = async (): Promise<ExchangeRate[]> => {
+  const database = getDatabase();
+  const result = await database.getAllAsync(
+    'SELECT * FROM exchange_rates ORDER BY effective_date DESC, id DESC'
+  );
+  return result as ExchangeRate[];
+};
+
+export const addExchangeRate = async (
+  rate: Omit<ExchangeRate, 'id' | 'created_at' | 'updated_at'>
+): Promise<number> => {
+  const database = getDatabase();
+  const now = new Date().toISOString();
+
+  if (!(rate.rate > 0)) {
+    throw new Error('Exchange rate must be greater than zero');
+  }
+
+  const result = await database.runAsync(
+    `INSERT INTO exchange_rates (from_currency, to_currency, rate, effective_date, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    [rate.from_currency, rate.to_currency, rate.rate, rate.effective_date, now, now]
+  );
+
+  return result.lastInsertRowId;
+};
+
+export const deleteExchangeRate = async (id: number): Promise<void> => {
+  const database = getDatabase();
+  await database.runAsync('DELETE FROM exchange_rates WHERE id = ?', [id]);
+};
+
+// App setting operations
+export const getAppSetting = async (key: string): Promise<string | null> => {
+  const database = getDatabase();
+  const result = await database.getFirstAsync<{ value: string }>('SELECT value FROM app_settings WHERE key = ?', [key]);
+  return result?.value ?? null;
+};
+
+export const setAppSetting = async (key: string, value: string): Promise<void> => {
+  const database = getDatabase();
+  const now = new Date().toISOString();
+  await database.runAsync(
+    `INSERT INTO app_settings (key, value, updated_at) VALUES (?, ?, ?)
+     ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at`,
+    [key, value, now]
+  );
+};
+
+export const getAppSettingRows = async (): Promise<Record<string, string>> => {
+  const database = getDatabase();
+  const rows = await database.getAllAsync<{ key: string; value: string }>('SELECT key, value FROM app_settings');
+  return Object.fromEntries(rows.map(row => [row.key, row.value]));
+};
+
+export const clearAppSettings = async (): Promise<void> => {
+  const database = getDatabase();
+  await database.runAsync('DELETE FROM app_settings');
+};
+
+export const getBaseCurrency = async (): Promise<CurrencyCode> => {
+  return parseSetting('base_currency', await getAppSetting('base_currency'));
+};
+
 // Helper functions
 export const computeTotals = async (flipId: number): Promise<FlipTotals> => {
-  const database = getDatabase();
   const flip = await getFlipById(flipId);
   const lineItems = await getLineItemsByFlip(flipId);
   
@@ -156,15 +661,22 @@ export const computeTotals = async (flipId: number): Promise<FlipTotals> => {
     throw new Error('Flip not found');
   }
   
-  const totalCost = lineItems.reduce((sum, item) => sum + item.amount, 0);
-  const sellPrice = flip.sell_price || 0;
-  const profit = sellPrice - (flip.buy_price + totalCost);
-  const investedAmount = flip.buy_price + totalCost;
-  const roi = investedAmount > 0 ? profit / investedAmount : 0;
-  
-  return {
-    totalCost,
-    profit,
-    roi,
-  };
+  return computeFlipTotals(flip, lineItems, await getExchangeRates(), await getBaseCurrency());
+};
+
+export interface FlipWithTotals {
+  flip: Flip;
+  totals: FlipTotals;
+}
+
+// Every flip with the same totals computeTotals gives, from one query
+// instead of two per flip. Ordered like getFlips.
+export const getFlipsWithTotals = async (): Promise<FlipWithTotals[]> => {
+  const database = getDatabase();
+  const currency = await getBaseCurrency();
+  const rows = await database.getAllAsync<Flip & FlipTotalsColumns>(
+    `${FLIP_TOTALS_CTE} SELECT * FROM flip_totals ORDER BY created_at DESC`,
+    { $base: currency, $now: new Date().toISOString() }
+  );
+  return rows.map(row => toFlipWithTotals(row, currency));
 };
\ No newline at end of file
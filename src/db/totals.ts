@@ -0,0 +1,137 @@
+import { CurrencyCode, Flip, FlipTotals } from '../types';
+
+// Per-flip totals in the base currency, computed in SQL so lists and
+// aggregates don't need a query per flip. This mirrors computeFlipTotals in
+// utils/exchangeRates: the buy price converts at the purchase date, the sale
+// at the sold date and each expense at its own date, using the latest rate on
+// or before that date (or the earliest rate before any exist), in either
+// direction. Amounts with no rate are left out.
+//
+// Bind $base to the base currency and $now to the current ISO timestamp.
+
+// Rates usable in both directions. On the same day a rate entered for the
+// direction needed wins over an inverse, then the most recently added one,
+// matching the order getExchangeRates hands to findExchangeRate.
+const RATE_CANDIDATES = `
+  rate_candidates AS (
+    SELECT id, from_currency AS source, to_currency AS target, rate, effective_date, 1 AS direct
+    FROM exchange_rates WHERE rate > 0
+    UNION ALL
+    SELECT id, to_currency, from_currency, 1.0 / rate, effective_date, 0
+    FROM exchange_rates WHERE rate > 0
+  )`;
+
+const rateFor = (currency: string, date: string) => `
+  CASE WHEN ${currency} = $base THEN 1.0 ELSE COALESCE(
+    (SELECT rate FROM rate_candidates
+      WHERE source = ${currency} AND target = $base AND effective_date <= ${date}
+      ORDER BY effective_date DESC, direct DESC, id DESC LIMIT 1),
+    (SELECT rate FROM rate_candidates
+      WHERE source = ${currency} AND target = $base
+      ORDER BY effective_date ASC, direct ASC, id ASC LIMIT 1)
+  ) END`;
+
+// Exposes flip_totals: every flips column plus buy_total_cents,
+// sell_total_cents (NULL when unsold or unconvertible), expense_total_cents,
+// profit_cents, roi, missing_rates (comma-separated currencies, possibly
+// repeated) and line_item_cents (JSON object of converted amount by line
+// item ID, null where there's no rate)
+export const FLIP_TOTALS_CTE = `
+  WITH ${RATE_CANDIDATES},
+  converted_items AS (
+    SELECT id, flip_id, category, currency, amount_cents,
+      ${rateFor('currency', 'COALESCE(date, created_at)')} AS rate
+    FROM line_items
+  ),
+  item_totals AS (
+    SELECT flip_id,
+      CAST(TOTAL(ROUND(amount_cents * rate)) AS INTEGER) AS expense_total_cents,
+      GROUP_CONCAT(DISTINCT CASE WHEN rate IS NULL THEN currency END) AS missing_rates,
+      JSON_GROUP_OBJECT(id, CAST(ROUND(amount_cents * rate) AS INTEGER)) AS line_item_cents
+    FROM converted_items
+    GROUP BY flip_id
+  ),
+  converted_flips AS (
+    SELECT flips.*,
+      ${rateFor('currency', 'COALESCE(purchase_date, created_at)')} AS buy_rate,
+      CASE WHEN sell_price_cents IS NULL THEN NULL
+        ELSE ${rateFor('currency', "COALESCE(sold_date, $now)")} END AS sell_rate
+    FROM flips
+  ),
+  converted_totals AS (
+    SELECT converted_flips.*,
+      CAST(COALESCE(ROUND(buy_price_cents * buy_rate), 0) AS INTEGER) AS buy_total_cents,
+      CAST(ROUND(sell_price_cents * sell_rate) AS INTEGER) AS sell_total_cents,
+      COALESCE(item_totals.expense_total_cents, 0) AS expense_total_cents,
+      item_totals.line_item_cents,
+      CASE
+        WHEN buy_rate IS NULL OR (sell_price_cents IS NOT NULL AND sell_rate IS NULL)
+          THEN currency || COALESCE(',' || item_totals.missing_rates, '')
+        ELSE item_totals.missing_rates
+      END AS missing_rates
+    FROM converted_flips
+    LEFT JOIN item_totals ON item_totals.flip_id = converted_flips.id
+  ),
+  flip_totals AS (
+    SELECT converted_totals.*,
+      COALESCE(sell_total_cents, 0) - buy_total_cents - expense_total_cents AS profit_cents,
+      CASE WHEN buy_total_cents + expense_total_cents > 0
+        THEN (COALESCE(sell_total_cents, 0) - buy_total_cents - expense_total_cents) * 1.0
+          / (buy_total_cents + expense_total_cents)
+        ELSE 0
+      END AS roi
+    FROM converted_totals
+  )
+`;
+
+export interface FlipTotalsColumns {
+  buy_rate: number | null;
+  sell_rate: number | null;
+  buy_total_cents: number;
+  sell_total_cents: number | null;
+  expense_total_cents: number;
+  profit_cents: number;
+  roi: number;
+  missing_rates: string | null;
+  line_item_cents: string | null;
+}
+
+// Splits a flip_totals row into the flip and the FlipTotals computeFlipTotals
+// would have produced for it
+export const toFlipWithTotals = (
+  row: Flip & FlipTotalsColumns,
+  currency: CurrencyCode
+): { flip: Flip; totals: FlipTotals } => {
+  const {
+    buy_rate,
+    sell_rate,
+    buy_total_cents,
+    sell_total_cents,
+    expense_total_cents,
+    profit_cents,
+    roi,
+    missing_rates,
+    line_item_cents,
+    ...flip
+  } = row;
+
+  const lineItemCents: Record<number, number> = {};
+  const converted: Record<string, number | null> = line_item_cents ? JSON.parse(line_item_cents) : {};
+  for (const [id, cents] of Object.entries(converted)) {
+    if (cents !== null) lineItemCents[Number(id)] = cents;
+  }
+
+  return {
+    flip,
+    totals: {
+      currency,
+      buyPriceCents: buy_total_cents,
+      sellPriceCents: sell_total_cents ?? undefined,
+      totalCostCents: expense_total_cents,
+      profitCents: profit_cents,
+      roi,
+      lineItemCents,
+      missingRates: missing_rates ? [...new Set(missing_rates.split(','))] : [],
+    },
+  };
+};
@@ -0,0 +1,429 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { useFocusEffect, useNavigation } from '@react-navigation/native';
+import { useFlips } from '../state/FlipsContext';
+import { formatCurrency } from '../utils/currency';
+import { LINE_ITEM_CATEGORIES, CATEGORY_LABELS } from '../utils/categorize';
+import { CategoryRule, CategorizationProposal, LineItemCategory } from '../types';
+
+const SOURCE_LABELS: Record<CategoryRule['source'], string> = {
+  default: 'Built-in',
+  user: 'Custom',
+  learned: 'Learned',
+};
+
+const CategoryRules: React.FC = () => {
+  const navigation = useNavigation();
+  const {
+    flips,
+    getCategoryRules,
+    addCategoryRule,
+    updateCategoryRule,
+    deleteCategoryRule,
+    previewUncategorized,
+    applyCategorization,
+  } = useFlips();
+
+  const [rules, setRules] = useState<CategoryRule[]>([]);
+  const [newKeyword, setNewKeyword] = useState('');
+  const [newCategory, setNewCategory] = useState<LineItemCategory>('parts');
+  const [proposals, setProposals] = useState<CategorizationProposal[] | null>(null);
+  const [excludedItemIds, setExcludedItemIds] = useState<Set<number>>(new Set());
+
+  useFocusEffect(
+    useCallback(() => {
+      loadRules();
+    }, [])
+  );
+
+  const loadRules = async () => {
+    try {
+      setRules(await getCategoryRules());
+    } catch (error) {
+      console.error('Error loading category rules:', error);
+    }
+  };
+
+  const handleAddRule = async () => {
+    if (!newKeyword.trim()) {
+      Alert.alert('Error', 'Please enter a keyword');
+      return;
+    }
+
+    try {
+      await addCategoryRule(newKeyword, newCategory);
+      setNewKeyword('');
+      await loadRules();
+    } catch (error) {
+      console.error('Error adding category rule:', error);
+      Alert.alert('Error', 'Failed to add rule');
+    }
+  };
+
+  const handleCycleCategory = async (rule: CategoryRule) => {
+    const nextIndex = (LINE_ITEM_CATEGORIES.indexOf(rule.category) + 1) % LINE_ITEM_CATEGORIES.length;
+
+    try {
+      await updateCategoryRule(rule.id, { category: LINE_ITEM_CATEGORIES[nextIndex] });
+      await loadRules();
+    } catch (error) {
+      console.error('Error updating category rule:', error);
+    }
+  };
+
+  const handleDeleteRule = (rule: CategoryRule) => {
+    Alert.alert(
+      'Delete Rule',
+      `Stop categorizing "${rule.keyword}" as ${CATEGORY_LABELS[rule.category]}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteCategoryRule(rule.id);
+              await loadRules();
+            } catch (error) {
+              console.error('Error deleting category rule:', error);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handlePreview = async () => {
+    try {
+      const results = await previewUncategorized();
+      setProposals(results);
+      setExcludedItemIds(new Set());
+
+      if (results.length === 0) {
+        Alert.alert('Nothing to Do', 'No uncategorized expenses match your rules');
+      }
+    } catch (error) {
+      console.error('Error previewing categorization:', error);
+      Alert.alert('Error', 'Failed to preview categorization');
+    }
+  };
+
+  const toggleProposal = (lineItemId: number) => {
+    const next = new Set(excludedItemIds);
+    if (next.has(lineItemId)) {
+      next.delete(lineItemId);
+    } else {
+      next.add(lineItemId);
+    }
+    setExcludedItemIds(next);
+  };
+
+  const handleApply = async () => {
+    if (!proposals) return;
+
+    const selected = proposals.filter(p => !excludedItemIds.has(p.lineItem.id));
+    if (selected.length === 0) {
+      Alert.alert('No Selection', 'Select at least one expense to categorize');
+      return;
+    }
+
+    try {
+      await applyCategorization(selected);
+      setProposals(null);
+      Alert.alert('Success', `${selected.length} expense(s) categorized`);
+    } catch (error) {
+      console.error('Error applying categorization:', error);
+      Alert.alert('Error', 'Failed to categorize expenses');
+    }
+  };
+
+  const getFlipName = (flipId: number) => {
+    const flip = flips.find(f => f.id === flipId);
+    if (!flip) return 'Unknown flip';
+    return [flip.year, flip.make, flip.model].filter(Boolean).join(' ') || 'Untitled Flip';
+  };
+
+  const selectedCount = proposals ? proposals.filter(p => !excludedItemIds.has(p.lineItem.id)).length : 0;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Text style={styles.backButton}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Categories</Text>
+        <View style={{ width: 50 }} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Categorize Existing Expenses</Text>
+          <Text style={styles.sectionSubtitle}>
+            Preview how your rules would categorize expenses that don't have a category yet
+          </Text>
+
+          <TouchableOpacity style={styles.actionButton} onPress={handlePreview}>
+            <Text style={styles.actionButtonText}>Preview Uncategorized</Text>
+          </TouchableOpacity>
+
+          {proposals && proposals.length > 0 && (
+            <>
+              {proposals.map(proposal => {
+                const isSelected = !excludedItemIds.has(proposal.lineItem.id);
+                return (
+                  <TouchableOpacity
+                    key={proposal.lineItem.id}
+                    style={styles.proposalRow}
+                    onPress={() => toggleProposal(proposal.lineItem.id)}
+                  >
+                    <Text style={styles.checkbox}>{isSelected ? '✓' : '○'}</Text>
+                    <View style={styles.proposalInfo}>
+                      <Text style={styles.proposalTitle}>{proposal.lineItem.title}</Text>
+                      <Text style={styles.proposalSubtitle}>
+                        {getFlipName(proposal.lineItem.flip_id)} · {formatCurrency(proposal.lineItem.amount_cents, proposal.lineItem.currency)} · matched "{proposal.rule.keyword}"
+                      </Text>
+                    </View>
+                    <Text style={styles.proposalCategory}>{CATEGORY_LABELS[proposal.category]}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+
+              <TouchableOpacity style={[styles.actionButton, styles.applyButton]} onPress={handleApply}>
+                <Text style={styles.actionButtonText}>Apply to {selectedCount} Expense(s)</Text>
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Add Rule</Text>
+          <Text style={styles.sectionSubtitle}>Expenses whose title contains the keyword get this category</Text>
+
+          <TextInput
+            style={styles.input}
+            placeholder="Keyword, e.g. water pump"
+            value={newKeyword}
+            onChangeText={setNewKeyword}
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+
+          <View style={styles.categoryRow}>
+            {LINE_ITEM_CATEGORIES.map(category => (
+              <TouchableOpacity
+                key={category}
+                style={[styles.categoryOption, newCategory === category && styles.categoryOptionSelected]}
+                onPress={() => setNewCategory(category)}
+              >
+                <Text style={[styles.categoryOptionText, newCategory === category && styles.categoryOptionTextSelected]}>
+                  {CATEGORY_LABELS[category]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <TouchableOpacity style={styles.actionButton} onPress={handleAddRule}>
+            <Text style={styles.actionButtonText}>Add Rule</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Rules</Text>
+          <Text style={styles.sectionSubtitle}>Tap a category to change it, long-press to delete</Text>
+
+          {rules.map(rule => (
+            <TouchableOpacity
+              key={rule.id}
+              style={styles.ruleRow}
+              onLongPress={() => handleDeleteRule(rule)}
+            >
+              <View style={styles.ruleInfo}>
+                <Text style={styles.ruleKeyword}>{rule.keyword}</Text>
+                <Text style={styles.ruleSource}>{SOURCE_LABELS[rule.source]}</Text>
+              </View>
+              <TouchableOpacity style={styles.ruleCategory} onPress={() => handleCycleCategory(rule)}>
+                <Text style={styles.ruleCategoryText}>{CATEGORY_LABELS[rule.category]}</Text>
+              </TouchableOpacity>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F5F5',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E0E0E0',
+  },
+  backButton: {
+    fontSize: 16,
+    color: '#007AFF',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333333',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  section: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 20,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333333',
+    marginBottom: 5,
+  },
+  sectionSubtitle: {
+    fontSize: 14,
+    color: '#666666',
+    marginBottom: 15,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: '#FFFFFF',
+    marginBottom: 12,
+  },
+  categoryRow: {
+    flexDirection: 'row',
+    marginBottom: 12,
+  },
+  categoryOption: {
+    flex: 1,
+    paddingVertical: 8,
+    marginHorizontal: 3,
+    borderRadius: 6,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    alignItems: 'center',
+  },
+  categoryOptionSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  categoryOptionText: {
+    fontSize: 14,
+    color: '#333333',
+  },
+  categoryOptionTextSelected: {
+    color: '#FFFFFF',
+  },
+  actionButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 8,
+    padding: 15,
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  applyButton: {
+    backgroundColor: '#4CAF50',
+    marginTop: 8,
+  },
+  actionButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  proposalRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    backgroundColor: '#F8F9FA',
+    borderRadius: 8,
+    marginBottom: 8,
+  },
+  checkbox: {
+    fontSize: 16,
+    color: '#2196F3',
+    fontWeight: 'bold',
+    width: 24,
+  },
+  proposalInfo: {
+    flex: 1,
+  },
+  proposalTitle: {
+    fontSize: 15,
+    color: '#333333',
+  },
+  proposalSubtitle: {
+    fontSize: 12,
+    color: '#666666',
+    marginTop: 2,
+  },
+  proposalCategory: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#1976D2',
+    marginLeft: 8,
+  },
+  ruleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F0F0F0',
+  },
+  ruleInfo: {
+    flex: 1,
+  },
+  ruleKeyword: {
+    fontSize: 16,
+    color: '#333333',
+  },
+  ruleSource: {
+    fontSize: 12,
+    color: '#999999',
+    marginTop: 2,
+  },
+  ruleCategory: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 12,
+    backgroundColor: '#E3F2FD',
+  },
+  ruleCategoryText: {
+    fontSize: 13,
+    color: '#1976D2',
+    fontWeight: '500',
+  },
+});
+
+export default CategoryRules;
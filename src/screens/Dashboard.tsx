@@ -0,0 +1,423 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { useFocusEffect, useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useFlips } from '../state/FlipsContext';
+import { FlipPerformance, PortfolioAnalytics, ProfitPeriod } from '../db/analytics';
+import { formatCurrency, formatPercentage } from '../utils/currency';
+import { getDisplayLocale } from '../utils/locale';
+import { FLIP_STATUS_LABELS } from '../utils/flipStatus';
+import { LISTING_PLATFORM_LABELS } from '../utils/listings';
+import BarChart from '../components/BarChart';
+
+type RootStackParamList = {
+  Home: undefined;
+  FlipSheet: { flipId?: number };
+  Dashboard: undefined;
+};
+
+type DashboardNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Dashboard'>;
+
+type PeriodMode = 'month' | 'quarter';
+
+// How many of the most recent periods the chart shows
+const PERIOD_LIMITS: Record<PeriodMode, number> = {
+  month: 12,
+  quarter: 8,
+};
+
+// "2026-03" -> "Mar 26"; quarters such as "2026-Q1" read fine as they are
+const formatPeriod = (period: string, mode: PeriodMode): string => {
+  if (mode === 'quarter') return period.replace('-', ' ');
+  const [year, month] = period.split('-').map(Number);
+  return new Date(year, month - 1, 1).toLocaleDateString(getDisplayLocale(), { month: 'short', year: '2-digit' });
+};
+
+const formatDays = (days: number | null): string => {
+  return days === null ? '—' : `${Math.round(days)} days`;
+};
+
+const getFlipName = (flip: { year?: number; make?: string; model?: string }, fallback: string): string => {
+  return [flip.year, flip.make, flip.model].filter(Boolean).join(' ') || fallback;
+};
+
+const Dashboard: React.FC = () => {
+  const navigation = useNavigation<DashboardNavigationProp>();
+  const { getPortfolioAnalytics } = useFlips();
+  const [analytics, setAnalytics] = useState<PortfolioAnalytics | null>(null);
+  const [periodMode, setPeriodMode] = useState<PeriodMode>('month');
+
+  useFocusEffect(
+    useCallback(() => {
+      loadAnalytics();
+    }, [])
+  );
+
+  const loadAnalytics = async () => {
+    try {
+      setAnalytics(await getPortfolioAnalytics());
+    } catch (error) {
+      console.error('Error loading analytics:', error);
+    }
+  };
+
+  const renderPerformance = (flips: FlipPerformance[], currency: string) => {
+    return flips.map(flip => (
+      <TouchableOpacity
+        key={flip.id}
+        style={styles.rankedItem}
+        onPress={() => navigation.navigate('FlipSheet', { flipId: flip.id })}
+      >
+        <Text style={styles.rankedName} numberOfLines={1}>{getFlipName(flip, `Flip #${flip.id}`)}</Text>
+        <View style={styles.rankedStats}>
+          <Text style={[styles.rankedProfit, flip.profitCents < 0 && styles.negative]}>
+            {formatCurrency(flip.profitCents, currency)}
+          </Text>
+          <Text style={styles.rankedRoi}>{formatPercentage(flip.roi)} ROI</Text>
+        </View>
+      </TouchableOpacity>
+    ));
+  };
+
+  if (!analytics) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <ActivityIndicator size="large" color="#007AFF" />
+      </SafeAreaView>
+    );
+  }
+
+  const { currency } = analytics;
+  const periods: ProfitPeriod[] = (periodMode === 'month' ? analytics.monthlyProfit : analytics.quarterlyProfit)
+    .slice(-PERIOD_LIMITS[periodMode]);
+  const currentStages = analytics.stageDurations
+    .filter(stage => stage.current > 0)
+    .map(stage => `${stage.current} ${FLIP_STATUS_LABELS[stage.status].toLowerCase()}`)
+    .join(', ');
+  // Weighted by listing so a platform used once doesn't count as much as one used often
+  const completedListings = analytics.daysOnMarket.reduce((sum, platform) => sum + platform.completed, 0);
+  const averageDaysOnMarket = completedListings > 0
+    ? analytics.daysOnMarket.reduce((sum, platform) => sum + (platform.averageDays ?? 0) * platform.completed, 0) / completedListings
+    : null;
+  const activeListings = analytics.daysOnMarket
+    .filter(platform => platform.active > 0)
+    .map(platform => `${platform.active} on ${LISTING_PLATFORM_LABELS[platform.platform]}`)
+    .join(', ');
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Text style={styles.backButton}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Dashboard</Text>
+        <View style={{ width: 50 }} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {analytics.incompleteCount > 0 && (
+          <Text style={styles.rateWarning}>
+            {analytics.incompleteCount} flip(s) have amounts with no exchange rate to {currency}; they are left out below.
+          </Text>
+        )}
+
+        <View style={styles.cardRow}>
+          <View style={styles.card}>
+            <Text style={styles.cardLabel}>Realized Profit</Text>
+            <Text style={[styles.cardValue, analytics.realizedProfitCents < 0 && styles.negative]}>
+              {formatCurrency(analytics.realizedProfitCents, currency)}
+            </Text>
+            <Text style={styles.cardHint}>{analytics.soldCount} sold</Text>
+          </View>
+          <View style={styles.card}>
+            <Text style={styles.cardLabel}>Average ROI</Text>
+            <Text style={[styles.cardValue, (analytics.averageRoi ?? 0) < 0 && styles.negative]}>
+              {analytics.averageRoi === null ? '—' : formatPercentage(analytics.averageRoi)}
+            </Text>
+            <Text style={styles.cardHint}>per sold flip</Text>
+          </View>
+        </View>
+
+        <View style={styles.cardRow}>
+          <View style={styles.card}>
+            <Text style={styles.cardLabel}>Days to Sell</Text>
+            <Text style={styles.cardValue}>{formatDays(analytics.averageDaysToSell)}</Text>
+            <Text style={styles.cardHint}>median {formatDays(analytics.medianDaysToSell)}</Text>
+          </View>
+          <View style={styles.card}>
+            <Text style={styles.cardLabel}>Capital Tied Up</Text>
+            <Text style={styles.cardValue}>{formatCurrency(analytics.openCapitalCents, currency)}</Text>
+            <Text style={styles.cardHint}>in {analytics.openCount} open flip(s)</Text>
+            {analytics.scrappedCount > 0 && (
+              <Text style={styles.cardHint}>
+                {formatCurrency(analytics.writtenOffCents, currency)} written off on {analytics.scrappedCount} scrapped
+              </Text>
+            )}
+          </View>
+        </View>
+
+        <View style={styles.cardRow}>
+          <View style={styles.card}>
+            <Text style={styles.cardLabel}>Off First Ask</Text>
+            <Text style={styles.cardValue}>
+              {analytics.averageListingDiscount === null ? '—' : formatPercentage(analytics.averageListingDiscount)}
+            </Text>
+            <Text style={styles.cardHint}>across {analytics.listedSaleCount} listed sale(s)</Text>
+          </View>
+          <View style={styles.card}>
+            <Text style={styles.cardLabel}>Days on Market</Text>
+            <Text style={styles.cardValue}>{formatDays(averageDaysOnMarket)}</Text>
+            <Text style={styles.cardHint}>per listing</Text>
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>Realized Profit</Text>
+            <View style={styles.modeToggle}>
+              {(['month', 'quarter'] as PeriodMode[]).map(mode => (
+                <TouchableOpacity
+                  key={mode}
+                  style={[styles.modeOption, periodMode === mode && styles.modeOptionSelected]}
+                  onPress={() => setPeriodMode(mode)}
+                >
+                  <Text style={[styles.modeOptionText, periodMode === mode && styles.modeOptionTextSelected]}>
+                    {mode === 'month' ? 'Monthly' : 'Quarterly'}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+          <BarChart
+            items={periods.map(period => ({
+              key: period.period,
+              label: formatPeriod(period.period, periodMode),
+              value: period.profitCents,
+            }))}
+            formatValue={value => formatCurrency(value, currency)}
+            emptyText="No sales yet"
+          />
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Profit by Make & Model</Text>
+          <BarChart
+            items={analytics.profitByModel.map((group, index) => ({
+              key: `${group.make}-${group.model}-${index}`,
+              label: getFlipName(group, 'Unknown'),
+              value: group.profitCents,
+            }))}
+            formatValue={value => formatCurrency(value, currency)}
+            emptyText="No sales yet"
+          />
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Time in Each Stage</Text>
+          <BarChart
+            items={analytics.stageDurations
+              .filter(stage => stage.averageDays !== null)
+              .map(stage => ({
+                key: stage.status,
+                label: FLIP_STATUS_LABELS[stage.status],
+                value: stage.averageDays as number,
+              }))}
+            formatValue={formatDays}
+            emptyText="No flip has moved past a stage yet"
+          />
+          <Text style={styles.stageHint}>
+            Average days before moving on{currentStages ? `. Right now: ${currentStages}` : ''}
+          </Text>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Days on Market by Platform</Text>
+          <BarChart
+            items={analytics.daysOnMarket
+              .filter(platform => platform.averageDays !== null)
+              .map(platform => ({
+                key: platform.platform,
+                label: LISTING_PLATFORM_LABELS[platform.platform],
+                value: platform.averageDays as number,
+              }))}
+            formatValue={formatDays}
+            emptyText="No listing has come down yet"
+          />
+          <Text style={styles.stageHint}>
+            Until the listing ended or the car sold{activeListings ? `. Listed now: ${activeListings}` : ''}
+          </Text>
+        </View>
+
+        {analytics.bestFlips.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Best Flips</Text>
+            {renderPerformance(analytics.bestFlips, currency)}
+          </View>
+        )}
+
+        {analytics.worstFlips.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Worst Flips</Text>
+            {renderPerformance(analytics.worstFlips, currency)}
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F5F5',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E0E0E0',
+  },
+  backButton: {
+    fontSize: 16,
+    color: '#007AFF',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333333',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  rateWarning: {
+    fontSize: 12,
+    color: '#FF9800',
+    marginBottom: 12,
+  },
+  cardRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 12,
+  },
+  card: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 15,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  cardLabel: {
+    fontSize: 12,
+    color: '#666666',
+    marginBottom: 4,
+  },
+  cardValue: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#333333',
+  },
+  cardHint: {
+    fontSize: 12,
+    color: '#999999',
+    marginTop: 2,
+  },
+  negative: {
+    color: '#F44336',
+  },
+  section: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 20,
+    marginTop: 8,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333333',
+    marginBottom: 15,
+  },
+  stageHint: {
+    fontSize: 12,
+    color: '#999999',
+    marginTop: 4,
+  },
+  modeToggle: {
+    flexDirection: 'row',
+    marginBottom: 15,
+  },
+  modeOption: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    marginLeft: 6,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+  },
+  modeOptionSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  modeOptionText: {
+    fontSize: 12,
+    color: '#333333',
+  },
+  modeOptionTextSelected: {
+    color: '#FFFFFF',
+  },
+  rankedItem: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F0F0F0',
+  },
+  rankedName: {
+    flex: 1,
+    fontSize: 15,
+    color: '#333333',
+    marginRight: 10,
+  },
+  rankedStats: {
+    alignItems: 'flex-end',
+  },
+  rankedProfit: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#4CAF50',
+  },
+  rankedRoi: {
+    fontSize: 12,
+    color: '#666666',
+  },
+});
+
+export default Dashboard;
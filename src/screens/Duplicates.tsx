@@ -0,0 +1,237 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { useFocusEffect, useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useFlips } from '../state/FlipsContext';
+import { formatCurrency, formatNumber } from '../utils/currency';
+import { formatDate } from '../utils/dates';
+import { DuplicatePair, DUPLICATE_REASON_LABELS } from '../utils/duplicates';
+import { Flip } from '../types';
+
+type RootStackParamList = {
+  Home: undefined;
+  FlipSheet: { flipId?: number };
+  Settings: undefined;
+  Duplicates: undefined;
+};
+
+type DuplicatesNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Duplicates'>;
+
+const getFlipName = (flip: Flip) => [flip.year, flip.make, flip.model].filter(Boolean).join(' ') || 'Untitled Flip';
+
+const Duplicates: React.FC = () => {
+  const navigation = useNavigation<DuplicatesNavigationProp>();
+  const { getDuplicatePairs, mergeFlips } = useFlips();
+  const [pairs, setPairs] = useState<DuplicatePair[] | null>(null);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadPairs();
+    }, [])
+  );
+
+  const loadPairs = async () => {
+    try {
+      setPairs(await getDuplicatePairs());
+    } catch (error) {
+      console.error('Error finding duplicates:', error);
+      Alert.alert('Error', 'Failed to look for duplicates');
+    }
+  };
+
+  const handleMerge = (keep: Flip, merge: Flip) => {
+    Alert.alert(
+      'Merge Flips',
+      `Keep ${getFlipName(keep)} (#${keep.id}) and move the expenses of #${merge.id} into it? ` +
+        `Details missing from #${keep.id} are filled in from #${merge.id}, which is then deleted.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Merge',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              const result = await mergeFlips(keep.id, merge.id);
+              await loadPairs();
+              Alert.alert(
+                'Merged',
+                `${result.lineItemsMoved} expense(s) moved` +
+                  (result.lineItemsSkipped ? `, ${result.lineItemsSkipped} identical expense(s) dropped` : '') +
+                  (result.saleSkipped
+                    ? `. The sale of #${merge.id} was not copied because it has no sale price in ${keep.currency}.`
+                    : result.sellPriceSkipped
+                      ? `. The sale price of #${merge.id} was not copied because it is in ${merge.currency}, not ${keep.currency}.`
+                      : '')
+              );
+            } catch (error) {
+              console.error('Error merging flips:', error);
+              Alert.alert('Error', 'Failed to merge flips');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderFlip = (flip: Flip, other: Flip) => (
+    <View style={styles.flipColumn}>
+      <TouchableOpacity onPress={() => navigation.navigate('FlipSheet', { flipId: flip.id })}>
+        <Text style={styles.flipName}>{getFlipName(flip)}</Text>
+        <Text style={styles.flipDetail}>#{flip.id} · {formatCurrency(flip.buy_price_cents, flip.currency)}</Text>
+        <Text style={styles.flipDetail}>{flip.vin || 'No VIN'}</Text>
+        <Text style={styles.flipDetail}>{flip.miles != null ? `${formatNumber(flip.miles)} mi` : 'Miles not set'}</Text>
+        <Text style={styles.flipDetail}>
+          {flip.purchase_date ? `Bought ${formatDate(flip.purchase_date)}` : 'Purchase date not set'}
+        </Text>
+        {flip.sold_date && <Text style={styles.flipDetail}>Sold {formatDate(flip.sold_date)}</Text>}
+      </TouchableOpacity>
+
+      <TouchableOpacity style={styles.keepButton} onPress={() => handleMerge(flip, other)}>
+        <Text style={styles.keepButtonText}>Keep This One</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Text style={styles.backButton}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Possible Duplicates</Text>
+        <View style={{ width: 50 }} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        <Text style={styles.description}>
+          Flips that share a VIN, or the same year, make and model with similar miles and purchase date.
+          Tap a flip to open it, or pick the one to keep to merge the pair.
+        </Text>
+
+        {pairs && pairs.length === 0 && (
+          <View style={styles.section}>
+            <Text style={styles.emptyText}>No possible duplicates found</Text>
+          </View>
+        )}
+
+        {pairs?.map(pair => (
+          <View key={`${pair.first.id}-${pair.second.id}`} style={styles.section}>
+            <Text style={[styles.reason, pair.reason === 'vin' && styles.reasonVin]}>
+              {DUPLICATE_REASON_LABELS[pair.reason]}
+            </Text>
+            <View style={styles.pairRow}>
+              {renderFlip(pair.first, pair.second)}
+              <View style={styles.divider} />
+              {renderFlip(pair.second, pair.first)}
+            </View>
+          </View>
+        ))}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F5F5',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E0E0E0',
+  },
+  backButton: {
+    fontSize: 16,
+    color: '#007AFF',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333333',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  description: {
+    fontSize: 14,
+    color: '#666666',
+    marginBottom: 15,
+  },
+  section: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 20,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#666666',
+    textAlign: 'center',
+  },
+  reason: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#FF9800',
+    marginBottom: 12,
+  },
+  reasonVin: {
+    color: '#F44336',
+  },
+  pairRow: {
+    flexDirection: 'row',
+  },
+  divider: {
+    width: 1,
+    backgroundColor: '#F0F0F0',
+    marginHorizontal: 12,
+  },
+  flipColumn: {
+    flex: 1,
+    justifyContent: 'space-between',
+  },
+  flipName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333333',
+    marginBottom: 4,
+  },
+  flipDetail: {
+    fontSize: 12,
+    color: '#666666',
+    marginBottom: 2,
+  },
+  keepButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 8,
+    paddingVertical: 10,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  keepButtonText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
+
+export default Duplicates;
@@ -0,0 +1,330 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { useFocusEffect, useNavigation } from '@react-navigation/native';
+import { useFlips } from '../state/FlipsContext';
+import { useSettings } from '../state/SettingsContext';
+import { SUPPORTED_CURRENCIES } from '../utils/currency';
+import { formatDate, getCurrentISOString } from '../utils/dates';
+import DateField from '../components/DateField';
+import { CurrencyCode, ExchangeRate } from '../types';
+
+const ExchangeRates: React.FC = () => {
+  const navigation = useNavigation();
+  const { getExchangeRates, addExchangeRate, deleteExchangeRate } = useFlips();
+  const { settings, updateSetting } = useSettings();
+  const baseCurrency = settings.base_currency;
+
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [fromCurrency, setFromCurrency] = useState<CurrencyCode>(
+    SUPPORTED_CURRENCIES.find(currency => currency !== baseCurrency) ?? SUPPORTED_CURRENCIES[0]
+  );
+  const [rateText, setRateText] = useState('');
+  const [effectiveDate, setEffectiveDate] = useState(getCurrentISOString());
+
+  const currencyOptions = [...new Set([...SUPPORTED_CURRENCIES, baseCurrency])];
+  const foreignCurrencies = currencyOptions.filter(currency => currency !== baseCurrency);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadRates();
+    }, [])
+  );
+
+  const loadRates = async () => {
+    try {
+      setRates(await getExchangeRates());
+    } catch (error) {
+      console.error('Error loading exchange rates:', error);
+    }
+  };
+
+  const handleBaseCurrency = async (currency: CurrencyCode) => {
+    if (currency === baseCurrency) return;
+
+    try {
+      await updateSetting('base_currency', currency);
+      if (fromCurrency === currency) setFromCurrency(baseCurrency);
+    } catch (error) {
+      console.error('Error setting base currency:', error);
+      Alert.alert('Error', 'Failed to change base currency');
+    }
+  };
+
+  const handleAddRate = async () => {
+    const trimmed = rateText.trim().replace(',', '.');
+    const rate = /^\d*\.?\d+$/.test(trimmed) ? Number(trimmed) : NaN;
+    if (!(rate > 0)) {
+      Alert.alert('Error', 'Please enter a rate greater than zero');
+      return;
+    }
+
+    try {
+      await addExchangeRate({
+        from_currency: fromCurrency,
+        to_currency: baseCurrency,
+        rate,
+        effective_date: effectiveDate,
+      });
+      setRateText('');
+      await loadRates();
+    } catch (error) {
+      console.error('Error adding exchange rate:', error);
+      Alert.alert('Error', 'Failed to add exchange rate');
+    }
+  };
+
+  const handleDeleteRate = (rate: ExchangeRate) => {
+    Alert.alert(
+      'Delete Rate',
+      `Delete the ${rate.from_currency} → ${rate.to_currency} rate from ${formatDate(rate.effective_date)}? ` +
+        'Totals will use the nearest other rate.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteExchangeRate(rate.id);
+              await loadRates();
+            } catch (error) {
+              console.error('Error deleting exchange rate:', error);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Text style={styles.backButton}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Exchange Rates</Text>
+        <View style={{ width: 50 }} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Base Currency</Text>
+          <Text style={styles.sectionSubtitle}>
+            Profit, ROI and tax reports are converted to this currency
+          </Text>
+
+          <View style={styles.currencyRow}>
+            {currencyOptions.map(currency => (
+              <TouchableOpacity
+                key={currency}
+                style={[styles.currencyOption, baseCurrency === currency && styles.currencyOptionSelected]}
+                onPress={() => handleBaseCurrency(currency)}
+              >
+                <Text style={[styles.currencyOptionText, baseCurrency === currency && styles.currencyOptionTextSelected]}>
+                  {currency}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Add Rate</Text>
+          <Text style={styles.sectionSubtitle}>
+            Each amount converts at the latest rate on or before its date
+          </Text>
+
+          <View style={styles.currencyRow}>
+            {foreignCurrencies.map(currency => (
+              <TouchableOpacity
+                key={currency}
+                style={[styles.currencyOption, fromCurrency === currency && styles.currencyOptionSelected]}
+                onPress={() => setFromCurrency(currency)}
+              >
+                <Text style={[styles.currencyOptionText, fromCurrency === currency && styles.currencyOptionTextSelected]}>
+                  {currency}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <View style={styles.rateRow}>
+            <Text style={styles.rateLabel}>1 {fromCurrency} =</Text>
+            <TextInput
+              style={styles.rateInput}
+              placeholder="0.73"
+              value={rateText}
+              onChangeText={setRateText}
+              keyboardType="decimal-pad"
+            />
+            <Text style={styles.rateLabel}>{baseCurrency}</Text>
+          </View>
+
+          <DateField label="Effective From" value={effectiveDate} onChange={setEffectiveDate} />
+
+          <TouchableOpacity style={styles.actionButton} onPress={handleAddRate}>
+            <Text style={styles.actionButtonText}>Add Rate</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Rates</Text>
+          <Text style={styles.sectionSubtitle}>Long-press to delete</Text>
+
+          {rates.length === 0 && (
+            <Text style={styles.emptyText}>No rates yet. Amounts in other currencies are left out of totals.</Text>
+          )}
+
+          {rates.map(rate => (
+            <TouchableOpacity key={rate.id} style={styles.rateItem} onLongPress={() => handleDeleteRate(rate)}>
+              <Text style={styles.rateValue}>
+                1 {rate.from_currency} = {rate.rate} {rate.to_currency}
+              </Text>
+              <Text style={styles.rateDate}>From {formatDate(rate.effective_date)}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F5F5',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E0E0E0',
+  },
+  backButton: {
+    fontSize: 16,
+    color: '#007AFF',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333333',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  section: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 20,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333333',
+    marginBottom: 5,
+  },
+  sectionSubtitle: {
+    fontSize: 14,
+    color: '#666666',
+    marginBottom: 15,
+  },
+  currencyRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 12,
+  },
+  currencyOption: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    marginRight: 6,
+    marginBottom: 6,
+    borderRadius: 6,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+  },
+  currencyOptionSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  currencyOptionText: {
+    fontSize: 14,
+    color: '#333333',
+  },
+  currencyOptionTextSelected: {
+    color: '#FFFFFF',
+  },
+  rateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  rateLabel: {
+    fontSize: 16,
+    color: '#333333',
+  },
+  rateInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: '#FFFFFF',
+    marginHorizontal: 10,
+  },
+  actionButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 8,
+    padding: 15,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  actionButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999999',
+  },
+  rateItem: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F0F0F0',
+  },
+  rateValue: {
+    fontSize: 15,
+    color: '#333333',
+  },
+  rateDate: {
+    fontSize: 13,
+    color: '#666666',
+  },
+});
+
+export default ExchangeRates;
@@ -10,14 +10,30 @@ import {
   Alert,
   KeyboardAvoidingView,
   Platform,
+  Image,
+  AlertButton,
 } from 'react-native';
 import { useFocusEffect, useNavigation, useRoute } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RouteProp } from '@react-navigation/native';
+import * as Sharing from 'expo-sharing';
 import { useFlips } from '../state/FlipsContext';
-import { formatCurrency, formatPercentage } from '../utils/currency';
-import { getCurrentISOString, getDaysToSell } from '../utils/dates';
-import { Flip, LineItem, FlipTotals } from '../types';
+import { useSettings } from '../state/SettingsContext';
+import { formatCentsAsDecimal, formatCurrency, formatPercentage, parseCents, SUPPORTED_CURRENCIES } from '../utils/currency';
+import { convertCents } from '../utils/exchangeRates';
+import { formatDate, getCurrentISOString, getDaysToSell } from '../utils/dates';
+import { parseLineItems, isParseError } from '../utils/parseLineItem';
+import { pickReceipt, saveReceipt, resolveReceiptUri, isPdfReceipt, ReceiptSource } from '../utils/receipts';
+import DateField from '../components/DateField';
+import SaleModal from '../components/SaleModal';
+import ListingModal, { ListingModalMode, ListingModalValues } from '../components/ListingModal';
+import { suggestCategory, LINE_ITEM_CATEGORIES, CATEGORY_LABELS } from '../utils/categorize';
+import { decodeVin, normalizeVin, validateVin, VIN_LENGTH } from '../utils/vin';
+import { DUPLICATE_REASON_LABELS } from '../utils/duplicates';
+import { FLIP_STATUSES, FLIP_STATUS_COLORS, FLIP_STATUS_LABELS, isClosedStatus } from '../utils/flipStatus';
+import { getRecordedSale, PAYMENT_METHOD_LABELS, validateSale } from '../utils/sale';
+import { getAskingPrice, getCurrentAskingPrice, isListingActive, LISTING_PLATFORM_LABELS } from '../utils/listings';
+import { Flip, LineItem, FlipTotals, CategoryRule, LineItemCategory, CurrencyCode, ExchangeRate, FlipStatus, FlipStatusChange, NewFlip, SaleDetails, ListingPrice, ListingWithPrices } from '../types';
 
 type RootStackParamList = {
   Home: undefined;
@@ -37,30 +53,64 @@ const FlipSheet: React.FC = () => {
     createFlip,
     getFlipById,
     updateFlip,
+    recordSale,
+    reopenFlip,
+    getFlipStatusHistory,
     deleteFlip,
     duplicateFlip,
+    findDuplicateFlips,
     addLineItem,
     getLineItemsByFlip,
     updateLineItem,
     deleteLineItem,
+    recategorizeLineItem,
+    getListingsByFlip,
+    addListing,
+    changeAskingPrice,
+    deleteListingPrice,
+    endListing,
+    deleteListing,
+    getCategoryRules,
+    getExchangeRates,
     computeTotals,
   } = useFlips();
+  const { settings } = useSettings();
+  const baseCurrency = settings.base_currency;
 
   const [flip, setFlip] = useState<Flip | null>(null);
   const [lineItems, setLineItems] = useState<LineItem[]>([]);
-  const [totals, setTotals] = useState<FlipTotals>({ totalCost: 0, profit: 0, roi: 0 });
+  const [statusHistory, setStatusHistory] = useState<FlipStatusChange[]>([]);
+  const [listings, setListings] = useState<ListingWithPrices[]>([]);
+  // The listing dialog's mode and, unless adding one, the listing it changes
+  const [listingModal, setListingModal] = useState<{ mode: ListingModalMode; listing?: ListingWithPrices } | null>(null);
+  const [categoryRules, setCategoryRules] = useState<CategoryRule[]>([]);
+  const [categoryPickerItemId, setCategoryPickerItemId] = useState<number | null>(null);
+  const [totals, setTotals] = useState<FlipTotals>({
+    currency: baseCurrency,
+    buyPriceCents: 0,
+    totalCostCents: 0,
+    profitCents: 0,
+    roi: 0,
+    lineItemCents: {},
+    missingRates: [],
+  });
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([]);
   const [isLoading, setIsLoading] = useState(!!flipId);
   const [isEditing, setIsEditing] = useState(!flipId);
+  const [saleModalVisible, setSaleModalVisible] = useState(false);
 
   // Form state
   const [year, setYear] = useState('');
   const [make, setMake] = useState('');
   const [model, setModel] = useState('');
+  const [vin, setVin] = useState('');
   const [miles, setMiles] = useState('');
   const [buyPrice, setBuyPrice] = useState('');
-  const [sellPrice, setSellPrice] = useState('');
-  const [newItemAmount, setNewItemAmount] = useState('');
-  const [newItemDescription, setNewItemDescription] = useState('');
+  const [currency, setCurrency] = useState<CurrencyCode>(baseCurrency);
+  const [purchaseDate, setPurchaseDate] = useState<string | undefined>(flipId ? undefined : getCurrentISOString());
+  const [quickEntry, setQuickEntry] = useState('');
+  // New expenses default to the flip's currency
+  const [expenseCurrency, setExpenseCurrency] = useState<CurrencyCode>(baseCurrency);
 
   // What-if mode
   const [whatIfMode, setWhatIfMode] = useState(false);
@@ -84,20 +134,33 @@ const FlipSheet: React.FC = () => {
       const flipData = await getFlipById(flipId);
       const itemsData = await getLineItemsByFlip(flipId);
       const totalsData = await computeTotals(flipId);
+      const rulesData = await getCategoryRules();
+      const ratesData = await getExchangeRates();
+      const historyData = await getFlipStatusHistory(flipId);
+      const listingsData = await getListingsByFlip(flipId);
 
       if (flipData) {
         setFlip(flipData);
         setYear(flipData.year?.toString() || '');
         setMake(flipData.make || '');
         setModel(flipData.model || '');
+        setVin(flipData.vin || '');
         setMiles(flipData.miles?.toString() || '');
-        setBuyPrice(flipData.buy_price.toString());
-        setSellPrice(flipData.sell_price?.toString() || '');
-        setWhatIfSellPrice(flipData.sell_price?.toString() || '');
+        setBuyPrice(formatCentsAsDecimal(flipData.buy_price_cents, true));
+        setCurrency(flipData.currency);
+        setExpenseCurrency(flipData.currency);
+        setPurchaseDate(flipData.purchase_date);
+        // Until it sells, the asking price is the best guess at the sale
+        const expectedCents = flipData.sell_price_cents ?? getCurrentAskingPrice(flipData, listingsData);
+        setWhatIfSellPrice(expectedCents != null ? formatCentsAsDecimal(expectedCents, true) : '');
       }
 
       setLineItems(itemsData);
+      setStatusHistory(historyData);
+      setListings(listingsData);
       setTotals(totalsData);
+      setCategoryRules(rulesData);
+      setExchangeRates(ratesData);
     } catch (error) {
       console.error('Error loading flip:', error);
     } finally {
@@ -106,37 +169,69 @@ const FlipSheet: React.FC = () => {
   };
 
   const saveFlip = async () => {
-    const buyPriceNum = parseFloat(buyPrice);
-    const sellPriceNum = sellPrice ? parseFloat(sellPrice) : undefined;
+    const buyPriceCents = parseCents(buyPrice);
     const yearNum = year ? parseInt(year) : undefined;
     const milesNum = miles ? parseInt(miles) : undefined;
 
-    if (!buyPriceNum || buyPriceNum <= 0) {
+    if (!buyPriceCents || buyPriceCents <= 0) {
       Alert.alert('Error', 'Please enter a valid buy price');
       return;
     }
 
+    const values = {
+      year: yearNum,
+      make: make || undefined,
+      model: model || undefined,
+      vin: normalizeVin(vin) || undefined,
+      miles: milesNum,
+      buy_price_cents: buyPriceCents,
+      currency,
+      purchase_date: purchaseDate,
+    };
+
+    // The sale is only changed through the sale dialog, but the purchase it's
+    // checked against can change here
+    const sale = flip ? getRecordedSale(flip) : null;
+    const invalidSale = flip && sale ? validateSale({ ...flip, ...values }, sale) : null;
+    if (invalidSale) {
+      Alert.alert('Error', invalidSale);
+      return;
+    }
+
+    try {
+      const duplicates = await findDuplicateFlips(values, flipId);
+      if (duplicates.length > 0) {
+        const existing = duplicates[0].flip;
+        const existingName = [existing.year, existing.make, existing.model].filter(Boolean).join(' ') || 'Untitled Flip';
+        Alert.alert(
+          'Possible Duplicate',
+          `This looks like a car you already track: ${existingName} (${DUPLICATE_REASON_LABELS[duplicates[0].reason].toLowerCase()}).` +
+            (duplicates.length > 1 ? ` ${duplicates.length - 1} other flip(s) match too.` : '') +
+            ' You can merge duplicates later in Settings.',
+          [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'View Existing', onPress: () => navigation.push('FlipSheet', { flipId: existing.id }) },
+            { text: 'Save Anyway', onPress: () => persistFlip(values) },
+          ]
+        );
+        return;
+      }
+    } catch (error) {
+      // Detection is advisory; don't let it block saving
+      console.error('Error checking for duplicates:', error);
+    }
+
+    await persistFlip(values);
+  };
+
+  const persistFlip = async (values: NewFlip) => {
     try {
       if (flipId && flip) {
         // Update existing flip
-        await updateFlip(flipId, {
-          year: yearNum,
-          make: make || undefined,
-          model: model || undefined,
-          miles: milesNum,
-          buy_price: buyPriceNum,
-          sell_price: sellPriceNum,
-        });
+        await updateFlip(flipId, values);
       } else {
         // Create new flip
-        const newFlipId = await createFlip({
-          year: yearNum,
-          make: make || undefined,
-          model: model || undefined,
-          miles: milesNum,
-          buy_price: buyPriceNum,
-          sell_price: sellPriceNum,
-        });
+        const newFlipId = await createFlip(values);
         
         navigation.setParams({ flipId: newFlipId });
       }
@@ -150,30 +245,34 @@ const FlipSheet: React.FC = () => {
   };
 
   const handleAddLineItem = async () => {
-    if (!newItemAmount.trim() || !newItemDescription.trim()) {
-      Alert.alert('Error', 'Please enter both amount and description');
-      return;
-    }
     if (!flipId) {
       Alert.alert('Error', 'Please save the flip first');
       return;
     }
 
-    const amount = parseFloat(newItemAmount);
-    if (isNaN(amount) || amount <= 0) {
-      Alert.alert('Error', 'Please enter a valid amount');
+    const parsedLines = parseLineItems(quickEntry);
+    if (parsedLines.length === 0) {
+      Alert.alert('Error', 'Enter an expense like "$190 - water pump"');
+      return;
+    }
+    if (parsedLines.some(({ result }) => isParseError(result))) {
+      Alert.alert('Error', 'Fix the highlighted lines before adding');
       return;
     }
 
     try {
-      await addLineItem({
-        flip_id: flipId,
-        title: newItemDescription.trim(),
-        amount: amount,
-      });
+      for (const { result } of parsedLines) {
+        if (isParseError(result)) continue;
+        await addLineItem({
+          flip_id: flipId,
+          title: result.title,
+          amount_cents: result.amountCents,
+          currency: expenseCurrency,
+          category: suggestCategory(result.title, categoryRules) ?? settings.default_category ?? undefined,
+        });
+      }
       
-      setNewItemAmount('');
-      setNewItemDescription('');
+      setQuickEntry('');
       await loadFlip();
     } catch (error) {
       console.error('Error adding line item:', error);
@@ -203,18 +302,198 @@ const FlipSheet: React.FC = () => {
     );
   };
 
-  const handleMarkSold = async () => {
-    if (!flipId || !flip) return;
+  const handleCategoryChange = async (item: LineItem, category: LineItemCategory) => {
+    setCategoryPickerItemId(null);
+    if (item.category === category) return;
+
+    try {
+      await recategorizeLineItem(item, category);
+      await loadFlip();
+    } catch (error) {
+      console.error('Error updating category:', error);
+      Alert.alert('Error', 'Failed to update category');
+    }
+  };
+
+  const attachReceipt = async (item: LineItem, source: ReceiptSource) => {
+    try {
+      const picked = await pickReceipt(source);
+      if (!picked) return;
 
-    const soldDate = getCurrentISOString();
+      const storedPath = await saveReceipt(picked);
+      await updateLineItem(item.id, { receipt_uri: storedPath });
+      await loadFlip();
+    } catch (error) {
+      console.error('Error attaching receipt:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to attach receipt');
+    }
+  };
+
+  const removeReceipt = async (item: LineItem) => {
     try {
-      await updateFlip(flipId, { sold_date: soldDate });
+      await updateLineItem(item.id, { receipt_uri: undefined });
       await loadFlip();
     } catch (error) {
-      console.error('Error marking as sold:', error);
+      console.error('Error removing receipt:', error);
+    }
+  };
+
+  const viewReceipt = async (storedPath: string) => {
+    try {
+      if (await Sharing.isAvailableAsync()) {
+        await Sharing.shareAsync(resolveReceiptUri(storedPath), {
+          mimeType: isPdfReceipt(storedPath) ? 'application/pdf' : 'image/*',
+          dialogTitle: 'Receipt',
+        });
+      }
+    } catch (error) {
+      console.error('Error opening receipt:', error);
     }
   };
 
+  const promptReceiptSource = (item: LineItem, title: string) => {
+    Alert.alert(title, item.title, [
+      { text: 'Take Photo', onPress: () => attachReceipt(item, 'camera') },
+      { text: 'Choose Photo or PDF', onPress: () => attachReceipt(item, 'document') },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const handleReceiptPress = (item: LineItem) => {
+    if (!item.receipt_uri) {
+      promptReceiptSource(item, 'Attach Receipt');
+      return;
+    }
+
+    const receiptPath = item.receipt_uri;
+    const buttons: AlertButton[] = [
+      { text: 'View', onPress: () => viewReceipt(receiptPath) },
+      { text: 'Replace', onPress: () => promptReceiptSource(item, 'Replace Receipt') },
+      { text: 'Remove', style: 'destructive', onPress: () => removeReceipt(item) },
+    ];
+    // Android alerts are limited to three buttons but can be dismissed by tapping outside
+    if (Platform.OS === 'ios') {
+      buttons.push({ text: 'Cancel', style: 'cancel' });
+    }
+    Alert.alert('Receipt', item.title, buttons, { cancelable: true });
+  };
+
+  // Errors propagate so the sale dialog can show them
+  const handleRecordSale = async (sale: SaleDetails) => {
+    if (!flipId) return;
+
+    await recordSale(flipId, sale);
+    setSaleModalVisible(false);
+    await loadFlip();
+  };
+
+  const handleUnmarkSold = () => {
+    if (!flipId) return;
+
+    Alert.alert(
+      'Unmark Sold',
+      'This clears the sale date, price, buyer, payment method and odometer, and moves the flip back to its last open status.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Unmark Sold',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await reopenFlip(flipId);
+              await loadFlip();
+            } catch (error) {
+              console.error('Error unmarking sold:', error);
+              Alert.alert('Error', 'Failed to unmark sold');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  // Sold is reached through Mark as Sold so the sale gets its date
+  const handleStatusChange = async (status: FlipStatus) => {
+    if (!flipId || !flip || status === flip.status) return;
+
+    try {
+      await updateFlip(flipId, { status });
+      await loadFlip();
+    } catch (error) {
+      console.error('Error changing status:', error);
+      Alert.alert('Error', 'Failed to change status');
+    }
+  };
+
+  // Errors propagate so the listing dialog can show them
+  const handleListingSubmit = async ({ platform, date, priceCents }: ListingModalValues) => {
+    if (!flipId || !listingModal) return;
+
+    const { mode, listing } = listingModal;
+    if (mode === 'new') {
+      await addListing(flipId, platform, date, priceCents as number);
+    } else if (mode === 'price' && listing) {
+      await changeAskingPrice(listing.id, priceCents as number, date);
+    } else if (mode === 'end' && listing) {
+      await endListing(listing.id, date);
+    }
+    setListingModal(null);
+    await loadFlip();
+  };
+
+  const handleRelist = async (listing: ListingWithPrices) => {
+    try {
+      await endListing(listing.id, null);
+      await loadFlip();
+    } catch (error) {
+      console.error('Error relisting:', error);
+      Alert.alert('Error', 'Failed to put the listing back up');
+    }
+  };
+
+  const handleDeleteListing = (listing: ListingWithPrices) => {
+    Alert.alert(
+      'Delete Listing',
+      `Delete the ${LISTING_PLATFORM_LABELS[listing.platform]} listing and its price history?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteListing(listing.id);
+              await loadFlip();
+            } catch (error) {
+              console.error('Error deleting listing:', error);
+              Alert.alert('Error', 'Failed to delete listing');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  // The opening price stays; it's removed with the listing
+  const handleDeleteListingPrice = (price: ListingPrice) => {
+    Alert.alert('Delete Price Change', `Remove the change to ${formatCurrency(price.price_cents, flip?.currency ?? baseCurrency)}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteListingPrice(price.id);
+            await loadFlip();
+          } catch (error) {
+            console.error('Error deleting price change:', error);
+            Alert.alert('Error', 'Failed to delete price change');
+          }
+        },
+      },
+    ]);
+  };
+
   const handleDuplicate = async () => {
     if (!flipId) return;
 
@@ -251,20 +530,50 @@ const FlipSheet: React.FC = () => {
   };
 
   const computeWhatIfTotals = () => {
-    const whatIfSellPriceNum = whatIfSellPrice ? parseFloat(whatIfSellPrice) : (flip?.sell_price || 0);
-    const buyPriceNum = flip?.buy_price || parseFloat(buyPrice) || 0;
-    const totalCost = totals.totalCost;
-    const profit = whatIfSellPriceNum - (buyPriceNum + totalCost);
-    const investedAmount = buyPriceNum + totalCost;
-    const roi = investedAmount > 0 ? profit / investedAmount : 0;
-
-    return { totalCost, profit, roi };
+    // Typed in the flip's currency and converted at today's rate, like a sale made now
+    const typedCents = whatIfSellPrice ? parseCents(whatIfSellPrice) : null;
+    const convertedCents = typedCents !== null && flip
+      ? convertCents(typedCents, flip.currency, totals.currency, exchangeRates, getCurrentISOString())
+      : null;
+    const whatIfSellPriceCents = convertedCents ?? (totals.sellPriceCents || 0);
+    const totalCostCents = totals.totalCostCents;
+    const investedCents = totals.buyPriceCents + totalCostCents;
+    const profitCents = whatIfSellPriceCents - investedCents;
+    const roi = investedCents > 0 ? profitCents / investedCents : 0;
+
+    return { totalCostCents, profitCents, roi };
+  };
+
+  const cycleExpenseCurrency = () => {
+    const index = currencyOptions.indexOf(expenseCurrency);
+    setExpenseCurrency(currencyOptions[(index + 1) % currencyOptions.length]);
   };
 
 
+  const applyVinDecoding = () => {
+    const decoded = decodeVin(vin);
+    if (!decoded) return;
+    if (decoded.modelYear) setYear(decoded.modelYear.toString());
+    if (decoded.make) setMake(decoded.make);
+  };
+
   const displayName = [year, make, model].filter(Boolean).join(' ') || 'New Flip';
+  // Imported flips may use a currency that isn't in the usual list
+  const currencyOptions = [...new Set([...SUPPORTED_CURRENCIES, currency, baseCurrency])];
+  const vinValidation = vin ? validateVin(vin) : null;
+  const vinDecoding = vin ? decodeVin(vin) : null;
+  // Only offer to fill in what the VIN would actually change
+  const vinSuggestion = vinDecoding && isEditing && vinValidation?.status !== 'invalid'
+    ? [
+        vinDecoding.modelYear && vinDecoding.modelYear.toString() !== year ? vinDecoding.modelYear : null,
+        vinDecoding.make && vinDecoding.make.toLowerCase() !== make.trim().toLowerCase() ? vinDecoding.make : null,
+      ].filter(Boolean).join(' ')
+    : '';
+  const quickEntryPreview = parseLineItems(quickEntry);
+  const quickEntryHasErrors = quickEntryPreview.some(({ result }) => isParseError(result));
   const whatIfTotals = whatIfMode ? computeWhatIfTotals() : null;
-  const daysToSell = flip && flip.sold_date ? getDaysToSell(flip.created_at, flip.sold_date) : null;
+  const askingPriceCents = flip ? getCurrentAskingPrice(flip, listings) : null;
+  const daysToSell = flip && flip.sold_date ? getDaysToSell(flip.purchase_date, flip.sold_date) : null;
 
   return (
     <SafeAreaView style={styles.container}>
@@ -290,14 +599,16 @@ const FlipSheet: React.FC = () => {
             <View style={styles.kpiChip}>
               <Text style={styles.kpiLabel}>Total Cost</Text>
               <Text style={styles.kpiValue}>
-                {formatCurrency((flip?.buy_price || parseFloat(buyPrice) || 0) + totals.totalCost)}
+                {flip
+                  ? formatCurrency(totals.buyPriceCents + totals.totalCostCents, totals.currency)
+                  : formatCurrency(parseCents(buyPrice) || 0, currency)}
               </Text>
             </View>
             
-            <View style={[styles.kpiChip, { backgroundColor: totals.profit >= 0 ? '#E8F5E8' : '#FFE8E8' }]}>
+            <View style={[styles.kpiChip, { backgroundColor: totals.profitCents >= 0 ? '#E8F5E8' : '#FFE8E8' }]}>
               <Text style={styles.kpiLabel}>Profit</Text>
-              <Text style={[styles.kpiValue, { color: totals.profit >= 0 ? '#4CAF50' : '#F44336' }]}>
-                {formatCurrency(totals.profit)}
+              <Text style={[styles.kpiValue, { color: totals.profitCents >= 0 ? '#4CAF50' : '#F44336' }]}>
+                {formatCurrency(totals.profitCents, totals.currency)}
               </Text>
             </View>
             
@@ -307,6 +618,13 @@ const FlipSheet: React.FC = () => {
             </View>
           </View>
 
+          {totals.missingRates.length > 0 && (
+            <Text style={styles.rateWarning}>
+              ⚠ No exchange rate from {totals.missingRates.join(', ')} to {totals.currency}. Those amounts are left
+              out of the totals until you add one in Settings → Exchange Rates.
+            </Text>
+          )}
+
           {/* Vehicle Info */}
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>Vehicle Information</Text>
@@ -336,6 +654,37 @@ const FlipSheet: React.FC = () => {
               />
             </View>
             
+            <TextInput
+              style={[styles.input, styles.vinInput, !vinValidation && styles.vinInputEmpty]}
+              placeholder="VIN"
+              value={vin}
+              onChangeText={text => setVin(normalizeVin(text))}
+              autoCapitalize="characters"
+              autoCorrect={false}
+              maxLength={VIN_LENGTH}
+              editable={isEditing}
+            />
+            {vinValidation && (
+              <View style={styles.vinStatus}>
+                <Text
+                  style={[
+                    styles.vinStatusText,
+                    vinValidation.status === 'invalid' && styles.vinStatusInvalid,
+                    vinValidation.status === 'unverified' && styles.vinStatusUnverified,
+                  ]}
+                >
+                  {vinValidation.status === 'valid'
+                    ? `✓ ${[vinDecoding?.modelYear, vinDecoding?.manufacturer ?? 'Unknown manufacturer', vinDecoding?.country && `(${vinDecoding.country})`].filter(Boolean).join(' ')}`
+                    : `⚠ ${vinValidation.message}`}
+                </Text>
+                {!!vinSuggestion && (
+                  <TouchableOpacity style={styles.vinFillButton} onPress={applyVinDecoding}>
+                    <Text style={styles.vinFillButtonText}>Use {vinSuggestion}</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            )}
+
             <View style={styles.row}>
               <TextInput
                 style={[styles.input, { flex: 1 }]}
@@ -353,14 +702,30 @@ const FlipSheet: React.FC = () => {
                 keyboardType="numeric"
                 editable={isEditing}
               />
-              <TextInput
-                style={[styles.input, { flex: 1, marginLeft: 10 }]}
-                placeholder="Sell Price"
-                value={sellPrice}
-                onChangeText={setSellPrice}
-                keyboardType="numeric"
-                editable={isEditing}
-              />
+            </View>
+
+            <DateField
+              label="Purchase Date"
+              value={purchaseDate}
+              onChange={setPurchaseDate}
+              editable={isEditing}
+              maximumDate={flip?.sold_date ? new Date(flip.sold_date) : new Date()}
+            />
+
+            <Text style={styles.currencyLabel}>Bought and sold in</Text>
+            <View style={styles.currencyPicker}>
+              {currencyOptions.map(option => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.currencyOption, currency === option && styles.currencyOptionSelected]}
+                  onPress={() => setCurrency(option)}
+                  disabled={!isEditing}
+                >
+                  <Text style={[styles.currencyOptionText, currency === option && styles.currencyOptionTextSelected]}>
+                    {option}
+                  </Text>
+                </TouchableOpacity>
+              ))}
             </View>
           </View>
 
@@ -370,6 +735,134 @@ const FlipSheet: React.FC = () => {
             </TouchableOpacity>
           )}
 
+          {/* Status */}
+          {flipId && flip && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Status</Text>
+              <View style={styles.statusPicker}>
+                {FLIP_STATUSES.filter(status => status !== 'sold' || flip.status === 'sold').map(status => (
+                  <TouchableOpacity
+                    key={status}
+                    style={[
+                      styles.statusOption,
+                      flip.status === status && { backgroundColor: FLIP_STATUS_COLORS[status], borderColor: FLIP_STATUS_COLORS[status] },
+                    ]}
+                    onPress={() => handleStatusChange(status)}
+                    disabled={flip.status === 'sold'}
+                  >
+                    <Text style={[styles.statusOptionText, flip.status === status && styles.statusOptionTextSelected]}>
+                      {FLIP_STATUS_LABELS[status]}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              {statusHistory.length > 0 && (
+                <View style={styles.statusHistory}>
+                  {statusHistory.map((change, index) => {
+                    const next = statusHistory[index + 1];
+                    const days = next
+                      ? getDaysToSell(change.changed_at, next.changed_at)
+                      : isClosedStatus(change.status) ? null : getDaysToSell(change.changed_at, getCurrentISOString());
+
+                    return (
+                      <View key={change.id} style={styles.statusHistoryRow}>
+                        <Text style={styles.statusHistoryLabel}>{FLIP_STATUS_LABELS[change.status]}</Text>
+                        <Text style={styles.statusHistoryDate}>
+                          {formatDate(change.changed_at)}
+                          {days !== null && ` · ${days} day${days === 1 ? '' : 's'}${next ? '' : ' so far'}`}
+                        </Text>
+                      </View>
+                    );
+                  })}
+                </View>
+              )}
+            </View>
+          )}
+
+          {/* Listings */}
+          {flipId && flip && (
+            <View style={styles.section}>
+              <View style={styles.listingsHeader}>
+                <Text style={styles.sectionTitle}>Listings</Text>
+                <TouchableOpacity onPress={() => setListingModal({ mode: 'new' })}>
+                  <Text style={styles.listingAction}>+ Add</Text>
+                </TouchableOpacity>
+              </View>
+
+              {listings.length === 0 && (
+                <Text style={styles.noListingsText}>Not listed anywhere yet</Text>
+              )}
+
+              {listings.map(listing => {
+                const active = isListingActive(flip, listing);
+                const offMarketAt = listing.ended_at ?? flip.sold_date;
+                const days = getDaysToSell(listing.listed_at, offMarketAt ?? getCurrentISOString());
+                const current = getAskingPrice(listing);
+
+                return (
+                  <View key={listing.id} style={styles.listingCard}>
+                    <View style={styles.listingTitleRow}>
+                      <Text style={styles.listingPlatform}>{LISTING_PLATFORM_LABELS[listing.platform]}</Text>
+                      {current && (
+                        <Text style={styles.listingPrice}>{formatCurrency(current.price_cents, flip.currency)}</Text>
+                      )}
+                    </View>
+                    <Text style={styles.listingDates}>
+                      Listed {formatDate(listing.listed_at)}
+                      {listing.ended_at ? `, ended ${formatDate(listing.ended_at)}` : ''}
+                      {days !== null && ` · ${days} day${days === 1 ? '' : 's'}${active ? ' so far' : ' on market'}`}
+                    </Text>
+
+                    {listing.prices.map((price, index) => {
+                      const previous = listing.prices[index - 1];
+                      return (
+                        <TouchableOpacity
+                          key={price.id}
+                          style={styles.statusHistoryRow}
+                          onLongPress={() => previous && handleDeleteListingPrice(price)}
+                          disabled={!previous}
+                        >
+                          <Text style={styles.statusHistoryDate}>{formatDate(price.changed_at)}</Text>
+                          <Text style={styles.statusHistoryLabel}>
+                            {formatCurrency(price.price_cents, flip.currency)}
+                            {previous && (
+                              <Text style={price.price_cents < previous.price_cents ? styles.priceDrop : styles.priceRise}>
+                                {' '}({price.price_cents < previous.price_cents ? '−' : '+'}
+                                {formatCurrency(Math.abs(price.price_cents - previous.price_cents), flip.currency)})
+                              </Text>
+                            )}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+
+                    <View style={styles.listingActions}>
+                      {active && (
+                        <>
+                          <TouchableOpacity onPress={() => setListingModal({ mode: 'price', listing })}>
+                            <Text style={styles.listingAction}>Change Price</Text>
+                          </TouchableOpacity>
+                          <TouchableOpacity onPress={() => setListingModal({ mode: 'end', listing })}>
+                            <Text style={styles.listingAction}>End</Text>
+                          </TouchableOpacity>
+                        </>
+                      )}
+                      {listing.ended_at && !flip.sold_date && (
+                        <TouchableOpacity onPress={() => handleRelist(listing)}>
+                          <Text style={styles.listingAction}>Relist</Text>
+                        </TouchableOpacity>
+                      )}
+                      <TouchableOpacity onPress={() => handleDeleteListing(listing)}>
+                        <Text style={[styles.listingAction, styles.listingDeleteAction]}>Delete</Text>
+                      </TouchableOpacity>
+                    </View>
+                  </View>
+                );
+              })}
+            </View>
+          )}
+
           {/* Line Items */}
           {flipId && (
             <View style={styles.section}>
@@ -377,26 +870,50 @@ const FlipSheet: React.FC = () => {
               
               <View style={styles.addItemContainer}>
                 <TextInput
-                  style={styles.amountInput}
-                  placeholder="Amount"
-                  value={newItemAmount}
-                  onChangeText={setNewItemAmount}
-                  keyboardType="numeric"
-                  returnKeyType="next"
+                  style={styles.quickEntryInput}
+                  placeholder={'$190 - water pump\n45+12.50 coolant'}
+                  value={quickEntry}
+                  onChangeText={setQuickEntry}
+                  multiline
+                  autoCorrect={false}
                 />
-                <TextInput
-                  style={styles.descriptionInput}
-                  placeholder="Description"
-                  value={newItemDescription}
-                  onChangeText={setNewItemDescription}
-                  onSubmitEditing={handleAddLineItem}
-                  returnKeyType="done"
-                />
-                <TouchableOpacity style={styles.addButton} onPress={handleAddLineItem}>
-                  <Text style={styles.addButtonText}>Add</Text>
+                <TouchableOpacity
+                  style={[styles.addButton, quickEntryHasErrors && styles.addButtonDisabled]}
+                  onPress={handleAddLineItem}
+                  disabled={quickEntryHasErrors}
+                >
+                  <Text style={styles.addButtonText}>
+                    {quickEntryPreview.length > 1 ? `Add ${quickEntryPreview.length}` : 'Add'}
+                  </Text>
                 </TouchableOpacity>
               </View>
 
+              <TouchableOpacity style={styles.expenseCurrencyToggle} onPress={cycleExpenseCurrency}>
+                <Text style={styles.expenseCurrencyText}>Paid in {expenseCurrency} ▸</Text>
+              </TouchableOpacity>
+
+              {quickEntryPreview.length > 0 && (
+                <View style={styles.quickEntryPreview}>
+                  {quickEntryPreview.map(({ line, result }, index) => (
+                    <View key={`${index}-${line}`} style={styles.previewRow}>
+                      {isParseError(result) ? (
+                        <Text style={styles.previewError}>
+                          {line}: {result.error}
+                        </Text>
+                      ) : (
+                        <>
+                          <Text style={styles.previewTitle}>{result.title}</Text>
+                          <Text style={styles.previewCategory}>
+                            {CATEGORY_LABELS[suggestCategory(result.title, categoryRules) || settings.default_category || 'misc']}
+                          </Text>
+                          <Text style={styles.previewAmount}>{formatCurrency(result.amountCents, expenseCurrency)}</Text>
+                        </>
+                      )}
+                    </View>
+                  ))}
+                </View>
+              )}
+
               {lineItems.map((item) => (
                 <TouchableOpacity
                   key={item.id}
@@ -404,9 +921,49 @@ const FlipSheet: React.FC = () => {
                   onLongPress={() => handleDeleteLineItem(item.id, item.title)}
                 >
                   <View style={styles.lineItemContent}>
+                    <TouchableOpacity style={styles.receiptThumbnail} onPress={() => handleReceiptPress(item)}>
+                      {!item.receipt_uri ? (
+                        <Text style={styles.receiptPlaceholderText}>+</Text>
+                      ) : isPdfReceipt(item.receipt_uri) ? (
+                        <Text style={styles.receiptPdfText}>PDF</Text>
+                      ) : (
+                        <Image source={{ uri: resolveReceiptUri(item.receipt_uri) }} style={styles.receiptImage} />
+                      )}
+                    </TouchableOpacity>
                     <Text style={styles.lineItemTitle}>{item.title}</Text>
-                    <Text style={styles.lineItemAmount}>{formatCurrency(item.amount)}</Text>
+                    <TouchableOpacity
+                      style={[styles.categoryChip, !item.category && styles.categoryChipEmpty]}
+                      onPress={() => setCategoryPickerItemId(categoryPickerItemId === item.id ? null : item.id)}
+                    >
+                      <Text style={styles.categoryChipText}>
+                        {item.category ? CATEGORY_LABELS[item.category] : 'Category'}
+                      </Text>
+                    </TouchableOpacity>
+                    <View style={styles.lineItemAmounts}>
+                      <Text style={styles.lineItemAmount}>{formatCurrency(item.amount_cents, item.currency)}</Text>
+                      {item.currency !== totals.currency && totals.lineItemCents[item.id] !== undefined && (
+                        <Text style={styles.lineItemConverted}>
+                          ≈ {formatCurrency(totals.lineItemCents[item.id], totals.currency)}
+                        </Text>
+                      )}
+                    </View>
                   </View>
+
+                  {categoryPickerItemId === item.id && (
+                    <View style={styles.categoryPicker}>
+                      {LINE_ITEM_CATEGORIES.map(category => (
+                        <TouchableOpacity
+                          key={category}
+                          style={[styles.categoryOption, item.category === category && styles.categoryOptionSelected]}
+                          onPress={() => handleCategoryChange(item, category)}
+                        >
+                          <Text style={[styles.categoryOptionText, item.category === category && styles.categoryOptionTextSelected]}>
+                            {CATEGORY_LABELS[category]}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                  )}
                 </TouchableOpacity>
               ))}
             </View>
@@ -440,14 +997,25 @@ const FlipSheet: React.FC = () => {
                     />
                   </View>
 
+                  {askingPriceCents !== null && flip && (
+                    <TouchableOpacity
+                      style={styles.askingPriceButton}
+                      onPress={() => setWhatIfSellPrice(formatCentsAsDecimal(askingPriceCents, true))}
+                    >
+                      <Text style={styles.listingAction}>
+                        Use asking price ({formatCurrency(askingPriceCents, flip.currency)})
+                      </Text>
+                    </TouchableOpacity>
+                  )}
+
                   {whatIfTotals && whatIfSellPrice && (
                     <View style={styles.whatIfComparison}>
                       <View style={styles.comparisonRow}>
                         <Text style={styles.comparisonLabel}>Profit:</Text>
                         <Text style={[styles.comparisonValue, { 
-                          color: whatIfTotals.profit > totals.profit ? '#4CAF50' : whatIfTotals.profit < totals.profit ? '#F44336' : '#333333' 
+                          color: whatIfTotals.profitCents > totals.profitCents ? '#4CAF50' : whatIfTotals.profitCents < totals.profitCents ? '#F44336' : '#333333' 
                         }]}>
-                          {formatCurrency(totals.profit)} → {formatCurrency(whatIfTotals.profit)}
+                          {formatCurrency(totals.profitCents, totals.currency)} → {formatCurrency(whatIfTotals.profitCents, totals.currency)}
                         </Text>
                       </View>
                       
@@ -470,16 +1038,38 @@ const FlipSheet: React.FC = () => {
           {flipId && flip && (
             <View style={styles.actionsSection}>
               {!flip.sold_date && (
-                <TouchableOpacity style={styles.actionButton} onPress={handleMarkSold}>
+                <TouchableOpacity style={styles.actionButton} onPress={() => setSaleModalVisible(true)}>
                   <Text style={styles.actionButtonText}>Mark as Sold</Text>
                 </TouchableOpacity>
               )}
 
-              {flip.sold_date && daysToSell && (
+              {flip.sold_date && (
                 <View style={styles.soldInfo}>
                   <Text style={styles.soldText}>
-                    Sold after {daysToSell} days
+                    Sold {formatDate(flip.sold_date)}
+                    {daysToSell ? ` after ${daysToSell} days` : ''}
                   </Text>
+                  {flip.sell_price_cents != null && (
+                    <Text style={styles.soldDetail}>
+                      For {formatCurrency(flip.sell_price_cents, flip.currency)}
+                      {flip.payment_method ? ` by ${PAYMENT_METHOD_LABELS[flip.payment_method].toLowerCase()}` : ''}
+                    </Text>
+                  )}
+                  {flip.buyer && <Text style={styles.soldDetail}>Buyer: {flip.buyer}</Text>}
+                  {flip.sold_miles != null && (
+                    <Text style={styles.soldDetail}>
+                      {flip.sold_miles.toLocaleString()} miles at sale
+                      {flip.miles != null ? ` (+${(flip.sold_miles - flip.miles).toLocaleString()})` : ''}
+                    </Text>
+                  )}
+                  <View style={styles.soldActions}>
+                    <TouchableOpacity onPress={() => setSaleModalVisible(true)}>
+                      <Text style={styles.soldActionText}>Edit Sale</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity onPress={handleUnmarkSold}>
+                      <Text style={[styles.soldActionText, styles.unmarkText]}>Unmark Sold</Text>
+                    </TouchableOpacity>
+                  </View>
                 </View>
               )}
 
@@ -494,6 +1084,26 @@ const FlipSheet: React.FC = () => {
           )}
         </ScrollView>
       </KeyboardAvoidingView>
+
+      {flip && (
+        <ListingModal
+          visible={listingModal !== null}
+          mode={listingModal?.mode ?? 'new'}
+          flip={flip}
+          listing={listingModal?.listing}
+          onSubmit={handleListingSubmit}
+          onCancel={() => setListingModal(null)}
+        />
+      )}
+
+      {flip && (
+        <SaleModal
+          visible={saleModalVisible}
+          flip={flip}
+          onSubmit={handleRecordSale}
+          onCancel={() => setSaleModalVisible(false)}
+        />
+      )}
     </SafeAreaView>
   );
 };
@@ -590,6 +1200,42 @@ const styles = StyleSheet.create({
   yearInput: {
     width: 80,
   },
+  vinInput: {
+    marginBottom: 8,
+    letterSpacing: 1,
+  },
+  vinInputEmpty: {
+    marginBottom: 15,
+  },
+  vinStatus: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 15,
+  },
+  vinStatusText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#4CAF50',
+  },
+  vinStatusInvalid: {
+    color: '#F44336',
+  },
+  vinStatusUnverified: {
+    color: '#FF9800',
+  },
+  vinFillButton: {
+    backgroundColor: '#E3F2FD',
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    marginLeft: 10,
+  },
+  vinFillButtonText: {
+    fontSize: 13,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
   saveButton: {
     backgroundColor: '#007AFF',
     borderRadius: 8,
@@ -606,8 +1252,10 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     marginBottom: 15,
   },
-  amountInput: {
-    width: 100,
+  quickEntryInput: {
+    flex: 1,
+    minHeight: 48,
+    maxHeight: 140,
     borderWidth: 1,
     borderColor: '#E0E0E0',
     borderRadius: 8,
@@ -615,16 +1263,39 @@ const styles = StyleSheet.create({
     fontSize: 16,
     backgroundColor: '#FFFFFF',
     marginRight: 10,
+    textAlignVertical: 'top',
   },
-  descriptionInput: {
-    flex: 1,
-    borderWidth: 1,
-    borderColor: '#E0E0E0',
+  quickEntryPreview: {
+    backgroundColor: '#F8F9FA',
     borderRadius: 8,
-    padding: 12,
-    fontSize: 16,
-    backgroundColor: '#FFFFFF',
-    marginRight: 10,
+    padding: 10,
+    marginBottom: 15,
+  },
+  previewRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  previewTitle: {
+    fontSize: 14,
+    color: '#333333',
+    flex: 1,
+  },
+  previewCategory: {
+    fontSize: 12,
+    color: '#666666',
+    marginHorizontal: 8,
+  },
+  previewAmount: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#4CAF50',
+  },
+  previewError: {
+    fontSize: 14,
+    color: '#F44336',
+    flex: 1,
   },
   addButton: {
     backgroundColor: '#4CAF50',
@@ -633,6 +1304,9 @@ const styles = StyleSheet.create({
     paddingVertical: 12,
     justifyContent: 'center',
   },
+  addButtonDisabled: {
+    backgroundColor: '#BDBDBD',
+  },
   addButtonText: {
     color: '#FFFFFF',
     fontSize: 16,
@@ -649,16 +1323,233 @@ const styles = StyleSheet.create({
     justifyContent: 'space-between',
     alignItems: 'center',
   },
+  receiptThumbnail: {
+    width: 36,
+    height: 36,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    borderStyle: 'dashed',
+    backgroundColor: '#FFFFFF',
+    justifyContent: 'center',
+    alignItems: 'center',
+    overflow: 'hidden',
+    marginRight: 10,
+  },
+  receiptImage: {
+    width: 36,
+    height: 36,
+  },
+  receiptPlaceholderText: {
+    fontSize: 18,
+    color: '#999999',
+  },
+  receiptPdfText: {
+    fontSize: 10,
+    fontWeight: '700',
+    color: '#F44336',
+  },
   lineItemTitle: {
     fontSize: 16,
     color: '#333333',
     flex: 1,
   },
+  categoryChip: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 10,
+    backgroundColor: '#E3F2FD',
+    marginHorizontal: 8,
+  },
+  categoryChipEmpty: {
+    backgroundColor: '#F0F0F0',
+  },
+  categoryChipText: {
+    fontSize: 12,
+    color: '#1976D2',
+  },
+  categoryPicker: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 10,
+  },
+  categoryOption: {
+    flex: 1,
+    paddingVertical: 6,
+    marginHorizontal: 3,
+    borderRadius: 6,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    alignItems: 'center',
+  },
+  categoryOptionSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  categoryOptionText: {
+    fontSize: 13,
+    color: '#333333',
+  },
+  categoryOptionTextSelected: {
+    color: '#FFFFFF',
+  },
+  lineItemAmounts: {
+    alignItems: 'flex-end',
+  },
   lineItemAmount: {
     fontSize: 16,
     fontWeight: '600',
     color: '#007AFF',
   },
+  lineItemConverted: {
+    fontSize: 11,
+    color: '#999999',
+    marginTop: 2,
+  },
+  currencyLabel: {
+    fontSize: 12,
+    color: '#666666',
+    marginTop: 15,
+    marginBottom: 6,
+  },
+  currencyPicker: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  currencyOption: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 6,
+    marginBottom: 6,
+    borderRadius: 6,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+  },
+  currencyOptionSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  currencyOptionText: {
+    fontSize: 13,
+    color: '#333333',
+  },
+  currencyOptionTextSelected: {
+    color: '#FFFFFF',
+  },
+  statusPicker: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  statusOption: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 6,
+    marginBottom: 6,
+    borderRadius: 14,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+  },
+  statusOptionText: {
+    fontSize: 13,
+    color: '#333333',
+  },
+  statusOptionTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  statusHistory: {
+    marginTop: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#F0F0F0',
+    paddingTop: 10,
+  },
+  statusHistoryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  statusHistoryLabel: {
+    fontSize: 14,
+    color: '#333333',
+  },
+  statusHistoryDate: {
+    fontSize: 13,
+    color: '#666666',
+  },
+  listingsHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  noListingsText: {
+    fontSize: 14,
+    color: '#999999',
+  },
+  listingCard: {
+    borderTopWidth: 1,
+    borderTopColor: '#F0F0F0',
+    paddingVertical: 10,
+  },
+  listingTitleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  listingPlatform: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333333',
+  },
+  listingPrice: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#9C27B0',
+  },
+  listingDates: {
+    fontSize: 13,
+    color: '#666666',
+    marginTop: 2,
+    marginBottom: 6,
+  },
+  priceDrop: {
+    color: '#F44336',
+  },
+  priceRise: {
+    color: '#4CAF50',
+  },
+  listingActions: {
+    flexDirection: 'row',
+    marginTop: 8,
+  },
+  listingAction: {
+    fontSize: 14,
+    color: '#007AFF',
+    marginRight: 16,
+  },
+  listingDeleteAction: {
+    color: '#F44336',
+  },
+  askingPriceButton: {
+    alignSelf: 'flex-start',
+    marginBottom: 10,
+  },
+  expenseCurrencyToggle: {
+    alignSelf: 'flex-start',
+    marginBottom: 10,
+  },
+  expenseCurrencyText: {
+    fontSize: 13,
+    color: '#007AFF',
+  },
+  rateWarning: {
+    fontSize: 13,
+    color: '#FF9800',
+    marginTop: -15,
+    marginBottom: 20,
+  },
   whatIfToggle: {
     padding: 12,
     backgroundColor: '#E3F2FD',
@@ -742,6 +1633,23 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     color: '#4CAF50',
   },
+  soldDetail: {
+    fontSize: 14,
+    color: '#333333',
+    marginTop: 4,
+  },
+  soldActions: {
+    flexDirection: 'row',
+    marginTop: 10,
+  },
+  soldActionText: {
+    fontSize: 14,
+    color: '#007AFF',
+    marginHorizontal: 12,
+  },
+  unmarkText: {
+    color: '#F44336',
+  },
 });
 
 export default FlipSheet;
\ No newline at end of file
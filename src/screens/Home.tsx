@@ -1,8 +1,10 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import {
   View,
   Text,
+  TextInput,
   FlatList,
+  ScrollView,
   TouchableOpacity,
   StyleSheet,
   SafeAreaView,
@@ -12,53 +14,89 @@ import {
 import { useFocusEffect, useNavigation } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { useFlips } from '../state/FlipsContext';
+import { useSettings } from '../state/SettingsContext';
 import { formatCurrency, formatPercentage } from '../utils/currency';
-import { Flip } from '../types';
+import { formatDate, getDaysToSell, getDaysHeld } from '../utils/dates';
+import { validateVin } from '../utils/vin';
+import { countActiveFilters } from '../utils/flipFilters';
+import { FLIP_STATUS_COLORS, FLIP_STATUS_LABELS, getTabStatuses, isClosedStatus } from '../utils/flipStatus';
+import { Flip, FlipListFilters, FlipListTab, FlipStatus, FlipTotals } from '../types';
+import FlipFiltersModal from '../components/FlipFiltersModal';
 
 type RootStackParamList = {
   Home: undefined;
   FlipSheet: { flipId?: number };
   Settings: undefined;
+  Dashboard: undefined;
+  Search: undefined;
 };
 
 type HomeScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Home'>;
 
 const Home: React.FC = () => {
   const navigation = useNavigation<HomeScreenNavigationProp>();
-  const { flips, loading, computeTotals, refreshFlips, deleteFlip } = useFlips();
-  const [selectedTab, setSelectedTab] = useState<'open' | 'sold'>('open');
-  const [flipTotals, setFlipTotals] = useState<Record<number, any>>({});
+  const { flips, loading, initError, queryFlips, refreshFlips, deleteFlip } = useFlips();
+  const { settings, updateSetting } = useSettings();
+  const [selectedTab, setSelectedTab] = useState<FlipListTab>('open');
+  const [statusFilter, setStatusFilter] = useState<FlipStatus | null>(null);
+  const [search, setSearch] = useState('');
+  const [showFilters, setShowFilters] = useState(false);
+  const [filteredFlips, setFilteredFlips] = useState<Flip[]>([]);
+  const [flipTotals, setFlipTotals] = useState<Record<number, FlipTotals>>({});
   const [isSelectionMode, setIsSelectionMode] = useState(false);
   const [selectedFlips, setSelectedFlips] = useState<Set<number>>(new Set());
+  // Only the latest query's results are shown when typing outpaces them
+  const latestQuery = useRef(0);
+  const filters = settings.flip_list_filters;
+  const activeFilterCount = countActiveFilters(filters);
 
   useFocusEffect(
     useCallback(() => {
       refreshFlips();
-      loadFlipTotals();
     }, [])
   );
 
-  const loadFlipTotals = async () => {
-    const totals: Record<number, any> = {};
-    for (const flip of flips) {
-      try {
-        const totalsData = await computeTotals(flip.id);
-        totals[flip.id] = totalsData;
-      } catch (error) {
-        console.error(`Error computing totals for flip ${flip.id}:`, error);
+  // Refreshing flips on focus or after a delete reruns the query too
+  useEffect(() => {
+    if (loading || initError) return;
+    loadFlipList();
+  }, [flips, selectedTab, statusFilter, search, filters, settings.base_currency]);
+
+  const loadFlipList = async () => {
+    const queryId = ++latestQuery.current;
+    try {
+      const results = await queryFlips({ tab: selectedTab, status: statusFilter, search, filters });
+      if (queryId !== latestQuery.current) return;
+
+      const totals: Record<number, FlipTotals> = {};
+      for (const { flip, totals: flipTotalsData } of results) {
+        totals[flip.id] = flipTotalsData;
       }
+      setFilteredFlips(results.map(result => result.flip));
+      setFlipTotals(totals);
+    } catch (error) {
+      console.error('Error loading flips:', error);
     }
-    setFlipTotals(totals);
   };
 
-  const filteredFlips = flips.filter(flip => 
-    selectedTab === 'sold' ? !!flip.sold_date : !flip.sold_date
-  );
+  const selectTab = (tab: FlipListTab) => {
+    setSelectedTab(tab);
+    setStatusFilter(null);
+  };
+
+  const countWithStatus = (statuses: FlipStatus[]) => flips.filter(flip => statuses.includes(flip.status)).length;
+
+  const handleApplyFilters = async (next: FlipListFilters) => {
+    await updateSetting('flip_list_filters', next);
+    setShowFilters(false);
+  };
 
   const renderFlipItem = ({ item }: { item: Flip }) => {
     const totals = flipTotals[item.id];
     const displayName = [item.year, item.make, item.model].filter(Boolean).join(' ') || 'Untitled Flip';
     const isSelected = selectedFlips.has(item.id);
+    const days = item.sold_date ? getDaysToSell(item.purchase_date, item.sold_date) : getDaysHeld(item.purchase_date);
+    const vinStatus = item.vin ? validateVin(item.vin).status : null;
     
     return (
       <TouchableOpacity
@@ -90,21 +128,38 @@ const Home: React.FC = () => {
         <View style={[styles.flipContent, isSelectionMode && styles.flipContentWithCheckbox]}>
           <View style={styles.flipHeader}>
             <Text style={styles.flipTitle}>{displayName}</Text>
-            <Text style={styles.flipPrice}>{formatCurrency(item.buy_price)}</Text>
+            {vinStatus && vinStatus !== 'valid' && (
+              <View style={[styles.vinBadge, vinStatus === 'invalid' && styles.vinBadgeInvalid]}>
+                <Text style={[styles.vinBadgeText, vinStatus === 'invalid' && styles.vinBadgeTextInvalid]}>
+                  {vinStatus === 'invalid' ? 'VIN invalid' : 'VIN unverified'}
+                </Text>
+              </View>
+            )}
+            <Text style={styles.flipPrice}>{formatCurrency(item.buy_price_cents, item.currency)}</Text>
           </View>
           
-          {item.sell_price && (
+          {item.sell_price_cents && (
             <View style={styles.flipSubHeader}>
-              <Text style={styles.sellPrice}>Sold: {formatCurrency(item.sell_price)}</Text>
+              <Text style={styles.sellPrice}>Sold: {formatCurrency(item.sell_price_cents, item.currency)}</Text>
             </View>
           )}
           
+          <View style={styles.flipMetaRow}>
+            <View style={[styles.statusBadge, { backgroundColor: FLIP_STATUS_COLORS[item.status] }]}>
+              <Text style={styles.statusBadgeText}>{FLIP_STATUS_LABELS[item.status]}</Text>
+            </View>
+            <Text style={styles.flipMeta}>
+              {item.purchase_date ? `Bought ${formatDate(item.purchase_date)}` : 'Purchase date not set'}
+              {days !== null && (item.sold_date ? ` · Sold in ${days} days` : ` · Held ${days} days`)}
+            </Text>
+          </View>
+          
           {totals && (
             <View style={styles.flipStats}>
               <View style={styles.statItem}>
                 <Text style={styles.statLabel}>Profit</Text>
-                <Text style={[styles.statValue, { color: totals.profit >= 0 ? '#4CAF50' : '#F44336' }]}>
-                  {formatCurrency(totals.profit)}
+                <Text style={[styles.statValue, { color: totals.profitCents >= 0 ? '#4CAF50' : '#F44336' }]}>
+                  {formatCurrency(totals.profitCents, totals.currency)}
                 </Text>
               </View>
               
@@ -118,11 +173,17 @@ const Home: React.FC = () => {
               <View style={styles.statItem}>
                 <Text style={styles.statLabel}>Total Cost</Text>
                 <Text style={styles.statValue}>
-                  {formatCurrency(item.buy_price + totals.totalCost)}
+                  {formatCurrency(totals.buyPriceCents + totals.totalCostCents, totals.currency)}
                 </Text>
               </View>
             </View>
           )}
+
+          {totals && totals.missingRates.length > 0 && (
+            <Text style={styles.rateWarning}>
+              No {totals.missingRates.join('/')} → {totals.currency} exchange rate; totals are incomplete
+            </Text>
+          )}
         </View>
       </TouchableOpacity>
     );
@@ -196,6 +257,17 @@ const Home: React.FC = () => {
     );
   }
 
+  if (initError) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.errorContainer}>
+          <Text style={styles.errorTitle}>Unable to open your data</Text>
+          <Text style={styles.errorMessage}>{initError}</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
   return (
     <SafeAreaView style={styles.container}>
       <View style={styles.header}>
@@ -217,12 +289,26 @@ const Home: React.FC = () => {
               <Text style={styles.headerButtonText}>Select</Text>
             </TouchableOpacity>
             <Text style={styles.headerTitle}>FlipTrackr</Text>
-            <TouchableOpacity
-              style={styles.headerButton}
-              onPress={() => navigation.navigate('Settings')}
-            >
-              <Text style={styles.headerButtonText}>Settings</Text>
-            </TouchableOpacity>
+            <View style={styles.headerActions}>
+              <TouchableOpacity
+                style={styles.headerButton}
+                onPress={() => navigation.navigate('Search')}
+              >
+                <Text style={styles.headerButtonText}>Search</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.headerButton}
+                onPress={() => navigation.navigate('Dashboard')}
+              >
+                <Text style={styles.headerButtonText}>Stats</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.headerButton}
+                onPress={() => navigation.navigate('Settings')}
+              >
+                <Text style={styles.headerButtonText}>Settings</Text>
+              </TouchableOpacity>
+            </View>
           </>
         )}
       </View>
@@ -230,19 +316,58 @@ const Home: React.FC = () => {
       <View style={styles.tabContainer}>
         <TouchableOpacity
           style={[styles.tab, selectedTab === 'open' && styles.activeTab]}
-          onPress={() => setSelectedTab('open')}
+          onPress={() => selectTab('open')}
         >
           <Text style={[styles.tabText, selectedTab === 'open' && styles.activeTabText]}>
-            Open ({flips.filter(f => !f.sold_date).length})
+            Open ({flips.filter(f => !isClosedStatus(f.status)).length})
           </Text>
         </TouchableOpacity>
         
         <TouchableOpacity
-          style={[styles.tab, selectedTab === 'sold' && styles.activeTab]}
-          onPress={() => setSelectedTab('sold')}
+          style={[styles.tab, selectedTab === 'closed' && styles.activeTab]}
+          onPress={() => selectTab('closed')}
         >
-          <Text style={[styles.tabText, selectedTab === 'sold' && styles.activeTabText]}>
-            Sold ({flips.filter(f => !!f.sold_date).length})
+          <Text style={[styles.tabText, selectedTab === 'closed' && styles.activeTabText]}>
+            Closed ({flips.filter(f => isClosedStatus(f.status)).length})
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView
+        horizontal
+        style={styles.statusBar}
+        contentContainerStyle={styles.statusBarContent}
+        showsHorizontalScrollIndicator={false}
+      >
+        {[null, ...getTabStatuses(selectedTab)].map(status => (
+          <TouchableOpacity
+            key={status ?? 'all'}
+            style={[styles.statusChip, statusFilter === status && styles.statusChipSelected]}
+            onPress={() => setStatusFilter(status)}
+          >
+            <Text style={[styles.statusChipText, statusFilter === status && styles.statusChipTextSelected]}>
+              {status ? FLIP_STATUS_LABELS[status] : 'All'} ({countWithStatus(status ? [status] : getTabStatuses(selectedTab))})
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
+      <View style={styles.searchRow}>
+        <TextInput
+          style={styles.searchInput}
+          placeholder="Search year, make, model or VIN"
+          value={search}
+          onChangeText={setSearch}
+          autoCorrect={false}
+          clearButtonMode="while-editing"
+          returnKeyType="search"
+        />
+        <TouchableOpacity
+          style={[styles.filterButton, activeFilterCount > 0 && styles.filterButtonActive]}
+          onPress={() => setShowFilters(true)}
+        >
+          <Text style={[styles.filterButtonText, activeFilterCount > 0 && styles.filterButtonTextActive]}>
+            {activeFilterCount > 0 ? `Filters (${activeFilterCount})` : 'Filters'}
           </Text>
         </TouchableOpacity>
       </View>
@@ -264,6 +389,20 @@ const Home: React.FC = () => {
         renderItem={renderFlipItem}
         contentContainerStyle={styles.listContainer}
         showsVerticalScrollIndicator={false}
+        ListEmptyComponent={
+          search.trim() || activeFilterCount > 0 ? (
+            <Text style={styles.emptyText}>No flips match your search and filters</Text>
+          ) : null
+        }
+      />
+
+      <FlipFiltersModal
+        visible={showFilters}
+        tab={selectedTab}
+        currency={settings.base_currency}
+        filters={filters}
+        onApply={handleApplyFilters}
+        onCancel={() => setShowFilters(false)}
       />
 
       <TouchableOpacity style={styles.fab} onPress={handleCreateFlip}>
@@ -288,11 +427,31 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: '#E0E0E0',
   },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 30,
+  },
+  errorTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#F44336',
+    marginBottom: 10,
+  },
+  errorMessage: {
+    fontSize: 14,
+    color: '#666666',
+    textAlign: 'center',
+  },
   headerTitle: {
     fontSize: 24,
     fontWeight: 'bold',
     color: '#333333',
   },
+  headerActions: {
+    flexDirection: 'row',
+  },
   headerButton: {
     padding: 8,
     minWidth: 60,
@@ -348,9 +507,80 @@ const styles = StyleSheet.create({
     color: '#007AFF',
     fontWeight: '600',
   },
+  statusBar: {
+    flexGrow: 0,
+    backgroundColor: '#FFFFFF',
+  },
+  statusBarContent: {
+    paddingHorizontal: 15,
+    paddingTop: 10,
+  },
+  statusChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 6,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+  },
+  statusChipSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  statusChipText: {
+    fontSize: 13,
+    color: '#333333',
+  },
+  statusChipTextSelected: {
+    color: '#FFFFFF',
+  },
+  searchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 15,
+    paddingVertical: 10,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E0E0E0',
+  },
+  searchInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 15,
+    backgroundColor: '#F5F5F5',
+  },
+  filterButton: {
+    marginLeft: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+  },
+  filterButtonActive: {
+    backgroundColor: '#007AFF',
+  },
+  filterButtonText: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
+  filterButtonTextActive: {
+    color: '#FFFFFF',
+  },
   listContainer: {
     padding: 15,
   },
+  emptyText: {
+    fontSize: 14,
+    color: '#999999',
+    textAlign: 'center',
+    marginTop: 30,
+  },
   flipCard: {
     backgroundColor: '#FFFFFF',
     borderRadius: 12,
@@ -403,6 +633,24 @@ const styles = StyleSheet.create({
     color: '#333333',
     flex: 1,
   },
+  vinBadge: {
+    backgroundColor: '#FFF3E0',
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    marginHorizontal: 8,
+  },
+  vinBadgeInvalid: {
+    backgroundColor: '#FFE8E8',
+  },
+  vinBadgeText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#FF9800',
+  },
+  vinBadgeTextInvalid: {
+    color: '#F44336',
+  },
   flipPrice: {
     fontSize: 16,
     fontWeight: '500',
@@ -416,6 +664,32 @@ const styles = StyleSheet.create({
     color: '#4CAF50',
     fontWeight: '500',
   },
+  flipMetaRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  statusBadge: {
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    marginRight: 8,
+  },
+  statusBadgeText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  flipMeta: {
+    flex: 1,
+    fontSize: 12,
+    color: '#666666',
+  },
+  rateWarning: {
+    fontSize: 12,
+    color: '#FF9800',
+    marginTop: 8,
+  },
   flipStats: {
     flexDirection: 'row',
     justifyContent: 'space-between',
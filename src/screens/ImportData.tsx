@@ -0,0 +1,546 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import { useFlips } from '../state/FlipsContext';
+import { useSettings } from '../state/SettingsContext';
+import { formatCurrency } from '../utils/currency';
+import {
+  ColumnMapping,
+  countImportActions,
+  FLIP_IMPORT_FIELDS,
+  FlipImportField,
+  FlipImportRow,
+  ImportAction,
+  ImportFieldDefinition,
+  ImportPlan,
+  ImportRecordType,
+  ImportSource,
+  LINE_ITEM_IMPORT_FIELDS,
+  LineItemImportField,
+  LineItemImportRow,
+  ParsedImportFile,
+  parseImportFile,
+  suggestColumnMapping,
+  suggestRecordType,
+} from '../utils/csvImport';
+import { decryptText, isEncryptedText } from '../utils/encryption';
+import PassphraseModal from '../components/PassphraseModal';
+
+const ACTION_LABELS: Record<ImportAction, string> = {
+  create: 'New',
+  update: 'Update',
+  skip: 'Skip',
+};
+
+const ImportData: React.FC = () => {
+  const navigation = useNavigation();
+  const { previewImport, applyImport } = useFlips();
+  const { settings } = useSettings();
+
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [parsed, setParsed] = useState<ParsedImportFile | null>(null);
+  const [recordType, setRecordType] = useState<ImportRecordType>('flips');
+  const [flipMapping, setFlipMapping] = useState<ColumnMapping<FlipImportField>>({});
+  const [lineItemMapping, setLineItemMapping] = useState<ColumnMapping<LineItemImportField>>({});
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [encryptedFile, setEncryptedFile] = useState<{ name: string; text: string } | null>(null);
+
+  const handlePickFile = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ['text/csv', 'text/comma-separated-values', 'text/plain', 'application/vnd.ms-excel', 'application/octet-stream'],
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled || result.assets.length === 0) return;
+
+      const asset = result.assets[0];
+      const text = await FileSystem.readAsStringAsync(asset.uri, { encoding: FileSystem.EncodingType.UTF8 });
+
+      // Encrypted exports are decrypted once the passphrase has been entered
+      if (isEncryptedText(text)) {
+        setEncryptedFile({ name: asset.name, text });
+        return;
+      }
+
+      loadFile(asset.name, text);
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      Alert.alert('Error', 'Failed to read CSV file');
+    }
+  };
+
+  const handleDecrypt = async (passphrase: string) => {
+    if (!encryptedFile) return;
+
+    const { plaintext } = await decryptText(encryptedFile.text, passphrase);
+    setEncryptedFile(null);
+    loadFile(encryptedFile.name, plaintext);
+  };
+
+  const loadFile = (name: string, text: string) => {
+    const file = parseImportFile(text);
+
+    if (file.format === 'generic' && file.sheet.rows.length === 0) {
+      Alert.alert('Empty File', 'No rows were found below the header row');
+      return;
+    }
+
+    setFileName(name);
+    setParsed(file);
+    setPlan(null);
+
+    if (file.format === 'fliptrackr') {
+      setFlipMapping(suggestColumnMapping(file.flips.headers, FLIP_IMPORT_FIELDS));
+      setLineItemMapping(file.lineItems ? suggestColumnMapping(file.lineItems.headers, LINE_ITEM_IMPORT_FIELDS) : {});
+    } else {
+      setRecordType(suggestRecordType(file.sheet.headers));
+      setFlipMapping(suggestColumnMapping(file.sheet.headers, FLIP_IMPORT_FIELDS));
+      setLineItemMapping(suggestColumnMapping(file.sheet.headers, LINE_ITEM_IMPORT_FIELDS));
+    }
+  };
+
+  const buildSource = (): ImportSource | null => {
+    if (!parsed) return null;
+
+    if (parsed.format === 'fliptrackr') {
+      return {
+        flips: { ...parsed.flips, mapping: flipMapping },
+        lineItems: parsed.lineItems ? { ...parsed.lineItems, mapping: lineItemMapping } : undefined,
+      };
+    }
+
+    return recordType === 'flips'
+      ? { flips: { ...parsed.sheet, mapping: flipMapping } }
+      : { lineItems: { ...parsed.sheet, mapping: lineItemMapping } };
+  };
+
+  const handlePreview = async () => {
+    const source = buildSource();
+    if (!source) return;
+
+    if (source.lineItems && !source.flips) {
+      const mapping = source.lineItems.mapping;
+      if (mapping.flip_id === undefined && mapping.vin === undefined) {
+        Alert.alert('Mapping Required', 'Map a Flip ID or VIN column so expenses can be matched to flips');
+        return;
+      }
+    }
+
+    try {
+      setPlan(await previewImport(source));
+    } catch (error) {
+      console.error('Error previewing import:', error);
+      Alert.alert('Error', 'Failed to preview import');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!plan) return;
+
+    const counts = countImportActions(plan);
+    if (counts.create + counts.update === 0) {
+      Alert.alert('Nothing to Import', 'Every row will be skipped');
+      return;
+    }
+
+    setImporting(true);
+    try {
+      const result = await applyImport(plan);
+      Alert.alert(
+        'Import Complete',
+        `Flips: ${result.flipsCreated} added, ${result.flipsUpdated} updated\n` +
+        `Expenses: ${result.lineItemsCreated} added, ${result.lineItemsUpdated} updated\n` +
+        `${counts.skip} row(s) skipped`,
+        [{ text: 'OK', onPress: () => navigation.goBack() }]
+      );
+    } catch (error) {
+      console.error('Error importing data:', error);
+      Alert.alert('Error', 'Import failed. No changes were saved.');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const cycleMapping = <F extends string>(
+    mapping: ColumnMapping<F>,
+    field: F,
+    headers: string[],
+    setMapping: (mapping: ColumnMapping<F>) => void
+  ) => {
+    // Cycles through "not mapped" and every column of the file
+    const current = mapping[field];
+    const next = current === undefined ? 0 : current + 1 < headers.length ? current + 1 : undefined;
+    setMapping({ ...mapping, [field]: next });
+    setPlan(null);
+  };
+
+  const renderMapping = <F extends string>(
+    fields: ImportFieldDefinition<F>[],
+    mapping: ColumnMapping<F>,
+    headers: string[],
+    setMapping: (mapping: ColumnMapping<F>) => void
+  ) => (
+    <>
+      {fields.map(({ field, label }) => {
+        const index = mapping[field];
+        return (
+          <View key={field} style={styles.mappingRow}>
+            <Text style={styles.mappingLabel}>{label}</Text>
+            <TouchableOpacity
+              style={[styles.mappingValue, index === undefined && styles.mappingValueEmpty]}
+              onPress={() => cycleMapping(mapping, field, headers, setMapping)}
+            >
+              <Text style={[styles.mappingValueText, index === undefined && styles.mappingValueTextEmpty]}>
+                {index === undefined ? 'Not mapped' : headers[index] || `Column ${index + 1}`}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        );
+      })}
+    </>
+  );
+
+  const renderFlipRow = (row: FlipImportRow) => {
+    const name = [row.values.year, row.values.make, row.values.model].filter(Boolean).join(' ') || row.values.vin || 'Untitled Flip';
+    return (
+      <View key={`flip-${row.rowNumber}`} style={styles.previewRow}>
+        <View style={styles.previewHeader}>
+          <Text style={styles.previewTitle}>Flip row {row.rowNumber}: {name}</Text>
+          <Text style={[styles.previewAction, styles[`action_${row.action}`]]}>{ACTION_LABELS[row.action]}</Text>
+        </View>
+        {row.matchedBy && (
+          <Text style={styles.previewDetail}>Matches existing flip by {row.matchedBy === 'vin' ? 'VIN' : 'ID'}</Text>
+        )}
+        {row.errors.map(error => (
+          <Text key={error} style={styles.previewError}>• {error}</Text>
+        ))}
+      </View>
+    );
+  };
+
+  const renderLineItemRow = (row: LineItemImportRow) => (
+    <View key={`item-${row.rowNumber}`} style={styles.previewRow}>
+      <View style={styles.previewHeader}>
+        <Text style={styles.previewTitle}>
+          Expense row {row.rowNumber}: {row.values.title || 'Untitled'}
+          {row.values.amount_cents !== undefined ? ` · ${formatCurrency(row.values.amount_cents, row.values.currency ?? settings.base_currency)}` : ''}
+        </Text>
+        <Text style={[styles.previewAction, styles[`action_${row.action}`]]}>{ACTION_LABELS[row.action]}</Text>
+      </View>
+      {row.skipReason && <Text style={styles.previewDetail}>{row.skipReason}</Text>}
+      {row.errors.map(error => (
+        <Text key={error} style={styles.previewError}>• {error}</Text>
+      ))}
+    </View>
+  );
+
+  const counts = plan ? countImportActions(plan) : null;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Text style={styles.backButton}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Import CSV</Text>
+        <View style={{ width: 50 }} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Choose File</Text>
+          <Text style={styles.sectionSubtitle}>
+            Import a FlipTrackr CSV export, or any spreadsheet with one flip or expense per row
+          </Text>
+
+          <TouchableOpacity style={styles.actionButton} onPress={handlePickFile}>
+            <Text style={styles.actionButtonText}>{fileName ? 'Choose Another File' : 'Choose CSV File'}</Text>
+          </TouchableOpacity>
+
+          {parsed && (
+            <Text style={styles.fileInfo}>
+              {fileName} ·{' '}
+              {parsed.format === 'fliptrackr'
+                ? `FlipTrackr export with ${parsed.flips.rows.length} flip(s) and ${parsed.lineItems?.rows.length ?? 0} expense(s)`
+                : `${parsed.sheet.rows.length} row(s), ${parsed.sheet.headers.length} column(s)`}
+            </Text>
+          )}
+        </View>
+
+        {parsed?.format === 'generic' && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Map Columns</Text>
+            <Text style={styles.sectionSubtitle}>Tap a column to change which field it fills</Text>
+
+            <View style={styles.recordTypeRow}>
+              {(['flips', 'lineItems'] as const).map(type => (
+                <TouchableOpacity
+                  key={type}
+                  style={[styles.recordTypeOption, recordType === type && styles.recordTypeOptionSelected]}
+                  onPress={() => {
+                    setRecordType(type);
+                    setPlan(null);
+                  }}
+                >
+                  <Text style={[styles.recordTypeText, recordType === type && styles.recordTypeTextSelected]}>
+                    {type === 'flips' ? 'Rows are Flips' : 'Rows are Expenses'}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {recordType === 'flips'
+              ? renderMapping(FLIP_IMPORT_FIELDS, flipMapping, parsed.sheet.headers, setFlipMapping)
+              : renderMapping(LINE_ITEM_IMPORT_FIELDS, lineItemMapping, parsed.sheet.headers, setLineItemMapping)}
+          </View>
+        )}
+
+        {parsed && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Preview</Text>
+            <Text style={styles.sectionSubtitle}>
+              Nothing is saved until you import. Rows with errors are skipped.
+            </Text>
+
+            <TouchableOpacity style={styles.actionButton} onPress={handlePreview}>
+              <Text style={styles.actionButtonText}>{plan ? 'Refresh Preview' : 'Preview Import'}</Text>
+            </TouchableOpacity>
+
+            {plan && counts && (
+              <>
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryItem}>{counts.create} new</Text>
+                  <Text style={styles.summaryItem}>{counts.update} updated</Text>
+                  <Text style={styles.summaryItem}>{counts.skip} skipped</Text>
+                  <Text style={[styles.summaryItem, counts.errors > 0 && styles.summaryError]}>
+                    {counts.errors} with errors
+                  </Text>
+                </View>
+
+                {plan.flips.map(renderFlipRow)}
+                {plan.lineItems.map(renderLineItemRow)}
+
+                <TouchableOpacity
+                  style={[styles.actionButton, styles.importButton, importing && styles.buttonDisabled]}
+                  onPress={handleImport}
+                  disabled={importing}
+                >
+                  <Text style={styles.actionButtonText}>
+                    {importing ? 'Importing...' : `Import ${counts.create + counts.update} Row(s)`}
+                  </Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </View>
+        )}
+      </ScrollView>
+
+      <PassphraseModal
+        visible={encryptedFile !== null}
+        mode="decrypt"
+        title="Encrypted File"
+        message={`Enter the passphrase for ${encryptedFile?.name ?? 'this file'}.`}
+        onSubmit={handleDecrypt}
+        onCancel={() => setEncryptedFile(null)}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F5F5',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E0E0E0',
+  },
+  backButton: {
+    fontSize: 16,
+    color: '#007AFF',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333333',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  section: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 20,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333333',
+    marginBottom: 5,
+  },
+  sectionSubtitle: {
+    fontSize: 14,
+    color: '#666666',
+    marginBottom: 15,
+  },
+  actionButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 8,
+    padding: 15,
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  importButton: {
+    backgroundColor: '#4CAF50',
+    marginTop: 8,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  actionButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  fileInfo: {
+    fontSize: 13,
+    color: '#666666',
+  },
+  recordTypeRow: {
+    flexDirection: 'row',
+    marginBottom: 12,
+  },
+  recordTypeOption: {
+    flex: 1,
+    paddingVertical: 8,
+    marginHorizontal: 3,
+    borderRadius: 6,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    alignItems: 'center',
+  },
+  recordTypeOptionSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  recordTypeText: {
+    fontSize: 14,
+    color: '#333333',
+  },
+  recordTypeTextSelected: {
+    color: '#FFFFFF',
+  },
+  mappingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F0F0F0',
+  },
+  mappingLabel: {
+    fontSize: 15,
+    color: '#333333',
+  },
+  mappingValue: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 12,
+    backgroundColor: '#E3F2FD',
+    maxWidth: '60%',
+  },
+  mappingValueEmpty: {
+    backgroundColor: '#F0F0F0',
+  },
+  mappingValueText: {
+    fontSize: 13,
+    color: '#1976D2',
+    fontWeight: '500',
+  },
+  mappingValueTextEmpty: {
+    color: '#999999',
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 12,
+  },
+  summaryItem: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333333',
+    marginRight: 16,
+  },
+  summaryError: {
+    color: '#F44336',
+  },
+  previewRow: {
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    backgroundColor: '#F8F9FA',
+    borderRadius: 8,
+    marginBottom: 8,
+  },
+  previewHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  previewTitle: {
+    flex: 1,
+    fontSize: 14,
+    color: '#333333',
+  },
+  previewAction: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  action_create: {
+    color: '#4CAF50',
+  },
+  action_update: {
+    color: '#1976D2',
+  },
+  action_skip: {
+    color: '#999999',
+  },
+  previewDetail: {
+    fontSize: 12,
+    color: '#666666',
+    marginTop: 4,
+  },
+  previewError: {
+    fontSize: 12,
+    color: '#F44336',
+    marginTop: 4,
+  },
+});
+
+export default ImportData;
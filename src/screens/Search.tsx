@@ -0,0 +1,311 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useFlips } from '../state/FlipsContext';
+import { LineItemSearchResult } from '../db/search';
+import { formatCurrency } from '../utils/currency';
+import { formatDate } from '../utils/dates';
+import BarChart from '../components/BarChart';
+
+type RootStackParamList = {
+  Home: undefined;
+  FlipSheet: { flipId?: number };
+  Search: undefined;
+};
+
+type SearchNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Search'>;
+
+// The price chart shows the most recent purchases only
+const HISTORY_LIMIT = 12;
+
+const Search: React.FC = () => {
+  const navigation = useNavigation<SearchNavigationProp>();
+  const { searchLineItems } = useFlips();
+  const [text, setText] = useState('');
+  const [result, setResult] = useState<LineItemSearchResult | null>(null);
+  const [searching, setSearching] = useState(false);
+  // Only the latest search's results are shown when typing outpaces them
+  const latestSearch = useRef(0);
+
+  useEffect(() => {
+    runSearch();
+  }, [text]);
+
+  const runSearch = async () => {
+    const searchId = ++latestSearch.current;
+    if (!text.trim()) {
+      setResult(null);
+      setSearching(false);
+      return;
+    }
+
+    setSearching(true);
+    try {
+      const found = await searchLineItems(text);
+      if (searchId === latestSearch.current) setResult(found);
+    } catch (error) {
+      console.error('Error searching expenses:', error);
+    } finally {
+      if (searchId === latestSearch.current) setSearching(false);
+    }
+  };
+
+  const matchCount = result ? result.groups.reduce((count, group) => count + group.items.length, 0) : 0;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Text style={styles.backButton}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Search Expenses</Text>
+        <View style={{ width: 50 }} />
+      </View>
+
+      <View style={styles.searchRow}>
+        <TextInput
+          style={styles.searchInput}
+          placeholder="e.g. water pump, OFHG"
+          value={text}
+          onChangeText={setText}
+          autoFocus
+          autoCorrect={false}
+          clearButtonMode="while-editing"
+          returnKeyType="search"
+        />
+        {searching && <ActivityIndicator style={styles.searchSpinner} color="#007AFF" />}
+      </View>
+
+      <ScrollView style={styles.content} keyboardShouldPersistTaps="handled" showsVerticalScrollIndicator={false}>
+        {!result && <Text style={styles.emptyText}>Search the titles of every expense across all flips</Text>}
+
+        {result && result.groups.length === 0 && !searching && (
+          <Text style={styles.emptyText}>No expenses match "{text.trim()}"</Text>
+        )}
+
+        {result && result.history && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Price History</Text>
+            <View style={styles.historyStats}>
+              <View style={styles.historyStat}>
+                <Text style={styles.historyLabel}>Lowest</Text>
+                <Text style={styles.historyValue}>{formatCurrency(result.history.lowestCents, result.currency)}</Text>
+              </View>
+              <View style={styles.historyStat}>
+                <Text style={styles.historyLabel}>Average</Text>
+                <Text style={styles.historyValue}>{formatCurrency(result.history.averageCents, result.currency)}</Text>
+              </View>
+              <View style={styles.historyStat}>
+                <Text style={styles.historyLabel}>Highest</Text>
+                <Text style={styles.historyValue}>{formatCurrency(result.history.highestCents, result.currency)}</Text>
+              </View>
+            </View>
+            <BarChart
+              items={result.history.points.slice(-HISTORY_LIMIT).map((point, index) => ({
+                key: `${point.date}-${index}`,
+                label: formatDate(point.date),
+                value: point.amountCents,
+              }))}
+              formatValue={value => formatCurrency(value, result.currency)}
+            />
+          </View>
+        )}
+
+        {result && result.groups.length > 0 && (
+          <Text style={styles.resultCount}>
+            {matchCount} expense(s) on {result.groups.length} flip(s)
+          </Text>
+        )}
+
+        {result?.groups.map(group => (
+          <TouchableOpacity
+            key={group.flipId}
+            style={styles.section}
+            onPress={() => navigation.navigate('FlipSheet', { flipId: group.flipId })}
+          >
+            <View style={styles.groupHeader}>
+              <Text style={styles.groupTitle} numberOfLines={1}>
+                {[group.year, group.make, group.model].filter(Boolean).join(' ') || `Flip #${group.flipId}`}
+              </Text>
+              <Text style={styles.groupLink}>Open →</Text>
+            </View>
+            {group.items.map(item => (
+              <View key={item.id} style={styles.matchRow}>
+                <View style={styles.matchInfo}>
+                  <Text style={styles.matchTitle}>{item.title}</Text>
+                  <Text style={styles.matchDate}>{formatDate(item.date)}</Text>
+                </View>
+                <View style={styles.matchAmounts}>
+                  <Text style={styles.matchAmount}>{formatCurrency(item.amountCents, item.currency)}</Text>
+                  {item.currency !== result.currency && item.baseAmountCents !== null && (
+                    <Text style={styles.matchConverted}>≈ {formatCurrency(item.baseAmountCents, result.currency)}</Text>
+                  )}
+                </View>
+              </View>
+            ))}
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F5F5',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E0E0E0',
+  },
+  backButton: {
+    fontSize: 16,
+    color: '#007AFF',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333333',
+  },
+  searchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 15,
+    paddingVertical: 10,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E0E0E0',
+  },
+  searchInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 15,
+    backgroundColor: '#F5F5F5',
+  },
+  searchSpinner: {
+    marginLeft: 10,
+  },
+  content: {
+    flex: 1,
+    padding: 15,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999999',
+    textAlign: 'center',
+    marginTop: 30,
+  },
+  resultCount: {
+    fontSize: 12,
+    color: '#666666',
+    marginBottom: 8,
+  },
+  section: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 15,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333333',
+    marginBottom: 12,
+  },
+  historyStats: {
+    flexDirection: 'row',
+    marginBottom: 15,
+  },
+  historyStat: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  historyLabel: {
+    fontSize: 12,
+    color: '#666666',
+    marginBottom: 4,
+  },
+  historyValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333333',
+  },
+  groupHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  groupTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333333',
+  },
+  groupLink: {
+    fontSize: 14,
+    color: '#007AFF',
+    marginLeft: 10,
+  },
+  matchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#F0F0F0',
+  },
+  matchInfo: {
+    flex: 1,
+    marginRight: 10,
+  },
+  matchTitle: {
+    fontSize: 15,
+    color: '#333333',
+  },
+  matchDate: {
+    fontSize: 12,
+    color: '#999999',
+    marginTop: 2,
+  },
+  matchAmounts: {
+    alignItems: 'flex-end',
+  },
+  matchAmount: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#333333',
+  },
+  matchConverted: {
+    fontSize: 12,
+    color: '#666666',
+  },
+});
+
+export default Search;
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -7,87 +7,173 @@ import {
   SafeAreaView,
   ScrollView,
   Alert,
+  Switch,
+  TextInput,
+  ActivityIndicator,
 } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import * as FileSystem from 'expo-file-system';
 import * as Sharing from 'expo-sharing';
 import { useFlips } from '../state/FlipsContext';
-import { formatCurrency } from '../utils/currency';
-import { exportTaxReport, exportAllFlipsTaxReport, AllFlipsTaxData } from '../utils/taxExport';
+import { useSettings } from '../state/SettingsContext';
+import { formatCurrency, SUPPORTED_CURRENCIES } from '../utils/currency';
+import { exportTaxReport, exportAllFlipsTaxReport, TaxReportOptions } from '../utils/taxExport';
+import { generateAllFlipsCSV, generateFlipCSV } from '../utils/csvExport';
+import { exportForm8949CSV } from '../utils/form8949';
+import { BackupDocument, BackupError, describeRestoreSummary, parseBackup, pickBackupFile, shareBackup } from '../utils/backup';
+import { RestoreMode } from '../db/snapshot';
+import { formatDate } from '../utils/dates';
+import { decryptText, encryptText, ENCRYPTED_FILE_EXTENSION, isEncryptedText } from '../utils/encryption';
+import PassphraseModal, { PassphraseMode } from '../components/PassphraseModal';
+import { buildAllFlipsTaxData, getAvailableTaxYears, getTaxYearOf } from '../utils/taxYear';
+import { resolveTaxYear, SettingsError, TAX_YEAR_DEFAULT_LABELS } from '../utils/settings';
+import { SUPPORTED_LOCALES } from '../utils/locale';
+import { CATEGORY_LABELS, LINE_ITEM_CATEGORIES } from '../utils/categorize';
+import { AppSettings, Flip, SettingKey, TaxYearDefault } from '../types';
+import appConfig from '../../app.json';
+
+type RootStackParamList = {
+  Home: undefined;
+  FlipSheet: { flipId?: number };
+  Settings: undefined;
+  CategoryRules: undefined;
+  ImportData: undefined;
+  Duplicates: undefined;
+  ExchangeRates: undefined;
+};
+
+type SettingsNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Settings'>;
+
+// Percent text for the rate input, e.g. 0.225 -> "22.5"
+const formatRatePercent = (rate: number): string => String(Math.round(rate * 1000) / 10);
+
+interface PassphrasePrompt {
+  mode: PassphraseMode;
+  title: string;
+  message: string;
+  onSubmit: (passphrase: string) => Promise<void>;
+}
 
 const Settings: React.FC = () => {
-  const navigation = useNavigation();
-  const { flips, getLineItemsByFlip, computeTotals } = useFlips();
+  const navigation = useNavigation<SettingsNavigationProp>();
+  const { flips, getLineItemsByFlip, computeTotals, getFlipTaxEntries, createBackup, restoreBackup } = useFlips();
+  const { settings, updateSetting, resetSettings, reloadSettings, subscribe } = useSettings();
+  const baseCurrency = settings.base_currency;
+  const [taxYear, setTaxYear] = useState(() => resolveTaxYear(settings.tax_year_default));
+  const availableTaxYears = getAvailableTaxYears(flips);
+  const [encryptFiles, setEncryptFiles] = useState(false);
+  const [passphrasePrompt, setPassphrasePrompt] = useState<PassphrasePrompt | null>(null);
+  const [encrypting, setEncrypting] = useState(false);
+  const [taxRateText, setTaxRateText] = useState(formatRatePercent(settings.estimated_tax_rate));
+
+  const reportOptions: TaxReportOptions = {
+    estimatedTaxRate: settings.estimated_tax_rate,
+    itemizeExpenses: settings.report_itemize_expenses,
+  };
 
-  const generateCSV = async (flipId?: number) => {
+  // Keep local inputs in step when settings change underneath them, e.g. on
+  // reset or after restoring a backup
+  useEffect(() => {
+    return subscribe((key, value) => {
+      if (key === 'tax_year_default') setTaxYear(resolveTaxYear(value as TaxYearDefault));
+      if (key === 'estimated_tax_rate') setTaxRateText(formatRatePercent(value as number));
+    });
+  }, []);
+
+  const savePreference = async <K extends SettingKey>(key: K, value: AppSettings[K]) => {
     try {
-      let csvContent = '';
+      await updateSetting(key, value);
+    } catch (error) {
+      console.error('Error saving setting:', error);
+      Alert.alert('Error', error instanceof SettingsError ? error.message : 'Failed to save setting');
+    }
+  };
 
-      if (flipId) {
-        // Single flip export
-        const flip = flips.find(f => f.id === flipId);
-        if (!flip) throw new Error('Flip not found');
+  const saveTaxRate = async () => {
+    const percent = Number(taxRateText.trim().replace(',', '.').replace('%', '') || '0');
+    if (isNaN(percent)) {
+      Alert.alert('Error', 'Enter the tax rate as a percentage, like 22');
+      setTaxRateText(formatRatePercent(settings.estimated_tax_rate));
+      return;
+    }
 
-        const lineItems = await getLineItemsByFlip(flipId);
-        const totals = await computeTotals(flipId);
+    const rate = Math.round(percent * 10) / 1000;
+    if (rate === settings.estimated_tax_rate) return;
+    await savePreference('estimated_tax_rate', rate);
+    setTaxRateText(formatRatePercent(rate));
+  };
 
-        const displayName = [flip.year, flip.make, flip.model].filter(Boolean).join(' ') || 'Untitled Flip';
-        
-        csvContent = `FlipTrackr Export - ${displayName}\n`;
-        csvContent += `Generated: ${new Date().toLocaleDateString()}\n\n`;
-        
-        // Flip summary
-        csvContent += 'Vehicle Information\n';
-        csvContent += `Year,Make,Model,Miles,Buy Price,Sell Price,Sold Date\n`;
-        csvContent += `${flip.year || ''},${flip.make || ''},${flip.model || ''},${flip.miles || ''},${flip.buy_price},${flip.sell_price || ''},${flip.sold_date || ''}\n\n`;
-        
-        // Line items
-        csvContent += 'Expenses\n';
-        csvContent += 'Title,Amount,Category,Date\n';
-        lineItems.forEach(item => {
-          csvContent += `"${item.title}",${item.amount},${item.category || ''},${item.date || ''}\n`;
-        });
-        
-        // Totals
-        csvContent += '\nTotals\n';
-        csvContent += `Total Cost,${formatCurrency(flip.buy_price + totals.totalCost).replace('$', '')}\n`;
-        csvContent += `Profit,${formatCurrency(totals.profit).replace('$', '')}\n`;
-        csvContent += `ROI,${(totals.roi * 100).toFixed(1)}%\n`;
-      } else {
-        // All flips export
-        csvContent = 'FlipTrackr - All Flips Export\n';
-        csvContent += `Generated: ${new Date().toLocaleDateString()}\n\n`;
-        csvContent += 'Flip ID,Year,Make,Model,Miles,Buy Price,Sell Price,Sold Date,Total Cost,Profit,ROI\n';
-
-        for (const flip of flips) {
-          const totals = await computeTotals(flip.id);
-          csvContent += `${flip.id},${flip.year || ''},${flip.make || ''},${flip.model || ''},${flip.miles || ''},${flip.buy_price},${flip.sell_price || ''},${flip.sold_date || ''},${flip.buy_price + totals.totalCost},${totals.profit},${(totals.roi * 100).toFixed(1)}%\n`;
-        }
+  const handleResetPreferences = () => {
+    Alert.alert(
+      'Reset Preferences',
+      'Restore every preference, including the base currency, to its default?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Reset',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await resetSettings();
+            } catch (error) {
+              console.error('Error resetting settings:', error);
+              Alert.alert('Error', 'Failed to reset preferences');
+            }
+          },
+        },
+      ]
+    );
+  };
 
-        csvContent += '\nDetailed Line Items\n';
-        csvContent += 'Flip ID,Vehicle,Title,Amount,Category,Date\n';
+  // Runs an export, first asking for a passphrase when encryption is turned on
+  const withOptionalPassphrase = (title: string, action: (passphrase?: string) => Promise<void>) => {
+    if (!encryptFiles) {
+      action();
+      return;
+    }
 
-        for (const flip of flips) {
-          const displayName = [flip.year, flip.make, flip.model].filter(Boolean).join(' ') || 'Untitled Flip';
-          const lineItems = await getLineItemsByFlip(flip.id);
-          
-          lineItems.forEach(item => {
-            csvContent += `${flip.id},"${displayName}","${item.title}",${item.amount},${item.category || ''},${item.date || ''}\n`;
-          });
+    setPassphrasePrompt({
+      mode: 'encrypt',
+      title,
+      message: 'Anyone opening the file will need this passphrase.',
+      onSubmit: async passphrase => {
+        setPassphrasePrompt(null);
+        // Deriving the key takes seconds on some devices
+        setEncrypting(true);
+        try {
+          await action(passphrase);
+        } finally {
+          setEncrypting(false);
         }
+      },
+    });
+  };
+
+  const generateCSV = async (flipId?: number) => {
+    try {
+      if (!flipId) {
+        return generateAllFlipsCSV(await getFlipTaxEntries(), baseCurrency);
       }
 
-      return csvContent;
+      const flip = flips.find(f => f.id === flipId);
+      if (!flip) throw new Error('Flip not found');
+
+      const lineItems = await getLineItemsByFlip(flip.id);
+      const totals = await computeTotals(flip.id);
+      return generateFlipCSV({ flip, lineItems, totals });
     } catch (error) {
       console.error('Error generating CSV:', error);
       throw error;
     }
   };
 
-  const exportCSV = async (flipId?: number, flipName?: string) => {
+  const exportCSV = async (flipId?: number, flipName?: string, passphrase?: string) => {
     try {
-      const csvContent = await generateCSV(flipId);
-      const fileName = flipId ? `${flipName || 'flip'}-export.csv` : 'all-flips-export.csv';
+      const csv = await generateCSV(flipId);
+      const csvContent = passphrase ? await encryptText(csv, passphrase, 'text/csv') : csv;
+      const fileName = (flipId ? `${flipName || 'flip'}-export.csv` : 'all-flips-export.csv') +
+        (passphrase ? ENCRYPTED_FILE_EXTENSION : '');
       const fileUri = `${FileSystem.documentDirectory}${fileName}`;
 
       await FileSystem.writeAsStringAsync(fileUri, csvContent, {
@@ -96,7 +182,7 @@ const Settings: React.FC = () => {
 
       if (await Sharing.isAvailableAsync()) {
         await Sharing.shareAsync(fileUri, {
-          mimeType: 'text/csv',
+          mimeType: passphrase ? 'application/octet-stream' : 'text/csv',
           dialogTitle: 'Export FlipTrackr Data',
         });
       } else {
@@ -115,14 +201,15 @@ const Settings: React.FC = () => {
 
       const lineItems = await getLineItemsByFlip(flipId);
       const totals = await computeTotals(flipId);
-      const currentYear = new Date().getFullYear();
 
+      // A sold vehicle belongs to the year it was sold in
       await exportTaxReport({
         flip,
         lineItems,
         totals,
-        taxYear: currentYear,
-      });
+        taxYear: getTaxYearOf(flip.sold_date) ?? taxYear,
+        generatedAt: new Date().toISOString(),
+      }, reportOptions);
 
       Alert.alert('Success', 'Tax report exported successfully!');
     } catch (error) {
@@ -131,6 +218,11 @@ const Settings: React.FC = () => {
     }
   };
 
+  // Collect data for all flips; the tax year filter decides where each one belongs
+  const collectTaxData = async () => {
+    return buildAllFlipsTaxData(await getFlipTaxEntries(), taxYear, baseCurrency);
+  };
+
   const exportCompleteTaxReport = async () => {
     if (flips.length === 0) {
       Alert.alert('No Data', 'No flips to export for taxes');
@@ -138,59 +230,121 @@ const Settings: React.FC = () => {
     }
 
     try {
-      const currentYear = new Date().getFullYear();
-      const flipsData = [];
-      let totalSales = 0;
-      let totalPurchases = 0;
-      let totalExpenses = 0;
-      let totalProfit = 0;
-      let totalLoss = 0;
-
-      // Collect data for all flips
-      for (const flip of flips) {
-        const lineItems = await getLineItemsByFlip(flip.id);
-        const totals = await computeTotals(flip.id);
-        
-        flipsData.push({
-          flip,
-          lineItems,
-          totals,
-        });
-
-        // Calculate summary totals
-        totalSales += flip.sell_price || 0;
-        totalPurchases += flip.buy_price;
-        totalExpenses += totals.totalCost;
-        
-        if (totals.profit > 0) {
-          totalProfit += totals.profit;
-        } else {
-          totalLoss += Math.abs(totals.profit);
-        }
+      const taxData = await collectTaxData();
+      if (taxData.flips.length === 0 && taxData.inventory.length === 0 && taxData.summary.scrappedCount === 0) {
+        Alert.alert('No Data', `No vehicles were sold or held in ${taxYear}`);
+        return;
       }
 
-      const taxData: AllFlipsTaxData = {
-        flips: flipsData,
-        taxYear: currentYear,
-        summary: {
-          totalFlips: flips.length,
-          totalProfit,
-          totalLoss,
-          netGainLoss: totalProfit - totalLoss,
-          totalExpenses,
-          totalSales,
-          totalPurchases,
-        },
-      };
-
-      await exportAllFlipsTaxReport(taxData);
-      Alert.alert('Success', 'Complete tax report exported successfully! This includes all your flips formatted for tax preparation.');
+      await exportAllFlipsTaxReport(taxData, reportOptions);
+      Alert.alert('Success', `Complete ${taxYear} tax report exported successfully! It includes ${taxData.flips.length} sale(s) and ${taxData.inventory.length} unsold vehicle(s).`);
     } catch (error) {
       console.error('Error exporting complete tax report:', error);
       Alert.alert('Error', 'Failed to export complete tax report');
     }
   };
 
+  const exportForm8949 = async () => {
+    try {
+      const taxData = await collectTaxData();
+      if (taxData.flips.length === 0) {
+        Alert.alert('No Data', `No vehicles were sold in ${taxYear}`);
+        return;
+      }
+
+      await exportForm8949CSV(taxData);
+    } catch (error) {
+      console.error('Error exporting Form 8949:', error);
+      Alert.alert('Error', 'Failed to export Form 8949');
+    }
+  };
+
+  const handleBackup = () => {
+    withOptionalPassphrase('Encrypt Backup', async passphrase => {
+      try {
+        await shareBackup(await createBackup(), passphrase);
+      } catch (error) {
+        console.error('Error creating backup:', error);
+        Alert.alert('Error', 'Failed to create backup');
+      }
+    });
+  };
+
+  const runRestore = async (document: BackupDocument, mode: RestoreMode) => {
+    try {
+      const summary = await restoreBackup(document, mode);
+      await reloadSettings();
+      Alert.alert('Restore Complete', describeRestoreSummary(summary));
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      Alert.alert('Error', 'Restore failed. Your data was not changed.');
+    }
+  };
+
+  const handleRestore = async () => {
+    let text: string | null;
+    try {
+      text = await pickBackupFile();
+    } catch (error) {
+      console.error('Error reading backup:', error);
+      Alert.alert('Error', 'Failed to read backup file');
+      return;
+    }
+    if (text === null) return;
+
+    if (isEncryptedText(text)) {
+      const encrypted = text;
+      setPassphrasePrompt({
+        mode: 'decrypt',
+        title: 'Encrypted Backup',
+        message: 'Enter the passphrase this backup was encrypted with.',
+        onSubmit: async passphrase => {
+          // A wrong passphrase throws here and is shown in the prompt
+          const { plaintext } = await decryptText(encrypted, passphrase);
+          setPassphrasePrompt(null);
+          await confirmRestore(plaintext);
+        },
+      });
+      return;
+    }
+
+    await confirmRestore(text);
+  };
+
+  const confirmRestore = async (text: string) => {
+    let document: BackupDocument;
+    try {
+      document = await parseBackup(text);
+    } catch (error) {
+      console.error('Error reading backup:', error);
+      Alert.alert('Invalid Backup', error instanceof BackupError ? error.message : 'Failed to read backup file');
+      return;
+    }
+
+    const { flips: backupFlips, line_items: backupLineItems } = document.tables;
+    Alert.alert(
+      'Restore Backup',
+      `Backup from ${document.createdAt ? formatDate(document.createdAt) : 'an unknown date'} with ` +
+      `${backupFlips.length} flip(s) and ${backupLineItems.length} expense(s).\n\n` +
+      'Merge keeps your current data and adds what is missing. Replace deletes everything first.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Merge', onPress: () => runRestore(document, 'merge') },
+        {
+          text: 'Replace',
+          style: 'destructive',
+          onPress: () => Alert.alert(
+            'Replace All Data?',
+            `This permanently deletes your ${flips.length} current flip(s) and their expenses.`,
+            [
+              { text: 'Cancel', style: 'cancel' },
+              { text: 'Replace', style: 'destructive', onPress: () => runRestore(document, 'replace') },
+            ]
+          ),
+        },
+      ]
+    );
+  };
 
   const handleExportAllFlips = () => {
     if (flips.length === 0) {
@@ -203,25 +357,25 @@ const Settings: React.FC = () => {
       `Export ${flips.length} flips to CSV?`,
       [
         { text: 'Cancel', style: 'cancel' },
-        { text: 'Export', onPress: () => exportCSV() },
+        { text: 'Export', onPress: () => withOptionalPassphrase('Encrypt Export', passphrase => exportCSV(undefined, undefined, passphrase)) },
       ]
     );
   };
 
-  const renderFlipExportItem = (flip: any) => {
+  const renderFlipExportItem = (flip: Flip) => {
     const displayName = [flip.year, flip.make, flip.model].filter(Boolean).join(' ') || 'Untitled Flip';
     
     return (
       <View key={flip.id} style={styles.flipItemContainer}>
         <View style={styles.flipInfo}>
           <Text style={styles.flipTitle}>{displayName}</Text>
-          <Text style={styles.flipSubtitle}>{formatCurrency(flip.buy_price)}</Text>
+          <Text style={styles.flipSubtitle}>{formatCurrency(flip.buy_price_cents, flip.currency)}</Text>
         </View>
         
         <View style={styles.exportButtons}>
           <TouchableOpacity
             style={[styles.exportButton, styles.csvButton]}
-            onPress={() => exportCSV(flip.id, displayName)}
+            onPress={() => withOptionalPassphrase('Encrypt Export', passphrase => exportCSV(flip.id, displayName, passphrase))}
           >
             <Text style={styles.exportButtonText}>CSV</Text>
           </TouchableOpacity>
@@ -248,6 +402,104 @@ const Settings: React.FC = () => {
       </View>
 
       <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Preferences</Text>
+
+          <Text style={styles.preferenceLabel}>Language & Region</Text>
+          <Text style={styles.preferenceHint}>How amounts and dates are formatted</Text>
+          <View style={styles.optionRow}>
+            {SUPPORTED_LOCALES.map(locale => (
+              <TouchableOpacity
+                key={locale.value}
+                style={[styles.optionChip, settings.locale === locale.value && styles.optionChipSelected]}
+                onPress={() => savePreference('locale', locale.value)}
+              >
+                <Text style={[styles.optionChipText, settings.locale === locale.value && styles.optionChipTextSelected]}>
+                  {locale.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.preferenceLabel}>Base Currency</Text>
+          <Text style={styles.preferenceHint}>New flips start in this currency and totals are converted to it</Text>
+          <View style={styles.optionRow}>
+            {[...new Set([...SUPPORTED_CURRENCIES, baseCurrency])].map(currency => (
+              <TouchableOpacity
+                key={currency}
+                style={[styles.optionChip, baseCurrency === currency && styles.optionChipSelected]}
+                onPress={() => savePreference('base_currency', currency)}
+              >
+                <Text style={[styles.optionChipText, baseCurrency === currency && styles.optionChipTextSelected]}>
+                  {currency}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.preferenceLabel}>Default Expense Category</Text>
+          <Text style={styles.preferenceHint}>Used for new expenses no categorization rule matches</Text>
+          <View style={styles.optionRow}>
+            {[null, ...LINE_ITEM_CATEGORIES].map(category => (
+              <TouchableOpacity
+                key={category ?? 'none'}
+                style={[styles.optionChip, settings.default_category === category && styles.optionChipSelected]}
+                onPress={() => savePreference('default_category', category)}
+              >
+                <Text style={[styles.optionChipText, settings.default_category === category && styles.optionChipTextSelected]}>
+                  {category ? CATEGORY_LABELS[category] : 'None'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.preferenceLabel}>Tax Year</Text>
+          <Text style={styles.preferenceHint}>Which year tax exports start on</Text>
+          <View style={styles.optionRow}>
+            {(Object.keys(TAX_YEAR_DEFAULT_LABELS) as TaxYearDefault[]).map(option => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.optionChip, settings.tax_year_default === option && styles.optionChipSelected]}
+                onPress={() => savePreference('tax_year_default', option)}
+              >
+                <Text style={[styles.optionChipText, settings.tax_year_default === option && styles.optionChipTextSelected]}>
+                  {TAX_YEAR_DEFAULT_LABELS[option]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.preferenceLabel}>Estimated Tax Rate</Text>
+          <Text style={styles.preferenceHint}>Tax reports estimate what to set aside from net gains. Leave at 0 to skip.</Text>
+          <View style={styles.rateRow}>
+            <TextInput
+              style={styles.rateInput}
+              value={taxRateText}
+              onChangeText={setTaxRateText}
+              onEndEditing={saveTaxRate}
+              keyboardType="decimal-pad"
+              returnKeyType="done"
+              placeholder="0"
+            />
+            <Text style={styles.rateSuffix}>%</Text>
+          </View>
+
+          <View style={styles.switchRow}>
+            <View style={styles.switchLabel}>
+              <Text style={styles.switchTitle}>Itemize expenses in tax reports</Text>
+              <Text style={styles.switchSubtitle}>Off shows one total per category for each vehicle</Text>
+            </View>
+            <Switch
+              value={settings.report_itemize_expenses}
+              onValueChange={value => savePreference('report_itemize_expenses', value)}
+            />
+          </View>
+
+          <TouchableOpacity style={styles.resetButton} onPress={handleResetPreferences}>
+            <Text style={styles.resetButtonText}>Reset Preferences</Text>
+          </TouchableOpacity>
+        </View>
+
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Export Data</Text>
           
@@ -258,10 +510,110 @@ const Settings: React.FC = () => {
             </Text>
           </TouchableOpacity>
 
+          <View style={styles.taxYearSelector}>
+            <TouchableOpacity
+              style={styles.taxYearArrow}
+              onPress={() => setTaxYear(taxYear - 1)}
+              disabled={taxYear <= Math.min(...availableTaxYears)}
+            >
+              <Text style={styles.taxYearArrowText}>‹</Text>
+            </TouchableOpacity>
+            <View style={styles.taxYearLabel}>
+              <Text style={styles.infoLabel}>Tax Year</Text>
+              <Text style={styles.taxYearValue}>{taxYear}</Text>
+            </View>
+            <TouchableOpacity
+              style={styles.taxYearArrow}
+              onPress={() => setTaxYear(taxYear + 1)}
+              disabled={taxYear >= Math.max(...availableTaxYears)}
+            >
+              <Text style={styles.taxYearArrowText}>›</Text>
+            </TouchableOpacity>
+          </View>
+
           <TouchableOpacity style={[styles.actionButton, styles.taxExportButton]} onPress={exportCompleteTaxReport}>
-            <Text style={styles.actionButtonText}>Export Complete Tax Report</Text>
+            <Text style={styles.actionButtonText}>Export {taxYear} Tax Report</Text>
             <Text style={styles.actionButtonSubtext}>
-              All expenses formatted for tax preparation
+              {flips.filter(f => getTaxYearOf(f.sold_date) === taxYear).length} sale(s) in {taxYear}, plus unsold inventory
+            </Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.actionButton} onPress={exportForm8949}>
+            <Text style={styles.actionButtonText}>Export {taxYear} Form 8949 (CSV)</Text>
+            <Text style={styles.actionButtonSubtext}>
+              One row per sale, split into short- and long-term for Schedule D
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Backup & Restore</Text>
+
+          <TouchableOpacity style={styles.actionButton} onPress={handleBackup}>
+            <Text style={styles.actionButtonText}>Back Up All Data</Text>
+            <Text style={styles.actionButtonSubtext}>
+              Saves every flip, expense and rule to a file you can keep anywhere
+            </Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.actionButton} onPress={handleRestore}>
+            <Text style={styles.actionButtonText}>Restore from Backup</Text>
+            <Text style={styles.actionButtonSubtext}>
+              Merge into or replace your current data. Receipt images are not included.
+            </Text>
+          </TouchableOpacity>
+
+          <View style={styles.switchRow}>
+            <View style={styles.switchLabel}>
+              <Text style={styles.switchTitle}>Encrypt backups and CSV exports</Text>
+              <Text style={styles.switchSubtitle}>
+                Protect files with a passphrase before sharing. Tax reports stay readable so your accountant can open them.
+              </Text>
+            </View>
+            <Switch value={encryptFiles} onValueChange={setEncryptFiles} />
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Import Data</Text>
+
+          <TouchableOpacity style={styles.actionButton} onPress={() => navigation.navigate('ImportData')}>
+            <Text style={styles.actionButtonText}>Import from CSV</Text>
+            <Text style={styles.actionButtonSubtext}>
+              FlipTrackr exports or your own spreadsheets, with a preview before saving
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Currencies</Text>
+
+          <TouchableOpacity style={styles.actionButton} onPress={() => navigation.navigate('ExchangeRates')}>
+            <Text style={styles.actionButtonText}>Exchange Rates</Text>
+            <Text style={styles.actionButtonSubtext}>
+              Totals and reports are in {baseCurrency}. Add rates for flips and expenses in other currencies.
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Data Cleanup</Text>
+
+          <TouchableOpacity style={styles.actionButton} onPress={() => navigation.navigate('Duplicates')}>
+            <Text style={styles.actionButtonText}>Possible Duplicates</Text>
+            <Text style={styles.actionButtonSubtext}>
+              Review flips that look like the same car and merge them
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Expense Categories</Text>
+
+          <TouchableOpacity style={styles.actionButton} onPress={() => navigation.navigate('CategoryRules')}>
+            <Text style={styles.actionButtonText}>Categorization Rules</Text>
+            <Text style={styles.actionButtonSubtext}>
+              Edit keywords and categorize existing expenses
             </Text>
           </TouchableOpacity>
         </View>
@@ -281,7 +633,7 @@ const Settings: React.FC = () => {
           
           <View style={styles.infoItem}>
             <Text style={styles.infoLabel}>Version</Text>
-            <Text style={styles.infoValue}>1.0.0</Text>
+            <Text style={styles.infoValue}>{appConfig.expo.version}</Text>
           </View>
           
           <View style={styles.infoItem}>
@@ -304,6 +656,22 @@ const Settings: React.FC = () => {
           </View>
         </View>
       </ScrollView>
+
+      <PassphraseModal
+        visible={passphrasePrompt !== null}
+        mode={passphrasePrompt?.mode ?? 'encrypt'}
+        title={passphrasePrompt?.title ?? ''}
+        message={passphrasePrompt?.message}
+        onSubmit={passphrase => passphrasePrompt ? passphrasePrompt.onSubmit(passphrase) : Promise.resolve()}
+        onCancel={() => setPassphrasePrompt(null)}
+      />
+
+      {encrypting && (
+        <View style={styles.busyOverlay}>
+          <ActivityIndicator size="large" color="#FFFFFF" />
+          <Text style={styles.busyText}>Encrypting. This can take a few seconds.</Text>
+        </View>
+      )}
     </SafeAreaView>
   );
 };
@@ -313,6 +681,19 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: '#F5F5F5',
   },
+  busyOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 30,
+  },
+  busyText: {
+    marginTop: 12,
+    fontSize: 14,
+    color: '#FFFFFF',
+    textAlign: 'center',
+  },
   header: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -365,6 +746,115 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 12,
   },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingTop: 4,
+  },
+  switchLabel: {
+    flex: 1,
+    marginRight: 12,
+  },
+  switchTitle: {
+    fontSize: 16,
+    color: '#333333',
+  },
+  switchSubtitle: {
+    fontSize: 12,
+    color: '#666666',
+    marginTop: 2,
+  },
+  preferenceLabel: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#333333',
+    marginTop: 10,
+  },
+  preferenceHint: {
+    fontSize: 12,
+    color: '#666666',
+    marginTop: 2,
+    marginBottom: 8,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 6,
+  },
+  optionChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 7,
+    marginRight: 6,
+    marginBottom: 6,
+    borderRadius: 6,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+  },
+  optionChipSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  optionChipText: {
+    fontSize: 14,
+    color: '#333333',
+  },
+  optionChipTextSelected: {
+    color: '#FFFFFF',
+  },
+  rateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  rateInput: {
+    width: 90,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 16,
+    backgroundColor: '#FFFFFF',
+  },
+  rateSuffix: {
+    fontSize: 16,
+    color: '#333333',
+    marginLeft: 8,
+  },
+  resetButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+    marginTop: 8,
+  },
+  resetButtonText: {
+    fontSize: 16,
+    color: '#FF3B30',
+  },
+  taxYearSelector: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: '#F8F9FA',
+    borderRadius: 8,
+    paddingVertical: 8,
+    marginBottom: 12,
+  },
+  taxYearArrow: {
+    paddingHorizontal: 20,
+    paddingVertical: 4,
+  },
+  taxYearArrowText: {
+    fontSize: 28,
+    color: '#007AFF',
+  },
+  taxYearLabel: {
+    alignItems: 'center',
+  },
+  taxYearValue: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#333333',
+  },
   taxExportButton: {
     backgroundColor: '#4CAF50',
   },
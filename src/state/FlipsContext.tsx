@@ -1,26 +1,92 @@
 import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
-import { Flip, LineItem, FlipTotals } from '../types';
+import { Flip, LineItem, FlipTotals, CategoryRule, CategorizationProposal, LineItemCategory, ExchangeRate, FlipListQuery, FlipStatusChange, NewFlip, SaleDetails, ListingPlatform, ListingWithPrices } from '../types';
 import * as db from '../db/sqlite';
+import { readSnapshot, restoreSnapshot, RestoreMode, RestoreSummary } from '../db/snapshot';
+import * as analytics from '../db/analytics';
+import * as flipList from '../db/flipList';
+import * as search from '../db/search';
+import { PortfolioAnalytics } from '../db/analytics';
+import { deleteReceipt } from '../utils/receipts';
+import { previewRecategorization } from '../utils/categorize';
+import { buildImportPlan, ImportPlan, ImportResult, ImportSource } from '../utils/csvImport';
+import { BackupDocument, createBackupDocument } from '../utils/backup';
+import { FlipTaxEntry } from '../utils/taxExport';
+import { SaleError, validateSale } from '../utils/sale';
+import { ListingError, validateListing, validateListingEnd, validatePriceChange } from '../utils/listings';
+import {
+  DuplicateCandidate,
+  DuplicateMatch,
+  DuplicatePair,
+  FlipMergeResult,
+  findDuplicatePairs,
+  findDuplicatesOf,
+} from '../utils/duplicates';
 
 interface FlipsContextType {
   flips: Flip[];
   loading: boolean;
+  initError: string | null;
   
   // Flip operations
-  createFlip: (flip: Omit<Flip, 'id' | 'created_at' | 'updated_at'>) => Promise<number>;
+  createFlip: (flip: NewFlip) => Promise<number>;
   getFlipById: (id: number) => Promise<Flip | null>;
   updateFlip: (id: number, flip: Partial<Omit<Flip, 'id' | 'created_at'>>) => Promise<void>;
+  getFlipStatusHistory: (flipId: number) => Promise<FlipStatusChange[]>;
+  // Throws a SaleError when the sale doesn't fit the purchase
+  recordSale: (flipId: number, sale: SaleDetails) => Promise<void>;
+  reopenFlip: (flipId: number) => Promise<void>;
   deleteFlip: (id: number) => Promise<void>;
   duplicateFlip: (id: number) => Promise<number>;
   
+  // Duplicate detection
+  findDuplicateFlips: (candidate: DuplicateCandidate, excludeId?: number) => Promise<DuplicateMatch[]>;
+  getDuplicatePairs: () => Promise<DuplicatePair[]>;
+  mergeFlips: (keepId: number, mergeId: number) => Promise<FlipMergeResult>;
+  
   // Line item operations
   addLineItem: (lineItem: Omit<LineItem, 'id' | 'created_at' | 'updated_at'>) => Promise<number>;
   getLineItemsByFlip: (flipId: number) => Promise<LineItem[]>;
   updateLineItem: (id: number, lineItem: Partial<Omit<LineItem, 'id' | 'flip_id' | 'created_at'>>) => Promise<void>;
   deleteLineItem: (id: number) => Promise<void>;
+  recategorizeLineItem: (lineItem: LineItem, category: LineItemCategory) => Promise<void>;
+  
+  // Listings; these throw a ListingError when a date or price doesn't fit the flip
+  getListingsByFlip: (flipId: number) => Promise<ListingWithPrices[]>;
+  addListing: (flipId: number, platform: ListingPlatform, listedAt: string, askingPriceCents: number) => Promise<number>;
+  changeAskingPrice: (listingId: number, priceCents: number, changedAt: string) => Promise<void>;
+  deleteListingPrice: (id: number) => Promise<void>;
+  // A null endedAt puts the listing back up
+  endListing: (listingId: number, endedAt: string | null) => Promise<void>;
+  deleteListing: (id: number) => Promise<void>;
+  
+  // Categorization rules
+  getCategoryRules: () => Promise<CategoryRule[]>;
+  addCategoryRule: (keyword: string, category: LineItemCategory) => Promise<number>;
+  updateCategoryRule: (id: number, rule: Partial<Pick<CategoryRule, 'keyword' | 'category'>>) => Promise<void>;
+  deleteCategoryRule: (id: number) => Promise<void>;
+  previewUncategorized: () => Promise<CategorizationProposal[]>;
+  applyCategorization: (proposals: CategorizationProposal[]) => Promise<void>;
+  
+  // CSV import
+  previewImport: (source: ImportSource) => Promise<ImportPlan>;
+  applyImport: (plan: ImportPlan) => Promise<ImportResult>;
+  
+  // Backup and restore
+  createBackup: () => Promise<BackupDocument>;
+  restoreBackup: (document: BackupDocument, mode: RestoreMode) => Promise<RestoreSummary>;
+  
+  // Exchange rates
+  getExchangeRates: () => Promise<ExchangeRate[]>;
+  addExchangeRate: (rate: Omit<ExchangeRate, 'id' | 'created_at' | 'updated_at'>) => Promise<number>;
+  deleteExchangeRate: (id: number) => Promise<void>;
   
   // Calculations
   computeTotals: (flipId: number) => Promise<FlipTotals>;
+  getFlipsWithTotals: () => Promise<db.FlipWithTotals[]>;
+  getFlipTaxEntries: () => Promise<FlipTaxEntry[]>;
+  queryFlips: (query: FlipListQuery) => Promise<db.FlipWithTotals[]>;
+  searchLineItems: (text: string) => Promise<search.LineItemSearchResult>;
+  getPortfolioAnalytics: () => Promise<PortfolioAnalytics>;
   
   // Data refresh
   refreshFlips: () => Promise<void>;
@@ -46,6 +112,7 @@ interface FlipsProviderProps {
 export const FlipsProvider: React.FC<FlipsProviderProps> = ({ children }) => {
   const [flips, setFlips] = useState<Flip[]>([]);
   const [loading, setLoading] = useState(true);
+  const [initError, setInitError] = useState<string | null>(null);
 
   const refreshFlips = async () => {
     try {
@@ -63,6 +130,7 @@ export const FlipsProvider: React.FC<FlipsProviderProps> = ({ children }) => {
         await refreshFlips();
       } catch (error) {
         console.error('Error initializing database:', error);
+        setInitError(error instanceof Error ? error.message : String(error));
       } finally {
         setLoading(false);
       }
@@ -71,7 +139,7 @@ export const FlipsProvider: React.FC<FlipsProviderProps> = ({ children }) => {
     initializeDatabase();
   }, []);
 
-  const createFlip = async (flip: Omit<Flip, 'id' | 'created_at' | 'updated_at'>): Promise<number> => {
+  const createFlip = async (flip: NewFlip): Promise<number> => {
     const flipId = await db.createFlip(flip);
     await refreshFlips();
     return flipId;
@@ -86,8 +154,32 @@ export const FlipsProvider: React.FC<FlipsProviderProps> = ({ children }) => {
     await refreshFlips();
   };
 
+  const getFlipStatusHistory = async (flipId: number): Promise<FlipStatusChange[]> => {
+    return await db.getFlipStatusHistory(flipId);
+  };
+
+  const recordSale = async (flipId: number, sale: SaleDetails): Promise<void> => {
+    const flip = await db.getFlipById(flipId);
+    if (!flip) throw new Error('Flip not found');
+
+    const error = validateSale(flip, sale);
+    if (error) throw new SaleError(error);
+
+    await db.recordSale(flipId, sale);
+    await refreshFlips();
+  };
+
+  const reopenFlip = async (flipId: number): Promise<void> => {
+    await db.reopenFlip(flipId);
+    await refreshFlips();
+  };
+
   const deleteFlip = async (id: number): Promise<void> => {
+    const lineItems = await db.getLineItemsByFlip(id);
     await db.deleteFlip(id);
+    for (const item of lineItems) {
+      await deleteReceipt(item.receipt_uri);
+    }
     await refreshFlips();
   };
 
@@ -97,14 +189,15 @@ export const FlipsProvider: React.FC<FlipsProviderProps> = ({ children }) => {
 
     const lineItems = await db.getLineItemsByFlip(id);
     
-    // Create new flip without sold data
+    // Create new flip without sold data. VIN and mileage belong to one
+    // physical car, so the copy starts without them instead of looking
+    // like a duplicate of the original.
     const newFlipId = await db.createFlip({
       year: originalFlip.year,
       make: originalFlip.make,
       model: originalFlip.model,
-      vin: originalFlip.vin,
-      miles: originalFlip.miles,
-      buy_price: originalFlip.buy_price,
+      buy_price_cents: originalFlip.buy_price_cents,
+      currency: originalFlip.currency,
     });
 
     // Copy all line items
@@ -112,7 +205,8 @@ export const FlipsProvider: React.FC<FlipsProviderProps> = ({ children }) => {
       await db.addLineItem({
         flip_id: newFlipId,
         title: item.title,
-        amount: item.amount,
+        amount_cents: item.amount_cents,
+        currency: item.currency,
         category: item.category,
         date: item.date,
       });
@@ -122,6 +216,23 @@ export const FlipsProvider: React.FC<FlipsProviderProps> = ({ children }) => {
     return newFlipId;
   };
 
+  const findDuplicateFlips = async (candidate: DuplicateCandidate, excludeId?: number): Promise<DuplicateMatch[]> => {
+    return findDuplicatesOf(candidate, await db.getFlips(), excludeId);
+  };
+
+  const getDuplicatePairs = async (): Promise<DuplicatePair[]> => {
+    return findDuplicatePairs(await db.getFlips());
+  };
+
+  const mergeFlips = async (keepId: number, mergeId: number): Promise<FlipMergeResult> => {
+    const result = await db.mergeFlips(keepId, mergeId);
+    for (const receipt of result.orphanedReceipts) {
+      await deleteReceipt(receipt);
+    }
+    await refreshFlips();
+    return result;
+  };
+
   const addLineItem = async (lineItem: Omit<LineItem, 'id' | 'created_at' | 'updated_at'>): Promise<number> => {
     return await db.addLineItem(lineItem);
   };
@@ -131,44 +242,230 @@ export const FlipsProvider: React.FC<FlipsProviderProps> = ({ children }) => {
   };
 
   const updateLineItem = async (id: number, lineItem: Partial<Omit<LineItem, 'id' | 'flip_id' | 'created_at'>>): Promise<void> => {
+    const existing = 'receipt_uri' in lineItem ? await db.getLineItemById(id) : null;
     await db.updateLineItem(id, lineItem);
+
+    // Clean up the previous receipt file when it has been replaced or removed
+    if (existing?.receipt_uri && existing.receipt_uri !== lineItem.receipt_uri) {
+      await deleteReceipt(existing.receipt_uri);
+    }
   };
 
   const deleteLineItem = async (id: number): Promise<void> => {
+    const existing = await db.getLineItemById(id);
     await db.deleteLineItem(id);
+    await deleteReceipt(existing?.receipt_uri);
+  };
+
+  // Manual category changes also teach the categorizer for future entries
+  const recategorizeLineItem = async (lineItem: LineItem, category: LineItemCategory): Promise<void> => {
+    await db.updateLineItem(lineItem.id, { category });
+    await db.learnCategoryRule(lineItem.title, category);
+  };
+
+  const getListingsByFlip = async (flipId: number): Promise<ListingWithPrices[]> => {
+    return await db.getListingsByFlip(flipId);
+  };
+
+  const addListing = async (
+    flipId: number,
+    platform: ListingPlatform,
+    listedAt: string,
+    askingPriceCents: number
+  ): Promise<number> => {
+    const flip = await db.getFlipById(flipId);
+    if (!flip) throw new Error('Flip not found');
+
+    const error = validateListing(flip, listedAt, askingPriceCents);
+    if (error) throw new ListingError(error);
+
+    return await db.addListing({ flip_id: flipId, platform, listed_at: listedAt }, askingPriceCents);
+  };
+
+  // Looks up the listing and its flip for validating a change to it
+  const getListingWithFlip = async (listingId: number) => {
+    const listing = await db.getListingById(listingId);
+    const flip = listing ? await db.getFlipById(listing.flip_id) : null;
+    if (!listing || !flip) throw new Error('Listing not found');
+    return { listing, flip };
+  };
+
+  const changeAskingPrice = async (listingId: number, priceCents: number, changedAt: string): Promise<void> => {
+    const { listing, flip } = await getListingWithFlip(listingId);
+    const error = validatePriceChange(flip, listing, priceCents, changedAt);
+    if (error) throw new ListingError(error);
+
+    await db.addListingPrice(listingId, priceCents, changedAt);
+  };
+
+  const deleteListingPrice = async (id: number): Promise<void> => {
+    await db.deleteListingPrice(id);
+  };
+
+  const endListing = async (listingId: number, endedAt: string | null): Promise<void> => {
+    if (endedAt) {
+      const { listing, flip } = await getListingWithFlip(listingId);
+      const error = validateListingEnd(flip, listing, endedAt);
+      if (error) throw new ListingError(error);
+    }
+    await db.endListing(listingId, endedAt);
+  };
+
+  const deleteListing = async (id: number): Promise<void> => {
+    await db.deleteListing(id);
+  };
+
+  const getCategoryRules = async (): Promise<CategoryRule[]> => {
+    return await db.getCategoryRules();
+  };
+
+  const addCategoryRule = async (keyword: string, category: LineItemCategory): Promise<number> => {
+    return await db.addCategoryRule(keyword, category);
+  };
+
+  const updateCategoryRule = async (id: number, rule: Partial<Pick<CategoryRule, 'keyword' | 'category'>>): Promise<void> => {
+    await db.updateCategoryRule(id, rule);
+  };
+
+  const deleteCategoryRule = async (id: number): Promise<void> => {
+    await db.deleteCategoryRule(id);
+  };
+
+  const previewUncategorized = async (): Promise<CategorizationProposal[]> => {
+    const [lineItems, rules] = await Promise.all([db.getUncategorizedLineItems(), db.getCategoryRules()]);
+    return previewRecategorization(lineItems, rules);
+  };
+
+  const applyCategorization = async (proposals: CategorizationProposal[]): Promise<void> => {
+    await db.setLineItemCategories(
+      proposals.map(({ lineItem, category }) => ({ id: lineItem.id, category }))
+    );
+  };
+
+  const previewImport = async (source: ImportSource): Promise<ImportPlan> => {
+    const [existingFlips, lineItems] = await Promise.all([db.getFlips(), db.getAllLineItems()]);
+    return buildImportPlan(source, { flips: existingFlips, lineItems });
+  };
+
+  const applyImport = async (plan: ImportPlan): Promise<ImportResult> => {
+    const result = await db.applyImport(plan);
+    await refreshFlips();
+    return result;
+  };
+
+  const createBackup = async (): Promise<BackupDocument> => {
+    return await createBackupDocument(await readSnapshot());
+  };
+
+  const restoreBackup = async (document: BackupDocument, mode: RestoreMode): Promise<RestoreSummary> => {
+    const previousReceipts = mode === 'replace'
+      ? (await db.getAllLineItems()).map(item => item.receipt_uri).filter(Boolean)
+      : [];
+
+    const summary = await restoreSnapshot(document.tables, mode);
+
+    // Replacing drops every current expense; remove receipt files nothing points to anymore
+    const restoredReceipts = new Set(document.tables.line_items.map(item => item.receipt_uri));
+    for (const receipt of previousReceipts) {
+      if (!restoredReceipts.has(receipt!)) {
+        await deleteReceipt(receipt);
+      }
+    }
+
+    await refreshFlips();
+    return summary;
+  };
+
+  const getExchangeRates = async (): Promise<ExchangeRate[]> => {
+    return await db.getExchangeRates();
+  };
+
+  const addExchangeRate = async (rate: Omit<ExchangeRate, 'id' | 'created_at' | 'updated_at'>): Promise<number> => {
+    return await db.addExchangeRate(rate);
+  };
+
+  const deleteExchangeRate = async (id: number): Promise<void> => {
+    await db.deleteExchangeRate(id);
   };
 
   const computeTotals = async (flipId: number): Promise<FlipTotals> => {
     return await db.computeTotals(flipId);
   };
 
+  const getFlipsWithTotals = async (): Promise<db.FlipWithTotals[]> => {
+    return await db.getFlipsWithTotals();
+  };
+
+  // Every flip with its expenses and totals, for exports, in two queries
+  const getFlipTaxEntries = async (): Promise<FlipTaxEntry[]> => {
+    const [flipsWithTotals, lineItems, history] = await Promise.all([
+      db.getFlipsWithTotals(),
+      db.getAllLineItems(),
+      db.getAllFlipStatusHistory(),
+    ]);
+    const lineItemsByFlip = new Map<number, LineItem[]>();
+    for (const item of lineItems) {
+      lineItemsByFlip.set(item.flip_id, [...(lineItemsByFlip.get(item.flip_id) ?? []), item]);
+    }
+    // The latest scrap wins, in case a flip was scrapped, revived and scrapped again
+    const scrappedAt = new Map<number, string>();
+    for (const change of history) {
+      if (change.status === 'scrapped') scrappedAt.set(change.flip_id, change.changed_at);
+    }
+    return flipsWithTotals.map(({ flip, totals }) => ({
+      flip,
+      lineItems: lineItemsByFlip.get(flip.id) ?? [],
+      totals,
+      scrappedAt: scrappedAt.get(flip.id),
+    }));
+  };
+
+  const queryFlips = async (query: FlipListQuery): Promise<db.FlipWithTotals[]> => {
+    return await flipList.queryFlips(query);
+  };
+
+  const searchLineItems = async (text: string): Promise<search.LineItemSearchResult> => {
+    return await search.searchLineItems(text);
+  };
+
+  const getPortfolioAnalytics = async (): Promise<PortfolioAnalytics> => {
+    return await analytics.getPortfolioAnalytics();
+  };
+
   const loadSampleData = async (): Promise<void> => {
-    // Create the sample flip: 2011 BMW 328i
+    const baseCurrency = await db.getBaseCurrency();
+
+    // Create the sample flip: 2011 BMW 328i, bought six weeks ago
+    const purchaseDate = new Date();
+    purchaseDate.setDate(purchaseDate.getDate() - 42);
     const flipId = await createFlip({
       year: 2011,
       make: 'BMW',
       model: '328i',
-      buy_price: 3500,
+      buy_price_cents: 350000,
       miles: 155000,
-      sell_price: 6200,
+      sell_price_cents: 620000,
+      currency: baseCurrency,
+      purchase_date: purchaseDate.toISOString(),
       sold_date: new Date().toISOString(),
     });
 
     // Add sample line items
     const sampleItems = [
-      { title: 'water pump', amount: 320, category: 'parts' as const },
-      { title: 'thermostat', amount: 95, category: 'parts' as const },
-      { title: 'OFHG', amount: 45, category: 'parts' as const },
-      { title: 'cooling system labor', amount: 350, category: 'labor' as const },
-      { title: 'title/tax', amount: 120, category: 'fees' as const },
-      { title: 'listing fees', amount: 100, category: 'fees' as const },
+      { title: 'water pump', amount_cents: 32000, category: 'parts' as const },
+      { title: 'thermostat', amount_cents: 9500, category: 'parts' as const },
+      { title: 'OFHG', amount_cents: 4500, category: 'parts' as const },
+      { title: 'cooling system labor', amount_cents: 35000, category: 'labor' as const },
+      { title: 'title/tax', amount_cents: 12000, category: 'fees' as const },
+      { title: 'listing fees', amount_cents: 10000, category: 'fees' as const },
     ];
 
     for (const item of sampleItems) {
       await addLineItem({
         flip_id: flipId,
         title: item.title,
-        amount: item.amount,
+        amount_cents: item.amount_cents,
+        currency: baseCurrency,
         category: item.category,
       });
     }
@@ -179,16 +476,48 @@ export const FlipsProvider: React.FC<FlipsProviderProps> = ({ children }) => {
   const contextValue: FlipsContextType = {
     flips,
     loading,
+    initError,
     createFlip,
     getFlipById,
     updateFlip,
+    getFlipStatusHistory,
+    recordSale,
+    reopenFlip,
     deleteFlip,
     duplicateFlip,
+    findDuplicateFlips,
+    getDuplicatePairs,
+    mergeFlips,
     addLineItem,
     getLineItemsByFlip,
     updateLineItem,
     deleteLineItem,
+    recategorizeLineItem,
+    getListingsByFlip,
+    addListing,
+    changeAskingPrice,
+    deleteListingPrice,
+    endListing,
+    deleteListing,
+    getCategoryRules,
+    addCategoryRule,
+    updateCategoryRule,
+    deleteCategoryRule,
+    previewUncategorized,
+    applyCategorization,
+    previewImport,
+    applyImport,
+    createBackup,
+    restoreBackup,
+    getExchangeRates,
+    addExchangeRate,
+    deleteExchangeRate,
     computeTotals,
+    getFlipsWithTotals,
+    getFlipTaxEntries,
+    queryFlips,
+    searchLineItems,
+    getPortfolioAnalytics,
     refreshFlips,
     loadSampleData,
   };
@@ -0,0 +1,115 @@
+import React, { createContext, useContext, useEffect, useRef, useState, ReactNode } from 'react';
+import { AppSettings, SettingKey } from '../types';
+import * as db from '../db/sqlite';
+import { useFlips } from './FlipsContext';
+import { DEFAULT_SETTINGS, parseSettings, serializeSetting, SETTING_KEYS } from '../utils/settings';
+import { setDisplayLocale } from '../utils/locale';
+
+export type SettingsListener = <K extends SettingKey>(key: K, value: AppSettings[K]) => void;
+
+interface SettingsContextType {
+  settings: AppSettings;
+  loading: boolean;
+
+  // Throws a SettingsError when the value doesn't pass validation
+  updateSetting: <K extends SettingKey>(key: K, value: AppSettings[K]) => Promise<void>;
+  resetSettings: () => Promise<void>;
+  // Re-reads the stored settings, e.g. after a backup is restored
+  reloadSettings: () => Promise<void>;
+
+  // Called once per changed key; returns an unsubscribe function
+  subscribe: (listener: SettingsListener) => () => void;
+}
+
+const SettingsContext = createContext<SettingsContextType | undefined>(undefined);
+
+export const useSettings = () => {
+  const context = useContext(SettingsContext);
+  if (context === undefined) {
+    throw new Error('useSettings must be used within a SettingsProvider');
+  }
+  return context;
+};
+
+interface SettingsProviderProps {
+  children: ReactNode;
+}
+
+// Settings live in the same database, so this sits inside FlipsProvider and
+// waits for it to finish opening and migrating before reading them
+export const SettingsProvider: React.FC<SettingsProviderProps> = ({ children }) => {
+  const { loading: databaseLoading, initError } = useFlips();
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
+  const [loading, setLoading] = useState(true);
+  const settingsRef = useRef(settings);
+  const listeners = useRef(new Set<SettingsListener>());
+
+  // Applies new values and tells subscribers about the keys that changed
+  const applySettings = (next: AppSettings) => {
+    const previous = settingsRef.current;
+    settingsRef.current = next;
+    setDisplayLocale(next.locale);
+    setSettings(next);
+
+    for (const key of SETTING_KEYS) {
+      if (previous[key] === next[key]) continue;
+      listeners.current.forEach(listener => listener(key, next[key]));
+    }
+  };
+
+  const reloadSettings = async () => {
+    applySettings(parseSettings(await db.getAppSettingRows()));
+  };
+
+  useEffect(() => {
+    if (databaseLoading) return;
+    if (initError) {
+      setLoading(false);
+      return;
+    }
+
+    const loadSettings = async () => {
+      try {
+        await reloadSettings();
+      } catch (error) {
+        console.error('Error loading settings:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSettings();
+  }, [databaseLoading, initError]);
+
+  const updateSetting = async <K extends SettingKey>(key: K, value: AppSettings[K]): Promise<void> => {
+    await db.setAppSetting(key, serializeSetting(key, value));
+    applySettings({ ...settingsRef.current, [key]: value });
+  };
+
+  const resetSettings = async (): Promise<void> => {
+    await db.clearAppSettings();
+    applySettings(DEFAULT_SETTINGS);
+  };
+
+  const subscribe = (listener: SettingsListener) => {
+    listeners.current.add(listener);
+    return () => {
+      listeners.current.delete(listener);
+    };
+  };
+
+  const contextValue: SettingsContextType = {
+    settings,
+    loading,
+    updateSetting,
+    resetSettings,
+    reloadSettings,
+    subscribe,
+  };
+
+  return (
+    <SettingsContext.Provider value={contextValue}>
+      {children}
+    </SettingsContext.Provider>
+  );
+};
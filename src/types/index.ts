@@ -1,3 +1,12 @@
+// ISO 4217 code, e.g. "USD"
+export type CurrencyCode = string;
+
+// Where a flip is in its life, in lifecycle order. Sold and scrapped flips
+// (scrapped includes parted out) are closed.
+export type FlipStatus = 'prospect' | 'purchased' | 'in_repair' | 'listed' | 'sale_pending' | 'sold' | 'scrapped';
+
+export type PaymentMethod = 'cash' | 'check' | 'bank_transfer' | 'cashiers_check' | 'financing' | 'trade' | 'other';
+
 export interface Flip {
   id: number;
   year?: number;
@@ -5,33 +14,187 @@ export interface Flip {
   model?: string;
   vin?: string;
   miles?: number;
-  buy_price: number;
-  sell_price?: number;
+  // Money is stored as integer cents; format it with formatCurrency
+  buy_price_cents: number;
+  sell_price_cents?: number;
+  // Currency the car was bought and sold in
+  currency: CurrencyCode;
+  purchase_date?: string;
   sold_date?: string;
+  // Recorded with the sale
+  buyer?: string;
+  payment_method?: PaymentMethod;
+  sold_miles?: number;
+  status: FlipStatus;
+  created_at: string;
+  updated_at: string;
+}
+
+// What the sale dialog records. The price is in the flip's currency.
+export interface SaleDetails {
+  soldDate: string;
+  sellPriceCents: number;
+  buyer?: string;
+  paymentMethod?: PaymentMethod;
+  soldMiles?: number;
+}
+
+// A new flip's status is worked out from its dates unless given
+export type NewFlip = Omit<Flip, 'id' | 'status' | 'created_at' | 'updated_at'> & { status?: FlipStatus };
+
+// One row per status a flip has entered, kept in flip_status_history
+export interface FlipStatusChange {
+  id: number;
+  flip_id: number;
+  status: FlipStatus;
+  changed_at: string;
+  created_at: string;
+}
+
+export type ListingPlatform = 'marketplace' | 'craigslist' | 'auction' | 'consignment';
+
+// A car advertised on one platform. It's off the market once ended or once
+// the flip sells.
+export interface Listing {
+  id: number;
+  flip_id: number;
+  platform: ListingPlatform;
+  listed_at: string;
+  ended_at?: string;
   created_at: string;
   updated_at: string;
 }
 
+// Asking price from changed_at on, in the flip's currency. A listing's
+// earliest price is the one it opened at.
+export interface ListingPrice {
+  id: number;
+  listing_id: number;
+  price_cents: number;
+  changed_at: string;
+  created_at: string;
+}
+
+// Prices oldest first
+export interface ListingWithPrices extends Listing {
+  prices: ListingPrice[];
+}
+
+export type LineItemCategory = 'parts' | 'labor' | 'fees' | 'misc';
+
 export interface LineItem {
   id: number;
   flip_id: number;
   title: string;
-  amount: number;
-  category?: 'parts' | 'labor' | 'fees' | 'misc';
+  amount_cents: number;
+  currency: CurrencyCode;
+  category?: LineItemCategory;
   date?: string;
+  receipt_uri?: string;
   created_at: string;
   updated_at: string;
 }
 
+// Every amount here is converted to the base reporting currency at the rate
+// in effect on the transaction's date
 export interface FlipTotals {
-  totalCost: number;
-  profit: number;
+  currency: CurrencyCode;
+  buyPriceCents: number;
+  sellPriceCents?: number;
+  // Sum of the flip's expenses, excluding the buy price
+  totalCostCents: number;
+  profitCents: number;
   roi: number;
+  // Converted amount of each expense, by line item ID
+  lineItemCents: Record<number, number>;
+  // Currencies with no exchange rate to the base currency. Amounts in them
+  // are left out of the totals above.
+  missingRates: CurrencyCode[];
+}
+
+export interface ExchangeRate {
+  id: number;
+  // One unit of from_currency is worth `rate` units of to_currency
+  from_currency: CurrencyCode;
+  to_currency: CurrencyCode;
+  rate: number;
+  effective_date: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Which year the tax report picker starts on
+export type TaxYearDefault = 'current' | 'previous';
+
+export type FlipSortField = 'created' | 'profit' | 'roi' | 'days_held' | 'buy_price' | 'sold_date';
+
+export type SortDirection = 'asc' | 'desc';
+
+// Filters and sort order for the Home list. Amounts are cents of the base
+// currency and ROI is a fraction; null leaves that bound open.
+export interface FlipListFilters {
+  minProfitCents: number | null;
+  maxProfitCents: number | null;
+  minRoi: number | null;
+  maxRoi: number | null;
+  // Purchase date on the Open tab, sale date on the Closed tab
+  fromDate: string | null;
+  toDate: string | null;
+  // Minimum spent on expenses in the category
+  spendCategory: LineItemCategory | null;
+  minCategorySpendCents: number | null;
+  sortBy: FlipSortField;
+  sortDirection: SortDirection;
+}
+
+export type FlipListTab = 'open' | 'closed';
+
+export interface FlipListQuery {
+  tab: FlipListTab;
+  // Narrows the tab to one status
+  status: FlipStatus | null;
+  // Words matched against year, make, model and VIN
+  search: string;
+  filters: FlipListFilters;
+}
+
+// Preferences kept in the app_settings table, one row per key
+export interface AppSettings {
+  // BCP 47 tag used to format amounts, percentages and dates
+  locale: string;
+  base_currency: CurrencyCode;
+  // Category for new expenses no rule matches; null leaves them uncategorized
+  default_category: LineItemCategory | null;
+  tax_year_default: TaxYearDefault;
+  // Fraction of net gains reports estimate as tax owed; 0 leaves it out
+  estimated_tax_rate: number;
+  // List every expense in tax reports, or only the category totals
+  report_itemize_expenses: boolean;
+  // Last filters chosen on the Home list
+  flip_list_filters: FlipListFilters;
 }
 
+export type SettingKey = keyof AppSettings;
+
 
 export interface ParsedLineItem {
-  amount: number;
+  amountCents: number;
   title: string;
 }
 
+export type CategoryRuleSource = 'default' | 'user' | 'learned';
+
+export interface CategoryRule {
+  id: number;
+  keyword: string;
+  category: LineItemCategory;
+  source: CategoryRuleSource;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CategorizationProposal {
+  lineItem: LineItem;
+  category: LineItemCategory;
+  rule: CategoryRule;
+}
@@ -0,0 +1,135 @@
+import { CurrencyCode, Flip, LineItem, LineItemCategory } from '../../types';
+import { computeFlipTotals } from '../exchangeRates';
+import { setDisplayLocale } from '../locale';
+import { FlipTaxEntry, generateAllFlipsTaxReportPDF, generateTaxReportPDF } from '../taxExport';
+import { buildAllFlipsTaxData } from '../taxYear';
+
+// Reports must come out byte for byte the same for the same input, so every
+// timestamp below is fixed and the snapshots hold the whole file
+const GENERATED_AT = '2025-02-15T12:00:00.000Z';
+const CURRENCY: CurrencyCode = 'USD';
+
+const createFlip = (id: number, fields: Partial<Flip>): Flip => ({
+  id,
+  buy_price_cents: 0,
+  currency: CURRENCY,
+  status: 'purchased',
+  created_at: '2024-01-02T12:00:00.000Z',
+  updated_at: '2024-01-02T12:00:00.000Z',
+  ...fields,
+});
+
+let nextLineItemId = 1;
+
+const createLineItem = (flipId: number, title: string, amountCents: number, category: LineItemCategory, date: string): LineItem => ({
+  id: nextLineItemId++,
+  flip_id: flipId,
+  title,
+  amount_cents: amountCents,
+  currency: CURRENCY,
+  category,
+  date,
+  created_at: date,
+  updated_at: date,
+});
+
+const createEntry = (flip: Flip, lineItems: LineItem[]): FlipTaxEntry => ({
+  flip,
+  lineItems,
+  totals: computeFlipTotals(flip, lineItems, [], CURRENCY),
+});
+
+const civic = createFlip(1, {
+  year: 2012,
+  make: 'Honda',
+  model: 'Civic',
+  vin: '2HGFB2F59CH512345',
+  miles: 142000,
+  buy_price_cents: 350000,
+  sell_price_cents: 610000,
+  purchase_date: '2024-03-04T12:00:00.000Z',
+  sold_date: '2024-05-20T12:00:00.000Z',
+  status: 'sold',
+  buyer: 'J. Smith',
+  payment_method: 'cash',
+  sold_miles: 142310,
+});
+
+const civicItems = [
+  createLineItem(1, 'Water pump and thermostat', 18999, 'parts', '2024-03-10T12:00:00.000Z'),
+  createLineItem(1, 'Labor at the corner shop for the water pump, thermostat and a coolant flush', 32000, 'labor', '2024-03-12T12:00:00.000Z'),
+  createLineItem(1, 'Title transfer', 9500, 'fees', '2024-03-05T12:00:00.000Z'),
+  createLineItem(1, 'Detail', 12000, 'misc', '2024-05-01T12:00:00.000Z'),
+];
+
+// Held over two tax years, with enough expenses to run onto more pages
+const tacoma = createFlip(2, {
+  year: 2008,
+  make: 'Toyota',
+  model: 'Tacoma',
+  miles: 201500,
+  buy_price_cents: 900000,
+  sell_price_cents: 820000,
+  purchase_date: '2023-02-01T12:00:00.000Z',
+  sold_date: '2024-08-30T12:00:00.000Z',
+  status: 'sold',
+});
+
+const tacomaItems = Array.from({ length: 40 }, (_, index) => createLineItem(
+  2,
+  `Part ${index + 1}`,
+  1000 + index * 125,
+  index % 2 === 0 ? 'parts' : 'labor',
+  `2023-${String((index % 12) + 1).padStart(2, '0')}-15T12:00:00.000Z`
+));
+
+const unsold = createFlip(3, {
+  year: 2015,
+  make: 'Ford',
+  model: 'F-150',
+  buy_price_cents: 1500000,
+  purchase_date: '2024-11-10T12:00:00.000Z',
+  status: 'listed',
+});
+
+const unsoldItems = [createLineItem(3, 'Tires', 64000, 'parts', '2024-11-20T12:00:00.000Z')];
+
+const toText = (bytes: Uint8Array): string => String.fromCharCode(...bytes);
+
+describe('tax report PDFs', () => {
+  beforeAll(() => {
+    setDisplayLocale('en-US');
+  });
+
+  it('renders the single-flip report', async () => {
+    const data = { ...createEntry(civic, civicItems), taxYear: 2024, generatedAt: GENERATED_AT };
+
+    const bytes = await generateTaxReportPDF(data);
+
+    expect(await generateTaxReportPDF(data)).toEqual(bytes);
+    expect(toText(bytes)).toMatchSnapshot();
+  });
+
+  it('renders the single-flip report with expenses summed by category', async () => {
+    const data = { ...createEntry(civic, civicItems), taxYear: 2024, generatedAt: GENERATED_AT };
+
+    const bytes = await generateTaxReportPDF(data, { estimatedTaxRate: 0.22, itemizeExpenses: false });
+
+    expect(toText(bytes)).toMatchSnapshot();
+  });
+
+  it('renders the all-flips report', async () => {
+    const entries = [
+      createEntry(civic, civicItems),
+      createEntry(tacoma, tacomaItems),
+      createEntry(unsold, unsoldItems),
+    ];
+    const data = buildAllFlipsTaxData(entries, 2024, CURRENCY, GENERATED_AT);
+
+    const bytes = await generateAllFlipsTaxReportPDF(data);
+
+    expect(await generateAllFlipsTaxReportPDF(data)).toEqual(bytes);
+    expect(toText(bytes)).toMatch(/\/Count [2-9]/);
+    expect(toText(bytes)).toMatchSnapshot();
+  });
+});
@@ -0,0 +1,248 @@
+import * as Crypto from 'expo-crypto';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { RestoreSummary, SNAPSHOT_TABLES, Snapshot, SnapshotRow, SnapshotTables, SnapshotValue } from '../db/snapshot';
+import { encryptText, ENCRYPTED_FILE_EXTENSION } from './encryption';
+import { dollarsToCents } from './currency';
+import { inferFlipStatus } from './flipStatus';
+
+export const BACKUP_FORMAT = 'fliptrackr-backup';
+
+// Bump when the document layout or the meaning of stored values changes, and
+// add an upgrade step to BACKUP_UPGRADES for the previous version.
+export const BACKUP_VERSION = 2;
+
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+export interface BackupDocument {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  // Database schema version the rows were read from
+  schemaVersion: number;
+  createdAt: string;
+  // SHA-256 of the serialized tables
+  checksum: string;
+  tables: SnapshotTables;
+}
+
+// Replaces a REAL dollar column with its integer cents equivalent
+const convertToCents = (row: SnapshotRow, from: string, to: string): SnapshotRow => {
+  const { [from]: dollars, ...rest } = row;
+  return { ...rest, [to]: typeof dollars === 'number' ? dollarsToCents(dollars) : null };
+};
+
+// Upgrades a document from the keyed version to the next one
+const BACKUP_UPGRADES: Record<number, (document: BackupDocument) => BackupDocument> = {
+  // Version 2 stores money as integer cents
+  1: document => ({
+    ...document,
+    version: 2,
+    tables: {
+      ...document.tables,
+      flips: document.tables.flips.map(flip =>
+        convertToCents(convertToCents(flip, 'buy_price', 'buy_price_cents'), 'sell_price', 'sell_price_cents')
+      ),
+      line_items: document.tables.line_items.map(item => convertToCents(item, 'amount', 'amount_cents')),
+    },
+  }),
+};
+
+// Rows read from an older schema lack columns later migrations added. Fill in
+// the values those migrations would have backfilled.
+const upgradeRows = (tables: SnapshotTables, schemaVersion: number): SnapshotTables => {
+  let upgraded = tables;
+
+  if (schemaVersion < 4) {
+    upgraded = {
+      ...upgraded,
+      flips: upgraded.flips.map(flip => ({ ...flip, purchase_date: flip.purchase_date ?? flip.created_at })),
+    };
+  }
+
+  if (schemaVersion < 8) {
+    const history: SnapshotRow[] = [];
+    for (const flip of upgraded.flips) {
+      const change = (status: string, changedAt: SnapshotValue): SnapshotRow =>
+        ({ id: history.length + 1, flip_id: flip.id, status, changed_at: changedAt, created_at: flip.created_at });
+
+      history.push(change('purchased', flip.purchase_date ?? flip.created_at));
+      if (flip.sold_date) {
+        history.push(change('sold', flip.sold_date));
+      }
+    }
+    upgraded = {
+      ...upgraded,
+      flips: upgraded.flips.map(flip => ({ ...flip, status: inferFlipStatus(flip.sold_date as string | null) })),
+      flip_status_history: history,
+    };
+  }
+
+  return upgraded;
+};
+
+const computeChecksum = async (tables: SnapshotTables): Promise<string> => {
+  return await Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, JSON.stringify(tables));
+};
+
+export const createBackupDocument = async (snapshot: Snapshot): Promise<BackupDocument> => {
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    schemaVersion: snapshot.schemaVersion,
+    createdAt: new Date().toISOString(),
+    checksum: await computeChecksum(snapshot.tables),
+    tables: snapshot.tables,
+  };
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isValidRow = (row: unknown): row is SnapshotRow => {
+  if (!isObject(row) || typeof row.id !== 'number') return false;
+  return Object.values(row).every(value => value === null || typeof value === 'string' || typeof value === 'number');
+};
+
+const validateTables = (tables: unknown): SnapshotTables => {
+  if (!isObject(tables)) {
+    throw new BackupError('The backup contains no data');
+  }
+
+  const result = {} as SnapshotTables;
+  for (const table of SNAPSHOT_TABLES) {
+    // Tables added after the backup was made are simply empty
+    const rows = tables[table] ?? [];
+    if (!Array.isArray(rows) || !rows.every(isValidRow)) {
+      throw new BackupError(`The backup's ${table} data is malformed`);
+    }
+    result[table] = rows;
+  }
+
+  // Version 1 backups still have the dollar columns; they're converted after validation
+  if (result.flips.some(flip => typeof (flip.buy_price_cents ?? flip.buy_price) !== 'number')) {
+    throw new BackupError('The backup contains flips without a buy price');
+  }
+  const flipIds = new Set(result.flips.map(flip => flip.id));
+  if (result.line_items.some(item => !flipIds.has(item.flip_id))) {
+    throw new BackupError('The backup contains expenses that belong to no flip');
+  }
+  if (result.flip_status_history.some(change => !flipIds.has(change.flip_id))) {
+    throw new BackupError('The backup contains status changes that belong to no flip');
+  }
+  if (result.listings.some(listing => !flipIds.has(listing.flip_id))) {
+    throw new BackupError('The backup contains listings that belong to no flip');
+  }
+  const listingIds = new Set(result.listings.map(listing => listing.id));
+  if (result.listing_prices.some(price => !listingIds.has(price.listing_id))) {
+    throw new BackupError('The backup contains asking prices that belong to no listing');
+  }
+
+  return result;
+};
+
+// Validates a backup file, verifies its checksum and upgrades it to the
+// current backup version.
+export const parseBackup = async (text: string): Promise<BackupDocument> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new BackupError('This file is not a FlipTrackr backup');
+  }
+
+  if (!isObject(parsed) || parsed.format !== BACKUP_FORMAT) {
+    throw new BackupError('This file is not a FlipTrackr backup');
+  }
+  if (typeof parsed.version !== 'number' || typeof parsed.schemaVersion !== 'number') {
+    throw new BackupError('The backup is missing its version');
+  }
+  if (parsed.version > BACKUP_VERSION) {
+    throw new BackupError('This backup was made by a newer version of FlipTrackr. Update the app to restore it.');
+  }
+
+  const tables = validateTables(parsed.tables);
+  if (parsed.checksum !== (await computeChecksum(parsed.tables as SnapshotTables))) {
+    throw new BackupError('The backup file is damaged: its checksum does not match');
+  }
+
+  let document: BackupDocument = {
+    format: BACKUP_FORMAT,
+    version: parsed.version,
+    schemaVersion: parsed.schemaVersion,
+    createdAt: typeof parsed.createdAt === 'string' ? parsed.createdAt : '',
+    checksum: parsed.checksum,
+    tables,
+  };
+
+  while (document.version < BACKUP_VERSION) {
+    const upgrade = BACKUP_UPGRADES[document.version];
+    if (!upgrade) {
+      throw new BackupError(`Backup version ${document.version} is no longer supported`);
+    }
+    document = upgrade(document);
+  }
+
+  return { ...document, tables: upgradeRows(document.tables, document.schemaVersion) };
+};
+
+// With a passphrase the backup is written as an encrypted envelope instead
+export const shareBackup = async (document: BackupDocument, passphrase?: string): Promise<string> => {
+  const json = JSON.stringify(document);
+  const content = passphrase ? await encryptText(json, passphrase, 'application/json') : json;
+  const fileName = `FlipTrackr_Backup_${document.createdAt.slice(0, 10)}.json${passphrase ? ENCRYPTED_FILE_EXTENSION : ''}`;
+  const fileUri = `${FileSystem.documentDirectory}${fileName}`;
+
+  await FileSystem.writeAsStringAsync(fileUri, content, {
+    encoding: FileSystem.EncodingType.UTF8,
+  });
+
+  if (await Sharing.isAvailableAsync()) {
+    await Sharing.shareAsync(fileUri, {
+      mimeType: passphrase ? 'application/octet-stream' : 'application/json',
+      UTI: passphrase ? 'public.data' : 'public.json',
+      dialogTitle: 'Save FlipTrackr Backup',
+    });
+  }
+
+  return fileUri;
+};
+
+// Returns the picked file's contents, or null if the user cancelled
+export const pickBackupFile = async (): Promise<string | null> => {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: ['application/json', 'text/plain', '*/*'],
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled || result.assets.length === 0) return null;
+
+  return await FileSystem.readAsStringAsync(result.assets[0].uri, { encoding: FileSystem.EncodingType.UTF8 });
+};
+
+const TABLE_LABELS: Record<keyof RestoreSummary, string> = {
+  flips: 'Flips',
+  line_items: 'Expenses',
+  flip_status_history: 'Status changes',
+  listings: 'Listings',
+  listing_prices: 'Asking prices',
+  category_rules: 'Category rules',
+  exchange_rates: 'Exchange rates',
+  app_settings: 'Settings',
+};
+
+export const describeRestoreSummary = (summary: RestoreSummary): string => {
+  return SNAPSHOT_TABLES.map(table => {
+    const { added, updated, unchanged, removed } = summary[table];
+    const parts = [`${added} added`];
+    if (updated) parts.push(`${updated} updated`);
+    if (unchanged) parts.push(`${unchanged} unchanged`);
+    if (removed) parts.push(`${removed} removed`);
+    return `${TABLE_LABELS[table]}: ${parts.join(', ')}`;
+  }).join('\n');
+};
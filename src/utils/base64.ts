@@ -0,0 +1,37 @@
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let output = '';
+
+  for (let i = 0; i < bytes.length; i += 3) {
+    const b0 = bytes[i];
+    const b1 = i + 1 < bytes.length ? bytes[i + 1] : 0;
+    const b2 = i + 2 < bytes.length ? bytes[i + 2] : 0;
+
+    output += ALPHABET[b0 >> 2];
+    output += ALPHABET[((b0 & 0x03) << 4) | (b1 >> 4)];
+    output += i + 1 < bytes.length ? ALPHABET[((b1 & 0x0f) << 2) | (b2 >> 6)] : '=';
+    output += i + 2 < bytes.length ? ALPHABET[b2 & 0x3f] : '=';
+  }
+
+  return output;
+};
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const cleaned = base64.replace(/[^A-Za-z0-9+/]/g, '');
+  const bytes = new Uint8Array(Math.floor((cleaned.length * 3) / 4));
+  let byteIndex = 0;
+
+  for (let i = 0; i < cleaned.length; i += 4) {
+    const c0 = ALPHABET.indexOf(cleaned[i]);
+    const c1 = ALPHABET.indexOf(cleaned[i + 1]);
+    const c2 = i + 2 < cleaned.length ? ALPHABET.indexOf(cleaned[i + 2]) : -1;
+    const c3 = i + 3 < cleaned.length ? ALPHABET.indexOf(cleaned[i + 3]) : -1;
+
+    bytes[byteIndex++] = (c0 << 2) | (c1 >> 4);
+    if (c2 >= 0) bytes[byteIndex++] = ((c1 & 0x0f) << 4) | (c2 >> 2);
+    if (c3 >= 0) bytes[byteIndex++] = ((c2 & 0x03) << 6) | c3;
+  }
+
+  return bytes.slice(0, byteIndex);
+};
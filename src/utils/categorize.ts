@@ -0,0 +1,71 @@
+import { CategoryRule, CategoryRuleSource, CategorizationProposal, LineItem, LineItemCategory } from '../types';
+
+export const LINE_ITEM_CATEGORIES: LineItemCategory[] = ['parts', 'labor', 'fees', 'misc'];
+
+export const CATEGORY_LABELS: Record<LineItemCategory, string> = {
+  parts: 'Parts',
+  labor: 'Labor',
+  fees: 'Fees',
+  misc: 'Misc',
+};
+
+// Learned rules come from the user's own corrections, so they beat anything
+// typed into the rules screen, which in turn beats the shipped defaults.
+const SOURCE_PRIORITY: Record<CategoryRuleSource, number> = {
+  learned: 3,
+  user: 2,
+  default: 1,
+};
+
+export const normalizeKeyword = (text: string): string => {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+};
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const keywordMatches = (normalizedTitle: string, keyword: string): boolean => {
+  const normalizedKeyword = normalizeKeyword(keyword);
+  if (!normalizedKeyword) return false;
+
+  // Match whole words, allowing a simple plural ("pump" matches "pumps")
+  const pattern = new RegExp(`(^| )${escapeRegExp(normalizedKeyword)}s?( |$)`);
+  return pattern.test(normalizedTitle);
+};
+
+// Returns the matching rule from the highest-priority source; among rules of
+// the same source the longest, most specific keyword wins.
+export const matchCategoryRule = (title: string, rules: CategoryRule[]): CategoryRule | null => {
+  const normalizedTitle = normalizeKeyword(title);
+  let best: CategoryRule | null = null;
+
+  for (const rule of rules) {
+    if (!keywordMatches(normalizedTitle, rule.keyword)) continue;
+
+    if (
+      !best ||
+      SOURCE_PRIORITY[rule.source] > SOURCE_PRIORITY[best.source] ||
+      (SOURCE_PRIORITY[rule.source] === SOURCE_PRIORITY[best.source] && rule.keyword.length > best.keyword.length)
+    ) {
+      best = rule;
+    }
+  }
+
+  return best;
+};
+
+export const suggestCategory = (title: string, rules: CategoryRule[]): LineItemCategory | undefined => {
+  return matchCategoryRule(title, rules)?.category;
+};
+
+export const previewRecategorization = (lineItems: LineItem[], rules: CategoryRule[]): CategorizationProposal[] => {
+  const proposals: CategorizationProposal[] = [];
+
+  for (const lineItem of lineItems) {
+    const rule = matchCategoryRule(lineItem.title, rules);
+    if (rule && rule.category !== lineItem.category) {
+      proposals.push({ lineItem, category: rule.category, rule });
+    }
+  }
+
+  return proposals;
+};
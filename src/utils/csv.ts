@@ -0,0 +1,164 @@
+// CSV serialization following RFC 4180: fields containing a delimiter, quote,
+// line break or surrounding whitespace are quoted, embedded quotes are doubled
+// and records end with CRLF.
+
+import { formatCentsAsDecimal } from './currency';
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+export interface CsvTable {
+  title?: string;
+  headers: string[];
+  rows: CsvValue[][];
+}
+
+export interface CsvOptions {
+  // Prepends a UTF-8 byte order mark so Excel detects the encoding
+  bom?: boolean;
+}
+
+const UTF8_BOM = '\uFEFF';
+const RECORD_SEPARATOR = '\r\n';
+
+// Numbers are written without grouping separators or currency symbols so every
+// spreadsheet locale parses them the same way.
+export const formatCsvNumber = (value: number | null | undefined, decimals?: number): string => {
+  if (value === null || value === undefined || !isFinite(value)) return '';
+  if (decimals === undefined) return String(value);
+
+  const fixed = value.toFixed(decimals);
+  // Avoid "-0.00" for values that round to zero
+  return Number(fixed) === 0 ? (0).toFixed(decimals) : fixed;
+};
+
+// Money in cents, written as decimal dollars
+export const formatCsvAmount = (cents: number | null | undefined): string => {
+  if (cents === null || cents === undefined || !isFinite(cents)) return '';
+  return formatCentsAsDecimal(cents);
+};
+
+// Calendar dates as YYYY-MM-DD in local time, matching how dates are entered
+export const formatCsvDate = (dateString?: string | null): string => {
+  if (!dateString) return '';
+  const date = new Date(dateString);
+  if (isNaN(date.getTime())) return '';
+
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export const escapeCsvField = (value: CsvValue): string => {
+  if (value === null || value === undefined) return '';
+
+  const text = typeof value === 'number' ? formatCsvNumber(value) : String(value);
+  if (/[",\r\n]/.test(text) || text !== text.trim()) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+};
+
+export const toCsvRecord = (values: CsvValue[]): string => values.map(escapeCsvField).join(',');
+
+export const serializeCsv = (records: CsvValue[][], options: CsvOptions = {}): string => {
+  const body = records.map(toCsvRecord).join(RECORD_SEPARATOR) + RECORD_SEPARATOR;
+  return options.bom ? UTF8_BOM + body : body;
+};
+
+// Writes several tables into one file. Each table gets a title row and a header
+// row and is separated from the next by an empty record. Every record is padded
+// to the widest table so strict parsers see a constant field count.
+export const serializeCsvTables = (tables: CsvTable[], options: CsvOptions = {}): string => {
+  const width = Math.max(1, ...tables.map(table => Math.max(table.headers.length, ...table.rows.map(row => row.length))));
+  const pad = (values: CsvValue[]): CsvValue[] => [...values, ...Array(width - values.length).fill('')];
+
+  const records: CsvValue[][] = [];
+  tables.forEach((table, index) => {
+    if (index > 0) records.push(pad([]));
+    if (table.title) records.push(pad([table.title]));
+    records.push(pad(table.headers));
+    table.rows.forEach(row => records.push(pad(row)));
+  });
+
+  return serializeCsv(records, options);
+};
+
+// Parses CSV text into records. Accepts CRLF or LF line endings, quoted fields
+// spanning lines and a leading byte order mark.
+export const parseCsv = (text: string): string[][] => {
+  const input = text.startsWith(UTF8_BOM) ? text.slice(1) : text;
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return records;
+};
+
+const isEmptyRecord = (record: string[]): boolean => record.every(value => value.trim() === '');
+
+// Reverses serializeCsvTables: splits records into tables at empty records and
+// drops the padding. A leading record with a single value is taken as the title.
+export const parseCsvTables = (text: string): CsvTable[] => {
+  const tables: CsvTable[] = [];
+  let block: string[][] = [];
+
+  const flush = () => {
+    if (block.length === 0) return;
+
+    const trimmed = block.map(record => {
+      let end = record.length;
+      while (end > 0 && record[end - 1].trim() === '') end--;
+      return record.slice(0, end);
+    });
+    const hasTitle = trimmed.length > 1 && trimmed[0].length === 1;
+    const [headers, ...rows] = hasTitle ? trimmed.slice(1) : trimmed;
+
+    tables.push({ title: hasTitle ? trimmed[0][0] : undefined, headers, rows });
+    block = [];
+  };
+
+  for (const record of parseCsv(text)) {
+    if (isEmptyRecord(record)) {
+      flush();
+    } else {
+      block.push(record);
+    }
+  }
+  flush();
+
+  return tables;
+};
@@ -0,0 +1,107 @@
+import { CurrencyCode, Flip, FlipTotals, LineItem } from '../types';
+import { CsvTable, formatCsvAmount, formatCsvDate, formatCsvNumber, serializeCsvTables } from './csv';
+import { FlipTaxEntry } from './taxExport';
+
+const FLIP_HEADERS = [
+  'Flip ID',
+  'Year',
+  'Make',
+  'Model',
+  'VIN',
+  'Miles',
+  'Purchase Date',
+  'Currency',
+  'Buy Price',
+  'Sell Price',
+  'Sold Date',
+  // Converted to the base currency from here on
+  'Buy Price (Base)',
+  'Sell Price (Base)',
+  'Total Expenses',
+  'Total Cost',
+  'Profit',
+  'ROI %',
+];
+
+const LINE_ITEM_HEADERS = [
+  'Line Item ID',
+  'Flip ID',
+  'Vehicle',
+  'Title',
+  'Amount',
+  'Currency',
+  'Amount (Base)',
+  'Category',
+  'Date',
+  'Receipt',
+];
+
+const getDisplayName = (flip: Flip): string => {
+  return [flip.year, flip.make, flip.model].filter(Boolean).join(' ') || 'Untitled Flip';
+};
+
+const toFlipRow = (flip: Flip, totals: FlipTotals) => [
+  flip.id,
+  flip.year ?? '',
+  flip.make ?? '',
+  flip.model ?? '',
+  flip.vin ?? '',
+  flip.miles ?? '',
+  formatCsvDate(flip.purchase_date),
+  flip.currency,
+  formatCsvAmount(flip.buy_price_cents),
+  formatCsvAmount(flip.sell_price_cents),
+  formatCsvDate(flip.sold_date),
+  totals.missingRates.includes(flip.currency) ? '' : formatCsvAmount(totals.buyPriceCents),
+  formatCsvAmount(totals.sellPriceCents),
+  formatCsvAmount(totals.totalCostCents),
+  formatCsvAmount(totals.buyPriceCents + totals.totalCostCents),
+  formatCsvAmount(totals.profitCents),
+  formatCsvNumber(totals.roi * 100, 1),
+];
+
+const toLineItemRow = (flip: Flip, item: LineItem, totals: FlipTotals) => [
+  item.id,
+  flip.id,
+  getDisplayName(flip),
+  item.title,
+  formatCsvAmount(item.amount_cents),
+  item.currency,
+  // Blank when there's no exchange rate for the expense's currency
+  formatCsvAmount(totals.lineItemCents[item.id]),
+  item.category ?? '',
+  formatCsvDate(item.date),
+  item.receipt_uri ? 'yes' : 'no',
+];
+
+const exportInfoTable = (description: string, baseCurrency: CurrencyCode, generatedAt: string): CsvTable => ({
+  title: 'FlipTrackr Export',
+  headers: ['Export', 'Generated', 'Base Currency'],
+  rows: [[description, generatedAt, baseCurrency]],
+});
+
+export const generateFlipCSV = (entry: FlipTaxEntry, generatedAt = new Date().toISOString()): string => {
+  const { flip, lineItems, totals } = entry;
+
+  return serializeCsvTables([
+    exportInfoTable(getDisplayName(flip), totals.currency, generatedAt),
+    { title: 'Vehicle', headers: FLIP_HEADERS, rows: [toFlipRow(flip, totals)] },
+    { title: 'Expenses', headers: LINE_ITEM_HEADERS, rows: lineItems.map(item => toLineItemRow(flip, item, totals)) },
+  ], { bom: true });
+};
+
+export const generateAllFlipsCSV = (
+  entries: FlipTaxEntry[],
+  baseCurrency: CurrencyCode,
+  generatedAt = new Date().toISOString()
+): string => {
+  return serializeCsvTables([
+    exportInfoTable('All Flips', baseCurrency, generatedAt),
+    { title: 'Flips', headers: FLIP_HEADERS, rows: entries.map(({ flip, totals }) => toFlipRow(flip, totals)) },
+    {
+      title: 'Line Items',
+      headers: LINE_ITEM_HEADERS,
+      rows: entries.flatMap(({ flip, lineItems, totals }) => lineItems.map(item => toLineItemRow(flip, item, totals))),
+    },
+  ], { bom: true });
+};
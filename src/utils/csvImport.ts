@@ -0,0 +1,545 @@
+import { CurrencyCode, Flip, LineItem, LineItemCategory } from '../types';
+import { parseCsv, parseCsvTables } from './csv';
+import { CATEGORY_LABELS, LINE_ITEM_CATEGORIES } from './categorize';
+import { parseCents } from './currency';
+import { normalizeVin } from './vin';
+
+export type FlipImportField =
+  | 'id'
+  | 'year'
+  | 'make'
+  | 'model'
+  | 'vin'
+  | 'miles'
+  | 'purchase_date'
+  | 'buy_price_cents'
+  | 'sell_price_cents'
+  | 'currency'
+  | 'sold_date';
+
+export type LineItemImportField = 'id' | 'flip_id' | 'vin' | 'title' | 'amount_cents' | 'currency' | 'category' | 'date';
+
+export interface ImportFieldDefinition<F extends string> {
+  field: F;
+  label: string;
+  // Header names recognized when suggesting a column mapping
+  aliases: string[];
+}
+
+export const FLIP_IMPORT_FIELDS: ImportFieldDefinition<FlipImportField>[] = [
+  { field: 'id', label: 'Flip ID', aliases: ['flip id', 'id'] },
+  { field: 'year', label: 'Year', aliases: ['year', 'model year'] },
+  { field: 'make', label: 'Make', aliases: ['make', 'manufacturer'] },
+  { field: 'model', label: 'Model', aliases: ['model'] },
+  { field: 'vin', label: 'VIN', aliases: ['vin', 'vin number'] },
+  { field: 'miles', label: 'Miles', aliases: ['miles', 'mileage', 'odometer'] },
+  { field: 'purchase_date', label: 'Purchase Date', aliases: ['purchase date', 'date purchased', 'buy date', 'date acquired', 'acquired', 'bought'] },
+  { field: 'buy_price_cents', label: 'Buy Price', aliases: ['buy price', 'purchase price', 'price paid', 'bought for'] },
+  { field: 'sell_price_cents', label: 'Sell Price', aliases: ['sell price', 'sale price', 'sold price', 'sold for', 'proceeds'] },
+  { field: 'currency', label: 'Currency', aliases: ['currency', 'currency code'] },
+  { field: 'sold_date', label: 'Sold Date', aliases: ['sold date', 'sale date', 'date sold'] },
+];
+
+export const LINE_ITEM_IMPORT_FIELDS: ImportFieldDefinition<LineItemImportField>[] = [
+  { field: 'id', label: 'Line Item ID', aliases: ['line item id', 'expense id'] },
+  { field: 'flip_id', label: 'Flip ID', aliases: ['flip id', 'flip'] },
+  { field: 'vin', label: 'VIN', aliases: ['vin', 'vin number'] },
+  { field: 'title', label: 'Title', aliases: ['title', 'description', 'item', 'expense'] },
+  { field: 'amount_cents', label: 'Amount', aliases: ['amount', 'cost', 'price', 'total'] },
+  { field: 'currency', label: 'Currency', aliases: ['currency', 'currency code'] },
+  { field: 'category', label: 'Category', aliases: ['category', 'type'] },
+  { field: 'date', label: 'Date', aliases: ['date', 'expense date'] },
+];
+
+// Column index for each mapped field
+export type ColumnMapping<F extends string> = Partial<Record<F, number>>;
+
+export interface ImportSheet {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface MappedSheet<F extends string> extends ImportSheet {
+  mapping: ColumnMapping<F>;
+}
+
+export type ImportRecordType = 'flips' | 'lineItems';
+
+export type ParsedImportFile =
+  // Layout written by the FlipTrackr CSV export
+  | { format: 'fliptrackr'; flips: ImportSheet; lineItems?: ImportSheet }
+  // Any other spreadsheet: one header row, one record per row
+  | { format: 'generic'; sheet: ImportSheet };
+
+export interface ImportSource {
+  flips?: MappedSheet<FlipImportField>;
+  lineItems?: MappedSheet<LineItemImportField>;
+}
+
+export type ImportAction = 'create' | 'update' | 'skip';
+
+export type FlipImportValues = Partial<Omit<Flip, 'id' | 'created_at' | 'updated_at'>>;
+
+export type LineItemImportValues = Partial<Pick<LineItem, 'title' | 'amount_cents' | 'currency' | 'category' | 'date'>>;
+
+export interface FlipImportRow {
+  // 1-based data row within the sheet
+  rowNumber: number;
+  action: ImportAction;
+  existingFlipId?: number;
+  matchedBy?: 'id' | 'vin';
+  // Only mapped columns are present, so updates leave other fields untouched
+  values: FlipImportValues;
+  errors: string[];
+}
+
+export interface LineItemImportRow {
+  rowNumber: number;
+  action: ImportAction;
+  // Parent flip: either a row of the same import, or an existing flip
+  flipRowIndex?: number;
+  existingFlipId?: number;
+  existingLineItemId?: number;
+  values: LineItemImportValues;
+  errors: string[];
+  // Why a valid row won't be imported
+  skipReason?: string;
+}
+
+export interface ImportPlan {
+  flips: FlipImportRow[];
+  lineItems: LineItemImportRow[];
+}
+
+export interface ImportResult {
+  flipsCreated: number;
+  flipsUpdated: number;
+  lineItemsCreated: number;
+  lineItemsUpdated: number;
+}
+
+const normalizeHeader = (header: string): string => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const hasHeaders = (headers: string[], required: string[]): boolean => {
+  const normalized = headers.map(normalizeHeader);
+  return required.every(header => normalized.includes(normalizeHeader(header)));
+};
+
+export const suggestColumnMapping = <F extends string>(
+  headers: string[],
+  fields: ImportFieldDefinition<F>[]
+): ColumnMapping<F> => {
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+  const mapping: ColumnMapping<F> = {};
+
+  for (const { field, aliases } of fields) {
+    for (const alias of aliases) {
+      const index = normalized.findIndex((header, i) => header === normalizeHeader(alias) && !used.has(i));
+      if (index >= 0) {
+        mapping[field] = index;
+        used.add(index);
+        break;
+      }
+    }
+  }
+
+  return mapping;
+};
+
+// Records whose mapping can import them: a buy price for flips, or a title and
+// amount for expenses
+export const suggestRecordType = (headers: string[]): ImportRecordType => {
+  const flipMapping = suggestColumnMapping(headers, FLIP_IMPORT_FIELDS);
+  const lineItemMapping = suggestColumnMapping(headers, LINE_ITEM_IMPORT_FIELDS);
+  const looksLikeExpenses = lineItemMapping.title !== undefined && lineItemMapping.amount_cents !== undefined;
+  return flipMapping.buy_price_cents === undefined && looksLikeExpenses ? 'lineItems' : 'flips';
+};
+
+export const parseImportFile = (text: string): ParsedImportFile => {
+  const tables = parseCsvTables(text);
+  const flipTable = tables.find(table => hasHeaders(table.headers, ['Flip ID', 'Buy Price']));
+
+  if (flipTable) {
+    const lineItemTable = tables.find(table => hasHeaders(table.headers, ['Flip ID', 'Title', 'Amount']));
+    const toSheet = (table: typeof flipTable): ImportSheet => ({
+      headers: table.headers,
+      rows: table.rows.map(row => row.map(value => String(value ?? ''))),
+    });
+    return {
+      format: 'fliptrackr',
+      flips: toSheet(flipTable),
+      lineItems: lineItemTable ? toSheet(lineItemTable) : undefined,
+    };
+  }
+
+  const records = parseCsv(text).filter(record => record.some(value => value.trim() !== ''));
+  const [headers = [], ...rows] = records;
+  return { format: 'generic', sheet: { headers, rows } };
+};
+
+// Accepts plain numbers as well as spreadsheet formatting such as "$1,234.50"
+// or "(250.00)" for negatives. Empty cells are null.
+export const parseImportNumber = (text: string): number | null | undefined => {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+
+  const negative = /^\(.*\)$/.test(trimmed);
+  const cleaned = trimmed.replace(/[()$,\s]/g, '');
+  if (!/^-?\d*\.?\d+$/.test(cleaned)) return undefined;
+
+  const value = Number(cleaned);
+  return negative ? -value : value;
+};
+
+// Like parseImportNumber, but parses money straight to integer cents
+export const parseImportAmount = (text: string): number | null | undefined => {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+
+  const negative = /^\(.*\)$/.test(trimmed);
+  const cents = parseCents(trimmed.replace(/[()]/g, ''));
+  if (cents === null) return undefined;
+  return negative ? -cents : cents;
+};
+
+// Three-letter ISO codes such as "cad". Empty cells are null.
+export const parseImportCurrency = (text: string): CurrencyCode | null | undefined => {
+  const trimmed = text.trim().toUpperCase();
+  if (!trimmed) return null;
+  return /^[A-Z]{3}$/.test(trimmed) ? trimmed : undefined;
+};
+
+// Accepts YYYY-MM-DD, MM/DD/YYYY (or MM/DD/YY) and full ISO timestamps.
+// Dates are stored at local noon like the ones picked in the app.
+export const parseImportDate = (text: string): string | null | undefined => {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+
+  let year: number;
+  let month: number;
+  let day: number;
+
+  const isoDate = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const usDate = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/);
+
+  if (isoDate) {
+    [year, month, day] = [Number(isoDate[1]), Number(isoDate[2]), Number(isoDate[3])];
+  } else if (usDate) {
+    const shortYear = Number(usDate[3]);
+    year = usDate[3].length === 2 ? (shortYear < 70 ? 2000 + shortYear : 1900 + shortYear) : shortYear;
+    [month, day] = [Number(usDate[1]), Number(usDate[2])];
+  } else if (/^\d{4}-\d{2}-\d{2}T/.test(trimmed)) {
+    const parsed = new Date(trimmed);
+    if (isNaN(parsed.getTime())) return undefined;
+    [year, month, day] = [parsed.getFullYear(), parsed.getMonth() + 1, parsed.getDate()];
+  } else {
+    return undefined;
+  }
+
+  const date = new Date(year, month - 1, day, 12);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return undefined;
+  }
+  return date.toISOString();
+};
+
+// Matches either the stored value ("parts") or its label ("Parts")
+export const parseImportCategory = (text: string): LineItemCategory | null | undefined => {
+  const trimmed = text.trim().toLowerCase();
+  if (!trimmed) return null;
+
+  return LINE_ITEM_CATEGORIES.find(
+    category => category === trimmed || CATEGORY_LABELS[category].toLowerCase() === trimmed
+  );
+};
+
+const getCell = <F extends string>(sheet: MappedSheet<F>, row: string[], field: F): string | undefined => {
+  const index = sheet.mapping[field];
+  return index === undefined ? undefined : (row[index] ?? '');
+};
+
+const parseFlipRow = (sheet: MappedSheet<FlipImportField>, row: string[]) => {
+  const values: FlipImportValues = {};
+  const errors: string[] = [];
+  let sourceId: number | undefined;
+
+  const read = (field: FlipImportField) => getCell(sheet, row, field);
+
+  const idText = read('id');
+  if (idText !== undefined && idText.trim()) {
+    const id = parseImportNumber(idText);
+    if (id === undefined || id === null || !Number.isInteger(id)) {
+      errors.push(`Flip ID "${idText}" is not a whole number`);
+    } else {
+      sourceId = id;
+    }
+  }
+
+  const yearText = read('year');
+  if (yearText !== undefined) {
+    const year = parseImportNumber(yearText);
+    const maxYear = new Date().getFullYear() + 2;
+    if (year === undefined || (year !== null && (!Number.isInteger(year) || year < 1900 || year > maxYear))) {
+      errors.push(`Year "${yearText}" is not a valid model year`);
+    } else {
+      values.year = year ?? undefined;
+    }
+  }
+
+  for (const field of ['make', 'model'] as const) {
+    const text = read(field);
+    if (text !== undefined) values[field] = text.trim() || undefined;
+  }
+
+  const vinText = read('vin');
+  if (vinText !== undefined) values.vin = normalizeVin(vinText) || undefined;
+
+  const milesText = read('miles');
+  if (milesText !== undefined) {
+    const miles = parseImportNumber(milesText);
+    if (miles === undefined || (miles !== null && miles < 0)) {
+      errors.push(`Miles "${milesText}" is not a valid number`);
+    } else {
+      values.miles = miles === null ? undefined : Math.round(miles);
+    }
+  }
+
+  for (const field of ['buy_price_cents', 'sell_price_cents'] as const) {
+    const text = read(field);
+    if (text === undefined) continue;
+    const amount = parseImportAmount(text);
+    if (amount === undefined || (amount !== null && amount < 0)) {
+      errors.push(`${field === 'buy_price_cents' ? 'Buy' : 'Sell'} price "${text}" is not a valid amount`);
+    } else {
+      values[field] = amount ?? undefined;
+    }
+  }
+
+  // Left unset when blank: a flip always has a currency
+  const currencyText = read('currency');
+  if (currencyText !== undefined) {
+    const currency = parseImportCurrency(currencyText);
+    if (currency === undefined) {
+      errors.push(`Currency "${currencyText}" is not a three-letter currency code`);
+    } else if (currency) {
+      values.currency = currency;
+    }
+  }
+
+  for (const field of ['purchase_date', 'sold_date'] as const) {
+    const text = read(field);
+    if (text === undefined) continue;
+    const date = parseImportDate(text);
+    if (date === undefined) {
+      errors.push(`${field === 'purchase_date' ? 'Purchase' : 'Sold'} date "${text}" is not a recognized date`);
+    } else {
+      values[field] = date ?? undefined;
+    }
+  }
+
+  return { values, errors, sourceId };
+};
+
+const parseLineItemRow = (sheet: MappedSheet<LineItemImportField>, row: string[]) => {
+  const values: LineItemImportValues = {};
+  const errors: string[] = [];
+  const read = (field: LineItemImportField) => getCell(sheet, row, field);
+
+  const toId = (text: string | undefined, label: string): number | undefined => {
+    if (text === undefined || !text.trim()) return undefined;
+    const id = parseImportNumber(text);
+    if (id === undefined || id === null || !Number.isInteger(id)) {
+      errors.push(`${label} "${text}" is not a whole number`);
+      return undefined;
+    }
+    return id;
+  };
+
+  const sourceId = toId(read('id'), 'Line item ID');
+  const flipSourceId = toId(read('flip_id'), 'Flip ID');
+  const vin = read('vin') ? normalizeVin(read('vin') as string) : undefined;
+
+  const title = (read('title') || '').trim();
+  if (!title) {
+    errors.push('Title is missing');
+  } else {
+    values.title = title;
+  }
+
+  const amountText = read('amount_cents') || '';
+  const amount = parseImportAmount(amountText);
+  if (amount === null) {
+    errors.push('Amount is missing');
+  } else if (amount === undefined) {
+    errors.push(`Amount "${amountText}" is not a valid amount`);
+  } else {
+    values.amount_cents = amount;
+  }
+
+  const currencyText = read('currency');
+  if (currencyText !== undefined) {
+    const currency = parseImportCurrency(currencyText);
+    if (currency === undefined) {
+      errors.push(`Currency "${currencyText}" is not a three-letter currency code`);
+    } else if (currency) {
+      values.currency = currency;
+    }
+  }
+
+  const categoryText = read('category');
+  if (categoryText !== undefined) {
+    const category = parseImportCategory(categoryText);
+    if (category === undefined) {
+      errors.push(`Unknown category "${categoryText}" (use ${LINE_ITEM_CATEGORIES.join(', ')})`);
+    } else {
+      values.category = category ?? undefined;
+    }
+  }
+
+  const dateText = read('date');
+  if (dateText !== undefined) {
+    const date = parseImportDate(dateText);
+    if (date === undefined) {
+      errors.push(`Date "${dateText}" is not a recognized date`);
+    } else {
+      values.date = date ?? undefined;
+    }
+  }
+
+  return { values, errors, sourceId, flipSourceId, vin };
+};
+
+const isSameDay = (a?: string, b?: string): boolean => {
+  if (!a || !b) return !a && !b;
+  return new Date(a).toDateString() === new Date(b).toDateString();
+};
+
+const isSameLineItem = (item: LineItem, values: LineItemImportValues): boolean => {
+  return (
+    item.title.trim().toLowerCase() === (values.title || '').toLowerCase() &&
+    item.amount_cents === values.amount_cents &&
+    (values.currency === undefined || item.currency === values.currency) &&
+    isSameDay(item.date, values.date)
+  );
+};
+
+// Dry run: validates every row and decides what importing it would do, without
+// touching the database. Flips that match an existing flip by VIN, or by ID
+// when the VINs don't disagree, are updated instead of duplicated.
+export const buildImportPlan = (
+  source: ImportSource,
+  existing: { flips: Flip[]; lineItems: LineItem[] }
+): ImportPlan => {
+  const flips: FlipImportRow[] = [];
+  const flipRowBySourceId = new Map<number, number>();
+  const flipRowByVin = new Map<string, number>();
+  const claimedFlipIds = new Map<number, number>();
+
+  source.flips?.rows.forEach((row, index) => {
+    const rowNumber = index + 1;
+    const { values, errors, sourceId } = parseFlipRow(source.flips!, row);
+
+    const byVin = values.vin
+      ? existing.flips.find(flip => flip.vin && normalizeVin(flip.vin) === values.vin)
+      : undefined;
+    const byId = !byVin && sourceId !== undefined
+      ? existing.flips.find(flip => flip.id === sourceId && (!flip.vin || !values.vin))
+      : undefined;
+    const match = byVin || byId;
+
+    if (values.vin && flipRowByVin.has(values.vin)) {
+      errors.push(`Same VIN as row ${flipRowByVin.get(values.vin)! + 1}`);
+    }
+    if (match && claimedFlipIds.has(match.id)) {
+      errors.push(`Matches the same flip as row ${claimedFlipIds.get(match.id)! + 1}`);
+    }
+    if (!match && values.buy_price_cents === undefined) {
+      errors.push('Buy price is required for new flips');
+    }
+    if (match && 'buy_price_cents' in values && values.buy_price_cents === undefined) {
+      errors.push('Buy price cannot be cleared');
+    }
+
+    if (sourceId !== undefined) flipRowBySourceId.set(sourceId, index);
+    if (values.vin && !flipRowByVin.has(values.vin)) flipRowByVin.set(values.vin, index);
+    if (match && !claimedFlipIds.has(match.id)) claimedFlipIds.set(match.id, index);
+
+    flips.push({
+      rowNumber,
+      action: errors.length > 0 ? 'skip' : match ? 'update' : 'create',
+      existingFlipId: match?.id,
+      matchedBy: match ? (byVin ? 'vin' : 'id') : undefined,
+      values,
+      errors,
+    });
+  });
+
+  const lineItems: LineItemImportRow[] = [];
+
+  source.lineItems?.rows.forEach((row, index) => {
+    const rowNumber = index + 1;
+    const { values, errors, sourceId, flipSourceId, vin } = parseLineItemRow(source.lineItems!, row);
+
+    // Resolve the parent flip, preferring rows of the same file
+    let flipRowIndex: number | undefined;
+    let existingFlipId: number | undefined;
+
+    if (flipSourceId !== undefined && flipRowBySourceId.has(flipSourceId)) {
+      flipRowIndex = flipRowBySourceId.get(flipSourceId);
+    } else if (vin && flipRowByVin.has(vin)) {
+      flipRowIndex = flipRowByVin.get(vin);
+    } else if (vin && existing.flips.some(flip => flip.vin && normalizeVin(flip.vin) === vin)) {
+      existingFlipId = existing.flips.find(flip => flip.vin && normalizeVin(flip.vin) === vin)!.id;
+    } else if (flipSourceId !== undefined && existing.flips.some(flip => flip.id === flipSourceId)) {
+      existingFlipId = flipSourceId;
+    } else {
+      errors.push('No flip matches this expense\'s Flip ID or VIN');
+    }
+
+    if (flipRowIndex !== undefined) {
+      const parent = flips[flipRowIndex];
+      if (parent.action === 'skip') {
+        errors.push(`Its flip (row ${parent.rowNumber}) has errors`);
+      }
+      existingFlipId = parent.existingFlipId;
+    }
+
+    // Expenses of flips that already exist are matched by ID, then by content,
+    // so importing the same export twice doesn't duplicate them
+    let existingLineItemId: number | undefined;
+    let skipReason: string | undefined;
+    if (errors.length === 0 && existingFlipId !== undefined) {
+      const flipLineItems = existing.lineItems.filter(item => item.flip_id === existingFlipId);
+      const byId = sourceId !== undefined ? flipLineItems.find(item => item.id === sourceId) : undefined;
+      if (byId) {
+        existingLineItemId = byId.id;
+      } else if (flipLineItems.some(item => isSameLineItem(item, values))) {
+        skipReason = 'Already recorded';
+      }
+    }
+
+    lineItems.push({
+      rowNumber,
+      action: errors.length > 0 || skipReason ? 'skip' : existingLineItemId !== undefined ? 'update' : 'create',
+      flipRowIndex,
+      existingFlipId,
+      existingLineItemId,
+      values,
+      errors,
+      skipReason,
+    });
+  });
+
+  return { flips, lineItems };
+};
+
+export const countImportActions = (plan: ImportPlan) => {
+  const rows = [...plan.flips, ...plan.lineItems];
+  return {
+    create: rows.filter(row => row.action === 'create').length,
+    update: rows.filter(row => row.action === 'update').length,
+    skip: rows.filter(row => row.action === 'skip').length,
+    errors: rows.filter(row => row.errors.length > 0).length,
+  };
+};
@@ -1,14 +1,55 @@
-export const formatCurrency = (amount: number): string => {
-  return new Intl.NumberFormat('en-US', {
+import { CurrencyCode } from '../types';
+import { getDisplayLocale } from './locale';
+
+// Money is handled as integer cents everywhere; these helpers are the only
+// place it is converted to or from dollars. "Cents" means hundredths of
+// whichever currency the amount is in.
+
+export const DEFAULT_CURRENCY: CurrencyCode = 'USD';
+
+export const SUPPORTED_CURRENCIES: CurrencyCode[] = ['USD', 'CAD', 'MXN', 'EUR', 'GBP', 'AUD'];
+
+export const formatCurrency = (cents: number, currency: CurrencyCode = DEFAULT_CURRENCY): string => {
+  return new Intl.NumberFormat(getDisplayLocale(), {
     style: 'currency',
-    currency: 'USD',
+    currency,
     minimumFractionDigits: 0,
     maximumFractionDigits: 2,
-  }).format(amount);
+  }).format(cents / 100);
+};
+
+// Plain decimal dollars for inputs and CSV, e.g. 123456 -> "1234.56". With
+// trimWholeDollars, whole amounts drop the ".00" so inputs read naturally.
+export const formatCentsAsDecimal = (cents: number, trimWholeDollars = false): string => {
+  const sign = cents < 0 ? '-' : '';
+  const absolute = Math.abs(Math.round(cents));
+  const dollars = Math.floor(absolute / 100);
+  const remainder = absolute % 100;
+
+  if (trimWholeDollars && remainder === 0) return `${sign}${dollars}`;
+  return `${sign}${dollars}.${String(remainder).padStart(2, '0')}`;
+};
+
+// Converts dollars that are already a number (e.g. from an older backup)
+export const dollarsToCents = (dollars: number): number => Math.round(dollars * 100);
+
+// Parses typed or imported amounts such as "1,234.5" or "$19.99" straight to
+// cents without going through floating point. Returns null when the text
+// isn't an amount; more than two decimals are rounded half up.
+export const parseCents = (text: string): number | null => {
+  const match = text.trim().replace(/[$,\s]/g, '').match(/^(-?)(\d*)(?:\.(\d*))?$/);
+  if (!match || (!match[2] && !match[3])) return null;
+
+  const [, sign, whole, fraction = ''] = match;
+  const padded = fraction.padEnd(3, '0');
+  let cents = Number(whole || '0') * 100 + Number(padded.slice(0, 2));
+  if (Number(padded[2]) >= 5) cents += 1;
+
+  return sign ? -cents : cents;
 };
 
 export const formatPercentage = (value: number): string => {
-  return new Intl.NumberFormat('en-US', {
+  return new Intl.NumberFormat(getDisplayLocale(), {
     style: 'percent',
     minimumFractionDigits: 1,
     maximumFractionDigits: 1,
@@ -16,5 +57,5 @@ export const formatPercentage = (value: number): string => {
 };
 
 export const formatNumber = (value: number): string => {
-  return new Intl.NumberFormat('en-US').format(value);
-};
\ No newline at end of file
+  return new Intl.NumberFormat(getDisplayLocale()).format(value);
+};
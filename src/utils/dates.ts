@@ -1,23 +1,69 @@
+import { getDisplayLocale } from './locale';
+
 export const formatDate = (dateString: string): string => {
   const date = new Date(dateString);
-  return date.toLocaleDateString('en-US', {
+  return date.toLocaleDateString(getDisplayLocale(), {
     year: 'numeric',
     month: 'short',
     day: 'numeric',
   });
 };
 
-export const getDaysToSell = (createdAt: string, soldDate?: string): number | null => {
-  if (!soldDate) return null;
+export const getDaysToSell = (purchaseDate?: string, soldDate?: string): number | null => {
+  if (!purchaseDate || !soldDate) return null;
   
-  const created = new Date(createdAt);
+  const purchased = new Date(purchaseDate);
   const sold = new Date(soldDate);
-  const diffTime = sold.getTime() - created.getTime();
+  const diffTime = sold.getTime() - purchased.getTime();
   const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
   
   return diffDays;
 };
 
+export const getDaysHeld = (purchaseDate?: string): number | null => {
+  return getDaysToSell(purchaseDate, getCurrentISOString());
+};
+
+export type HoldingTerm = 'short' | 'long';
+
+export interface HoldingPeriod {
+  term: HoldingTerm | null;
+  days: number | null;
+  // Why the term couldn't be determined, when term is null
+  issue?: string;
+}
+
+// Local midnight of the day the timestamp falls on
+export const toCalendarDate = (dateString: string): Date => {
+  const date = new Date(dateString);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+};
+
+// An asset is long-term when it is sold after the one-year anniversary of its
+// purchase, i.e. held for more than one year.
+export const getHoldingPeriod = (purchaseDate?: string, soldDate?: string): HoldingPeriod => {
+  if (!purchaseDate) {
+    return { term: null, days: null, issue: 'Purchase date missing' };
+  }
+  if (!soldDate) {
+    return { term: null, days: null, issue: 'Sale date missing' };
+  }
+
+  const purchased = toCalendarDate(purchaseDate);
+  const sold = toCalendarDate(soldDate);
+  if (isNaN(purchased.getTime()) || isNaN(sold.getTime())) {
+    return { term: null, days: null, issue: 'Invalid purchase or sale date' };
+  }
+  if (sold < purchased) {
+    return { term: null, days: null, issue: 'Sale date is before purchase date' };
+  }
+
+  const anniversary = new Date(purchased.getFullYear() + 1, purchased.getMonth(), purchased.getDate());
+  const days = Math.round((sold.getTime() - purchased.getTime()) / (1000 * 60 * 60 * 24));
+
+  return { term: sold > anniversary ? 'long' : 'short', days };
+};
+
 export const getCurrentISOString = (): string => {
   return new Date().toISOString();
 };
\ No newline at end of file
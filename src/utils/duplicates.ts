@@ -0,0 +1,106 @@
+import { Flip } from '../types';
+import { normalizeVin } from './vin';
+
+// Two flips of the same year/make/model are only flagged when their odometer
+// readings and purchase dates are this close
+export const DUPLICATE_MILES_TOLERANCE = 1000;
+export const DUPLICATE_DAYS_TOLERANCE = 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type DuplicateReason = 'vin' | 'vehicle';
+
+export type DuplicateCandidate = Pick<Flip, 'year' | 'make' | 'model' | 'vin' | 'miles' | 'purchase_date'>;
+
+export interface DuplicateMatch {
+  flip: Flip;
+  reason: DuplicateReason;
+}
+
+export interface DuplicatePair {
+  first: Flip;
+  second: Flip;
+  reason: DuplicateReason;
+}
+
+export interface FlipMergeResult {
+  lineItemsMoved: number;
+  // Exact copies of expenses the kept flip already had
+  lineItemsSkipped: number;
+  // Receipt files that belonged to the skipped copies
+  orphanedReceipts: string[];
+  // The merged flip's sale price wasn't copied because it's in another currency
+  sellPriceSkipped: boolean;
+  // The merged flip's sale wasn't carried over for lack of a price in the kept
+  // flip's currency
+  saleSkipped: boolean;
+}
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  vin: 'Same VIN',
+  vehicle: 'Same vehicle, similar miles and purchase date',
+};
+
+const normalizeText = (text?: string): string => (text ?? '').trim().toLowerCase();
+
+const isSameVehicle = (a: DuplicateCandidate, b: DuplicateCandidate): boolean => {
+  if (!a.year || !a.make || !a.model || a.year !== b.year) return false;
+  if (normalizeText(a.make) !== normalizeText(b.make) || normalizeText(a.model) !== normalizeText(b.model)) return false;
+
+  // Each known pair of values has to be close, and at least one has to be known;
+  // year/make/model alone matches every car of that model on the lot
+  let compared = false;
+
+  if (a.miles != null && b.miles != null) {
+    if (Math.abs(a.miles - b.miles) > DUPLICATE_MILES_TOLERANCE) return false;
+    compared = true;
+  }
+
+  if (a.purchase_date && b.purchase_date) {
+    const days = Math.abs(new Date(a.purchase_date).getTime() - new Date(b.purchase_date).getTime()) / DAY_MS;
+    if (days > DUPLICATE_DAYS_TOLERANCE) return false;
+    compared = true;
+  }
+
+  return compared;
+};
+
+export const getDuplicateReason = (a: DuplicateCandidate, b: DuplicateCandidate): DuplicateReason | null => {
+  const vinA = normalizeVin(a.vin ?? '');
+  const vinB = normalizeVin(b.vin ?? '');
+
+  if (vinA && vinB) {
+    // Different VINs are different cars, however alike they look
+    return vinA === vinB ? 'vin' : null;
+  }
+  return isSameVehicle(a, b) ? 'vehicle' : null;
+};
+
+// Existing flips that look like the same car as the candidate. Pass the
+// candidate's own ID when it's already saved so it doesn't match itself.
+export const findDuplicatesOf = (candidate: DuplicateCandidate, flips: Flip[], excludeId?: number): DuplicateMatch[] => {
+  const matches: DuplicateMatch[] = [];
+
+  for (const flip of flips) {
+    if (flip.id === excludeId) continue;
+    const reason = getDuplicateReason(candidate, flip);
+    if (reason) matches.push({ flip, reason });
+  }
+
+  // VIN matches are certain, so list them first
+  return matches.sort((a, b) => (a.reason === b.reason ? 0 : a.reason === 'vin' ? -1 : 1));
+};
+
+export const findDuplicatePairs = (flips: Flip[]): DuplicatePair[] => {
+  const pairs: DuplicatePair[] = [];
+  const sorted = [...flips].sort((a, b) => a.id - b.id);
+
+  for (let i = 0; i < sorted.length; i++) {
+    for (let j = i + 1; j < sorted.length; j++) {
+      const reason = getDuplicateReason(sorted[i], sorted[j]);
+      if (reason) pairs.push({ first: sorted[i], second: sorted[j], reason });
+    }
+  }
+
+  return pairs.sort((a, b) => (a.reason === b.reason ? 0 : a.reason === 'vin' ? -1 : 1));
+};
@@ -0,0 +1,104 @@
+import { CurrencyCode, ExchangeRate, Flip, FlipTotals, LineItem } from '../types';
+
+interface RateCandidate {
+  rate: number;
+  time: number;
+  direct: boolean;
+}
+
+const getCandidates = (rates: ExchangeRate[], from: CurrencyCode, to: CurrencyCode): RateCandidate[] => {
+  const candidates: RateCandidate[] = [];
+
+  for (const rate of rates) {
+    if (!(rate.rate > 0)) continue;
+    const time = new Date(rate.effective_date).getTime();
+    if (rate.from_currency === from && rate.to_currency === to) {
+      candidates.push({ rate: rate.rate, time, direct: true });
+    } else if (rate.from_currency === to && rate.to_currency === from) {
+      // A CAD -> USD rate works just as well for USD -> CAD
+      candidates.push({ rate: 1 / rate.rate, time, direct: false });
+    }
+  }
+
+  // Newest first; on the same day a rate entered for this direction wins
+  return candidates.sort((a, b) => b.time - a.time || Number(b.direct) - Number(a.direct));
+};
+
+// The rate in effect on the given date: the latest one on or before it. Dates
+// before the first rate use the earliest rate rather than failing. Returns
+// null when the two currencies have no rate between them at all.
+export const findExchangeRate = (
+  rates: ExchangeRate[],
+  from: CurrencyCode,
+  to: CurrencyCode,
+  date?: string
+): number | null => {
+  if (from === to) return 1;
+
+  const candidates = getCandidates(rates, from, to);
+  if (candidates.length === 0) return null;
+  if (!date) return candidates[0].rate;
+
+  const time = new Date(date).getTime();
+  const effective = candidates.find(candidate => candidate.time <= time);
+  return (effective ?? candidates[candidates.length - 1]).rate;
+};
+
+export const convertCents = (
+  cents: number,
+  from: CurrencyCode,
+  to: CurrencyCode,
+  rates: ExchangeRate[],
+  date?: string
+): number | null => {
+  const rate = findExchangeRate(rates, from, to, date);
+  return rate === null ? null : Math.round(cents * rate);
+};
+
+// Totals in the base currency. The buy price converts at the purchase date,
+// the sale at the sold date and each expense at its own date; amounts with no
+// rate are left out and their currency reported in missingRates.
+export const computeFlipTotals = (
+  flip: Flip,
+  lineItems: LineItem[],
+  rates: ExchangeRate[],
+  baseCurrency: CurrencyCode
+): FlipTotals => {
+  const missing = new Set<CurrencyCode>();
+
+  const convert = (cents: number, currency: CurrencyCode, date?: string): number | null => {
+    const converted = convertCents(cents, currency, baseCurrency, rates, date);
+    if (converted === null) missing.add(currency);
+    return converted;
+  };
+
+  const buyPriceCents = convert(flip.buy_price_cents, flip.currency, flip.purchase_date ?? flip.created_at) ?? 0;
+  const sellPriceCents = flip.sell_price_cents != null
+    ? convert(flip.sell_price_cents, flip.currency, flip.sold_date ?? new Date().toISOString()) ?? undefined
+    : undefined;
+
+  const lineItemCents: Record<number, number> = {};
+  let totalCostCents = 0;
+  for (const item of lineItems) {
+    const converted = convert(item.amount_cents, item.currency, item.date ?? item.created_at);
+    if (converted === null) continue;
+    lineItemCents[item.id] = converted;
+    totalCostCents += converted;
+  }
+
+  // Integer cents, so the sums are exact however many expenses there are
+  const investedCents = buyPriceCents + totalCostCents;
+  const profitCents = (sellPriceCents || 0) - investedCents;
+  const roi = investedCents > 0 ? profitCents / investedCents : 0;
+
+  return {
+    currency: baseCurrency,
+    buyPriceCents,
+    sellPriceCents,
+    totalCostCents,
+    profitCents,
+    roi,
+    lineItemCents,
+    missingRates: [...missing],
+  };
+};
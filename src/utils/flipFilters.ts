@@ -0,0 +1,66 @@
+import { FlipListFilters, FlipSortField, SortDirection } from '../types';
+import { LINE_ITEM_CATEGORIES } from './categorize';
+
+export const DEFAULT_FLIP_LIST_FILTERS: FlipListFilters = {
+  minProfitCents: null,
+  maxProfitCents: null,
+  minRoi: null,
+  maxRoi: null,
+  fromDate: null,
+  toDate: null,
+  spendCategory: null,
+  minCategorySpendCents: null,
+  sortBy: 'created',
+  sortDirection: 'desc',
+};
+
+export const SORT_FIELD_LABELS: Record<FlipSortField, string> = {
+  created: 'Date added',
+  profit: 'Profit',
+  roi: 'ROI',
+  days_held: 'Days held',
+  buy_price: 'Buy price',
+  sold_date: 'Sale date',
+};
+
+export const SORT_DIRECTION_LABELS: Record<SortDirection, string> = {
+  asc: 'Ascending',
+  desc: 'Descending',
+};
+
+const isNumberOrNull = (value: unknown): boolean =>
+  value === null || (typeof value === 'number' && isFinite(value));
+
+const isDateOrNull = (value: unknown): boolean =>
+  value === null || (typeof value === 'string' && !isNaN(new Date(value).getTime()));
+
+const isOutOfOrder = (min: number | string | null, max: number | string | null): boolean =>
+  min !== null && max !== null && min > max;
+
+// Returns why the filters are unusable, or null when they're fine
+export const validateFlipListFilters = (value: unknown): string | null => {
+  if (typeof value !== 'object' || value === null) return 'Expected filters';
+  const filters = value as FlipListFilters;
+
+  const numbers = [filters.minProfitCents, filters.maxProfitCents, filters.minRoi, filters.maxRoi, filters.minCategorySpendCents];
+  if (!numbers.every(isNumberOrNull)) return 'Amounts must be numbers';
+  if (!isDateOrNull(filters.fromDate) || !isDateOrNull(filters.toDate)) return 'Invalid date';
+  if (filters.spendCategory !== null && !LINE_ITEM_CATEGORIES.includes(filters.spendCategory)) return 'Unknown category';
+  if (!(filters.sortBy in SORT_FIELD_LABELS)) return 'Unknown sort order';
+  if (!(filters.sortDirection in SORT_DIRECTION_LABELS)) return 'Unknown sort direction';
+
+  if (isOutOfOrder(filters.minProfitCents, filters.maxProfitCents)) return 'Minimum profit is above the maximum';
+  if (isOutOfOrder(filters.minRoi, filters.maxRoi)) return 'Minimum ROI is above the maximum';
+  if (isOutOfOrder(filters.fromDate, filters.toDate)) return 'Start date is after the end date';
+  return null;
+};
+
+// How many filters narrow the list; sorting doesn't count
+export const countActiveFilters = (filters: FlipListFilters): number => {
+  return [
+    filters.minProfitCents !== null || filters.maxProfitCents !== null,
+    filters.minRoi !== null || filters.maxRoi !== null,
+    filters.fromDate !== null || filters.toDate !== null,
+    filters.spendCategory !== null,
+  ].filter(Boolean).length;
+};
@@ -0,0 +1,42 @@
+import { FlipListTab, FlipStatus } from '../types';
+
+export const FLIP_STATUSES: FlipStatus[] = [
+  'prospect',
+  'purchased',
+  'in_repair',
+  'listed',
+  'sale_pending',
+  'sold',
+  'scrapped',
+];
+
+export const FLIP_STATUS_LABELS: Record<FlipStatus, string> = {
+  prospect: 'Prospect',
+  purchased: 'Purchased',
+  in_repair: 'In Repair',
+  listed: 'Listed',
+  sale_pending: 'Sale Pending',
+  sold: 'Sold',
+  scrapped: 'Scrapped / Parted Out',
+};
+
+export const FLIP_STATUS_COLORS: Record<FlipStatus, string> = {
+  prospect: '#9E9E9E',
+  purchased: '#2196F3',
+  in_repair: '#FF9800',
+  listed: '#9C27B0',
+  sale_pending: '#00BCD4',
+  sold: '#4CAF50',
+  scrapped: '#795548',
+};
+
+export const CLOSED_STATUSES: FlipStatus[] = ['sold', 'scrapped'];
+
+export const isClosedStatus = (status: FlipStatus): boolean => CLOSED_STATUSES.includes(status);
+
+export const getTabStatuses = (tab: FlipListTab): FlipStatus[] => {
+  return FLIP_STATUSES.filter(status => isClosedStatus(status) === (tab === 'closed'));
+};
+
+// Status for a flip saved without one: a sale date means it sold
+export const inferFlipStatus = (soldDate?: string | null): FlipStatus => (soldDate ? 'sold' : 'purchased');
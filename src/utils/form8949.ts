@@ -0,0 +1,241 @@
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { Flip } from '../types';
+import { getHoldingPeriod, HoldingTerm } from './dates';
+import { AllFlipsTaxData, FlipTaxEntry } from './taxExport';
+import { CsvTable, CsvValue, formatCsvAmount, serializeCsvTables } from './csv';
+
+// Private vehicle sales aren't reported to the IRS on Form 1099-B, so every
+// row belongs in box C (short-term) or box F (long-term) of Form 8949.
+export const FORM_8949_BOXES: Record<HoldingTerm, string> = {
+  short: 'C',
+  long: 'F',
+};
+
+// Schedule D lines that receive the Form 8949 part totals for boxes C and F
+export const SCHEDULE_D_LINES: Record<HoldingTerm, string> = {
+  short: '3',
+  long: '10',
+};
+
+// Amounts are in cents; they're formatted as dollars only when written out
+export interface Form8949Row {
+  flipId: number;
+  // Column (a)
+  description: string;
+  // Columns (b) and (c), MM/DD/YYYY as printed on the form
+  dateAcquired: string;
+  dateSold: string;
+  // Column (d)
+  proceeds: number;
+  // Column (e): purchase price plus capitalized repairs and fees
+  costBasis: number;
+  // Columns (f) and (g)
+  adjustmentCode: string;
+  adjustmentAmount: number;
+  // Column (h): (d) - (e) + (g)
+  gainOrLoss: number;
+  // Why the row couldn't be placed in Part I or Part II
+  issue?: string;
+}
+
+export interface Form8949Totals {
+  proceeds: number;
+  costBasis: number;
+  adjustmentAmount: number;
+  gainOrLoss: number;
+}
+
+export interface Form8949Part {
+  term: HoldingTerm;
+  box: string;
+  rows: Form8949Row[];
+  totals: Form8949Totals;
+}
+
+export interface Form8949Report {
+  taxYear: number;
+  shortTerm: Form8949Part;
+  longTerm: Form8949Part;
+  // Sales whose holding period can't be determined from the recorded dates
+  needsReview: Form8949Row[];
+}
+
+export const formatForm8949Date = (dateString?: string): string => {
+  if (!dateString) return '';
+  const date = new Date(dateString);
+  if (isNaN(date.getTime())) return '';
+
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${month}/${day}/${date.getFullYear()}`;
+};
+
+export const describeVehicle = (flip: Flip): string => {
+  const name = [flip.year, flip.make, flip.model].filter(Boolean).join(' ') || `Vehicle #${flip.id}`;
+  return flip.vin ? `${name} VIN ${flip.vin}` : name;
+};
+
+const buildRow = ({ flip, totals }: FlipTaxEntry): Form8949Row => {
+  const proceeds = totals.sellPriceCents || 0;
+  const costBasis = totals.buyPriceCents + totals.totalCostCents;
+  const adjustmentAmount = 0;
+  const holding = getHoldingPeriod(flip.purchase_date, flip.sold_date);
+
+  return {
+    flipId: flip.id,
+    description: describeVehicle(flip),
+    dateAcquired: formatForm8949Date(flip.purchase_date),
+    dateSold: formatForm8949Date(flip.sold_date),
+    proceeds,
+    costBasis,
+    adjustmentCode: '',
+    adjustmentAmount,
+    gainOrLoss: proceeds - costBasis + adjustmentAmount,
+    issue: holding.issue,
+  };
+};
+
+const sumRows = (rows: Form8949Row[]): Form8949Totals => {
+  return rows.reduce(
+    (totals, row) => ({
+      proceeds: totals.proceeds + row.proceeds,
+      costBasis: totals.costBasis + row.costBasis,
+      adjustmentAmount: totals.adjustmentAmount + row.adjustmentAmount,
+      gainOrLoss: totals.gainOrLoss + row.gainOrLoss,
+    }),
+    { proceeds: 0, costBasis: 0, adjustmentAmount: 0, gainOrLoss: 0 }
+  );
+};
+
+const buildPart = (term: HoldingTerm, rows: Form8949Row[]): Form8949Part => ({
+  term,
+  box: FORM_8949_BOXES[term],
+  rows,
+  totals: sumRows(rows),
+});
+
+// One row per vehicle sold in the tax year, split by holding period. Every
+// expense recorded against a vehicle is capitalized into its cost basis, so
+// no adjustments are generated.
+export const buildForm8949 = (data: AllFlipsTaxData): Form8949Report => {
+  const shortTerm: Form8949Row[] = [];
+  const longTerm: Form8949Row[] = [];
+  const needsReview: Form8949Row[] = [];
+
+  const sorted = [...data.flips].sort((a, b) =>
+    (a.flip.sold_date || '').localeCompare(b.flip.sold_date || '')
+  );
+
+  for (const entry of sorted) {
+    const row = buildRow(entry);
+    const { term } = getHoldingPeriod(entry.flip.purchase_date, entry.flip.sold_date);
+    if (term === 'long') {
+      longTerm.push(row);
+    } else if (term === 'short') {
+      shortTerm.push(row);
+    } else {
+      needsReview.push(row);
+    }
+  }
+
+  return {
+    taxYear: data.taxYear,
+    shortTerm: buildPart('short', shortTerm),
+    longTerm: buildPart('long', longTerm),
+    needsReview,
+  };
+};
+
+const CSV_HEADER = [
+  '(a) Description of property',
+  '(b) Date acquired',
+  '(c) Date sold or disposed of',
+  '(d) Proceeds (sales price)',
+  '(e) Cost or other basis',
+  '(f) Code(s)',
+  '(g) Amount of adjustment',
+  '(h) Gain or (loss)',
+];
+
+const rowToCsvValues = (row: Form8949Row): CsvValue[] => [
+  row.description,
+  row.dateAcquired,
+  row.dateSold,
+  formatCsvAmount(row.proceeds),
+  formatCsvAmount(row.costBasis),
+  row.adjustmentCode,
+  row.adjustmentAmount ? formatCsvAmount(row.adjustmentAmount) : '',
+  formatCsvAmount(row.gainOrLoss),
+];
+
+const toTotalsRow = (label: string, totals: Form8949Totals): CsvValue[] => [
+  label,
+  '',
+  '',
+  formatCsvAmount(totals.proceeds),
+  formatCsvAmount(totals.costBasis),
+  '',
+  totals.adjustmentAmount ? formatCsvAmount(totals.adjustmentAmount) : '',
+  formatCsvAmount(totals.gainOrLoss),
+];
+
+export const generateForm8949CSV = (report: Form8949Report): string => {
+  const parts: Array<[string, Form8949Part]> = [
+    ['Part I - Short-Term (held 1 year or less)', report.shortTerm],
+    ['Part II - Long-Term (held more than 1 year)', report.longTerm],
+  ];
+
+  const tables: CsvTable[] = parts.map(([title, part]) => ({
+    title: `Form 8949 ${report.taxYear} ${title} - Box ${part.box}`,
+    headers: CSV_HEADER,
+    rows: [...part.rows.map(rowToCsvValues), toTotalsRow('Totals', part.totals)],
+  }));
+
+  tables.push({
+    title: `Schedule D ${report.taxYear}`,
+    headers: ['Line', 'Description', 'Proceeds', 'Cost or other basis', 'Adjustments', 'Gain or (loss)'],
+    rows: [report.shortTerm, report.longTerm].map(part => [
+      SCHEDULE_D_LINES[part.term],
+      `${part.term === 'short' ? 'Short' : 'Long'}-term totals from Form 8949 box ${part.box}`,
+      formatCsvAmount(part.totals.proceeds),
+      formatCsvAmount(part.totals.costBasis),
+      part.totals.adjustmentAmount ? formatCsvAmount(part.totals.adjustmentAmount) : '',
+      formatCsvAmount(part.totals.gainOrLoss),
+    ]),
+  });
+
+  if (report.needsReview.length > 0) {
+    tables.push({
+      title: 'Needs review - not included above',
+      headers: [...CSV_HEADER, 'Issue'],
+      rows: report.needsReview.map(row => [...rowToCsvValues(row), row.issue || '']),
+    });
+  }
+
+  return serializeCsvTables(tables, { bom: true });
+};
+
+export const exportForm8949CSV = async (data: AllFlipsTaxData) => {
+  try {
+    const content = generateForm8949CSV(buildForm8949(data));
+    const fileName = `FlipTrackr_Form_8949_${data.taxYear}.csv`;
+    const fileUri = `${FileSystem.documentDirectory}${fileName}`;
+
+    await FileSystem.writeAsStringAsync(fileUri, content, {
+      encoding: FileSystem.EncodingType.UTF8,
+    });
+
+    if (await Sharing.isAvailableAsync()) {
+      await Sharing.shareAsync(fileUri, {
+        mimeType: 'text/csv',
+        dialogTitle: 'Export Form 8949',
+      });
+    }
+
+    return fileUri;
+  } catch (error) {
+    console.error('Error exporting Form 8949:', error);
+    throw error;
+  }
+};
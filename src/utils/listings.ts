@@ -0,0 +1,89 @@
+import { Flip, ListingPlatform, ListingPrice, ListingWithPrices } from '../types';
+import { toCalendarDate } from './dates';
+
+export class ListingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ListingError';
+  }
+}
+
+export const LISTING_PLATFORMS: ListingPlatform[] = ['marketplace', 'craigslist', 'auction', 'consignment'];
+
+export const LISTING_PLATFORM_LABELS: Record<ListingPlatform, string> = {
+  marketplace: 'Marketplace',
+  craigslist: 'Craigslist',
+  auction: 'Auction',
+  consignment: 'Consignment',
+};
+
+// Shared by every listing date: it has to fall between the purchase (or the
+// listing's start) and today, and before any sale.
+const checkDate = (flip: Flip, date: string, earliest: string | undefined, earliestLabel: string, now: Date): string | null => {
+  const day = toCalendarDate(date).getTime();
+  if (isNaN(day)) return 'Enter a date';
+  if (day > toCalendarDate(now.toISOString()).getTime()) return 'The date is in the future';
+  if (earliest && day < toCalendarDate(earliest).getTime()) return `The date is before ${earliestLabel}`;
+  if (flip.sold_date && day > toCalendarDate(flip.sold_date).getTime()) return 'The date is after the car sold';
+  return null;
+};
+
+const checkPrice = (priceCents: number): string | null => {
+  return Number.isInteger(priceCents) && priceCents > 0 ? null : 'Enter the asking price';
+};
+
+// Each returns why the change can't be saved, or null when it's fine
+export const validateListing = (flip: Flip, listedAt: string, askingPriceCents: number, now: Date = new Date()): string | null => {
+  return checkDate(flip, listedAt, flip.purchase_date, 'the purchase date', now) ?? checkPrice(askingPriceCents);
+};
+
+export const validatePriceChange = (
+  flip: Flip,
+  listing: ListingWithPrices,
+  priceCents: number,
+  changedAt: string,
+  now: Date = new Date()
+): string | null => {
+  const invalid = checkDate(flip, changedAt, listing.listed_at, 'the listing date', now) ?? checkPrice(priceCents);
+  if (invalid) return invalid;
+  if (listing.ended_at && toCalendarDate(changedAt).getTime() > toCalendarDate(listing.ended_at).getTime()) {
+    return 'The date is after the listing ended';
+  }
+  if (priceCents === getAskingPrice(listing, changedAt)?.price_cents) {
+    return 'The asking price is already that';
+  }
+  return null;
+};
+
+export const validateListingEnd = (flip: Flip, listing: ListingWithPrices, endedAt: string, now: Date = new Date()): string | null => {
+  const invalid = checkDate(flip, endedAt, listing.listed_at, 'the listing date', now);
+  if (invalid) return invalid;
+  const lastChange = listing.prices[listing.prices.length - 1];
+  if (lastChange && toCalendarDate(endedAt).getTime() < toCalendarDate(lastChange.changed_at).getTime()) {
+    return 'The date is before the last price change';
+  }
+  return null;
+};
+
+// Price in effect at the given time, or the latest one
+export const getAskingPrice = (listing: ListingWithPrices, at?: string): ListingPrice | null => {
+  const prices = at ? listing.prices.filter(price => price.changed_at <= at) : listing.prices;
+  return prices[prices.length - 1] ?? null;
+};
+
+export const isListingActive = (flip: Flip, listing: ListingWithPrices): boolean => {
+  return !listing.ended_at && !flip.sold_date;
+};
+
+// The most recently set price across the listings still running, or null when
+// the car isn't on the market
+export const getCurrentAskingPrice = (flip: Flip, listings: ListingWithPrices[]): number | null => {
+  let latest: ListingPrice | null = null;
+  for (const listing of listings) {
+    const price = isListingActive(flip, listing) ? getAskingPrice(listing) : null;
+    if (price && (!latest || price.changed_at >= latest.changed_at)) {
+      latest = price;
+    }
+  }
+  return latest?.price_cents ?? null;
+};
@@ -0,0 +1,23 @@
+// Locale used by the formatting helpers. Kept here rather than threaded
+// through every call; the settings provider updates it whenever the locale
+// preference loads or changes.
+
+export const DEFAULT_LOCALE = 'en-US';
+
+export const SUPPORTED_LOCALES: Array<{ value: string; label: string }> = [
+  { value: 'en-US', label: 'English (US)' },
+  { value: 'en-CA', label: 'English (Canada)' },
+  { value: 'fr-CA', label: 'Français (Canada)' },
+  { value: 'en-GB', label: 'English (UK)' },
+  { value: 'en-AU', label: 'English (Australia)' },
+  { value: 'es-MX', label: 'Español (México)' },
+  { value: 'de-DE', label: 'Deutsch' },
+];
+
+let displayLocale = DEFAULT_LOCALE;
+
+export const getDisplayLocale = (): string => displayLocale;
+
+export const setDisplayLocale = (locale: string) => {
+  displayLocale = locale;
+};
@@ -1,4 +1,10 @@
 import { ParsedLineItem } from '../types';
+import { parseCents } from './currency';
+
+export interface ParsedLine {
+  line: string;
+  result: ParsedLineItem | { error: string };
+}
 
 export const parseLineItem = (input: string): ParsedLineItem | { error: string } => {
   const trimmed = input.trim();
@@ -19,12 +25,12 @@ export const parseLineItem = (input: string): ParsedLineItem | { error: string }
       return { error: 'Title cannot be empty' };
     }
     
-    const amount = evaluateMath(amountStr);
-    if (amount === null || amount <= 0) {
+    const amountCents = evaluateMath(amountStr);
+    if (amountCents === null || amountCents <= 0) {
       return { error: 'Invalid amount' };
     }
     
-    return { amount, title };
+    return { amountCents, title };
   }
   
   // Pattern 2: amount title (no $ or -)
@@ -39,12 +45,12 @@ export const parseLineItem = (input: string): ParsedLineItem | { error: string }
       return { error: 'Title cannot be empty' };
     }
     
-    const amount = evaluateMath(amountStr);
-    if (amount === null || amount <= 0) {
+    const amountCents = evaluateMath(amountStr);
+    if (amountCents === null || amountCents <= 0) {
       return { error: 'Invalid amount' };
     }
     
-    return { amount, title };
+    return { amountCents, title };
   }
   
   // Pattern 3: Just a number at the start
@@ -55,17 +61,30 @@ export const parseLineItem = (input: string): ParsedLineItem | { error: string }
     const amountStr = simpleMatch[1].trim();
     const title = simpleMatch[2].trim() || 'Expense';
     
-    const amount = evaluateMath(amountStr);
-    if (amount === null || amount <= 0) {
+    const amountCents = evaluateMath(amountStr);
+    if (amountCents === null || amountCents <= 0) {
       return { error: 'Invalid amount' };
     }
     
-    return { amount, title };
+    return { amountCents, title };
   }
   
   return { error: 'Could not parse input. Try format: $190 - description' };
 };
 
+// Parses pasted multi-line input, one entry per non-empty line
+export const parseLineItems = (input: string): ParsedLine[] => {
+  return input
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line.length > 0)
+    .map(line => ({ line, result: parseLineItem(line) }));
+};
+
+export const isParseError = (result: ParsedLine['result']): result is { error: string } => {
+  return 'error' in result;
+};
+
 const evaluateMath = (expression: string): number | null => {
   try {
     // Remove all spaces
@@ -97,18 +116,20 @@ const evaluateMath = (expression: string): number | null => {
       }
     }
     
-    return Math.round(result * 100) / 100; // Round to 2 decimal places
+    return result;
   } catch {
     return null;
   }
 };
 
+// Evaluates one term in cents. The first number is an amount of money; any
+// numbers it is multiplied or divided by are plain factors, e.g. "12.50*4".
 const evaluateMultiplyDivide = (expression: string): number | null => {
   try {
     const tokens = expression.split(/([*/])/);
-    let result = parseFloat(tokens[0]);
+    let result = parseCents(tokens[0]);
     
-    if (isNaN(result)) return null;
+    if (result === null) return null;
     
     for (let i = 1; i < tokens.length; i += 2) {
       const op = tokens[i];
@@ -124,7 +145,8 @@ const evaluateMultiplyDivide = (expression: string): number | null => {
       }
     }
     
-    return result;
+    // Whole cents per term, so the sum stays exact
+    return Math.round(result);
   } catch {
     return null;
   }
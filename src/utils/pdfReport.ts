@@ -0,0 +1,243 @@
+import { PdfDocument, PdfFont, PdfPage, PAGE_HEIGHT, PAGE_WIDTH, RGB, measureText } from './pdfWriter';
+
+const MARGIN = 50;
+const HEADER_HEIGHT = 40;
+const FOOTER_HEIGHT = 30;
+const CONTENT_TOP = PAGE_HEIGHT - MARGIN - HEADER_HEIGHT;
+const CONTENT_BOTTOM = MARGIN + FOOTER_HEIGHT;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+const BODY_SIZE = 9;
+const LINE_HEIGHT = 12;
+const CELL_PADDING = 4;
+
+const COLOR_TEXT: RGB = [0.2, 0.2, 0.2];
+const COLOR_MUTED: RGB = [0.45, 0.45, 0.45];
+const COLOR_RULE: RGB = [0.8, 0.8, 0.8];
+const COLOR_HEADER_FILL: RGB = [0.91, 0.94, 0.98];
+const COLOR_SUBTOTAL_FILL: RGB = [0.96, 0.96, 0.96];
+
+export interface PdfTableColumn {
+  header: string;
+  // Fraction of the content width
+  width: number;
+  align?: 'left' | 'right';
+}
+
+export type PdfTableRowStyle = 'normal' | 'subtotal' | 'total';
+
+export interface PdfTableRow {
+  cells: string[];
+  style?: PdfTableRowStyle;
+}
+
+export interface PdfReportOptions {
+  title: string;
+  subtitle: string;
+  footerNote?: string;
+}
+
+// Breaks text into lines that fit within maxWidth, splitting long words if needed
+export const wrapText = (text: string, font: PdfFont, size: number, maxWidth: number): string[] => {
+  const lines: string[] = [];
+
+  for (const paragraph of text.split('\n')) {
+    let current = '';
+
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = current ? `${current} ${word}` : word;
+      if (measureText(candidate, font, size) <= maxWidth) {
+        current = candidate;
+        continue;
+      }
+
+      if (current) lines.push(current);
+      current = '';
+
+      let remainder = word;
+      while (measureText(remainder, font, size) > maxWidth && remainder.length > 1) {
+        let cut = remainder.length - 1;
+        while (cut > 1 && measureText(remainder.slice(0, cut), font, size) > maxWidth) cut--;
+        lines.push(remainder.slice(0, cut));
+        remainder = remainder.slice(cut);
+      }
+      current = remainder;
+    }
+
+    lines.push(current);
+  }
+
+  return lines;
+};
+
+// Lays out report content top to bottom, starting new pages as needed.
+// Page headers and "Page X of Y" footers are drawn once the page count is known.
+export class PdfReportBuilder {
+  private readonly document: PdfDocument;
+  private page: PdfPage;
+  private y = CONTENT_TOP;
+
+  constructor(private readonly options: PdfReportOptions) {
+    this.document = new PdfDocument({ title: `${options.title} - ${options.subtitle}`, author: 'FlipTrackr' });
+    this.page = this.document.addPage();
+  }
+
+  private newPage() {
+    this.page = this.document.addPage();
+    this.y = CONTENT_TOP;
+  }
+
+  private ensureSpace(height: number) {
+    if (this.y - height < CONTENT_BOTTOM) {
+      this.newPage();
+    }
+  }
+
+  spacer(height = LINE_HEIGHT) {
+    this.y -= height;
+  }
+
+  heading(text: string) {
+    // Keep a heading together with at least a couple of lines of what follows
+    this.ensureSpace(LINE_HEIGHT * 4);
+    this.y -= 6;
+    this.page.text(text.toUpperCase(), MARGIN, this.y - 12, { font: 'bold', size: 12, color: COLOR_TEXT });
+    this.y -= 16;
+    this.page.line(MARGIN, this.y, MARGIN + CONTENT_WIDTH, this.y, { color: COLOR_RULE });
+    this.y -= 8;
+  }
+
+  subheading(text: string) {
+    this.ensureSpace(LINE_HEIGHT * 3);
+    this.page.text(text, MARGIN, this.y - 10, { font: 'bold', size: 10, color: COLOR_TEXT });
+    this.y -= 16;
+  }
+
+  paragraph(text: string, options: { muted?: boolean; bold?: boolean } = {}) {
+    const font: PdfFont = options.bold ? 'bold' : 'regular';
+    for (const line of wrapText(text, font, BODY_SIZE, CONTENT_WIDTH)) {
+      this.ensureSpace(LINE_HEIGHT);
+      this.page.text(line, MARGIN, this.y - BODY_SIZE, {
+        font,
+        size: BODY_SIZE,
+        color: options.muted ? COLOR_MUTED : COLOR_TEXT,
+      });
+      this.y -= LINE_HEIGHT;
+    }
+  }
+
+  bullets(items: string[]) {
+    const indent = 12;
+    for (const item of items) {
+      wrapText(item, 'regular', BODY_SIZE, CONTENT_WIDTH - indent).forEach((line, index) => {
+        this.ensureSpace(LINE_HEIGHT);
+        if (index === 0) {
+          this.page.text('•', MARGIN, this.y - BODY_SIZE, { size: BODY_SIZE, color: COLOR_TEXT });
+        }
+        this.page.text(line, MARGIN + indent, this.y - BODY_SIZE, { size: BODY_SIZE, color: COLOR_TEXT });
+        this.y -= LINE_HEIGHT;
+      });
+    }
+  }
+
+  keyValues(pairs: Array<[string, string]>) {
+    const labelWidth = CONTENT_WIDTH * 0.4;
+    for (const [label, value] of pairs) {
+      const valueLines = wrapText(value, 'regular', BODY_SIZE, CONTENT_WIDTH - labelWidth);
+      this.ensureSpace(LINE_HEIGHT * valueLines.length);
+      this.page.text(label, MARGIN, this.y - BODY_SIZE, { font: 'bold', size: BODY_SIZE, color: COLOR_MUTED });
+      valueLines.forEach((line, index) => {
+        this.page.text(line, MARGIN + labelWidth, this.y - BODY_SIZE - index * LINE_HEIGHT, {
+          size: BODY_SIZE,
+          color: COLOR_TEXT,
+        });
+      });
+      this.y -= LINE_HEIGHT * valueLines.length;
+    }
+  }
+
+  private drawTableHeader(columns: PdfTableColumn[]) {
+    const height = LINE_HEIGHT + CELL_PADDING * 2;
+    this.page.rect(MARGIN, this.y - height, CONTENT_WIDTH, height, COLOR_HEADER_FILL);
+    this.drawCells(columns, columns.map(c => [c.header]), 'bold', this.y - CELL_PADDING);
+    this.y -= height;
+  }
+
+  private drawCells(columns: PdfTableColumn[], lines: string[][], font: PdfFont, top: number) {
+    let x = MARGIN;
+    columns.forEach((column, index) => {
+      const width = column.width * CONTENT_WIDTH;
+      lines[index].forEach((line, lineIndex) => {
+        const textWidth = measureText(line, font, BODY_SIZE);
+        const textX = column.align === 'right' ? x + width - CELL_PADDING - textWidth : x + CELL_PADDING;
+        this.page.text(line, textX, top - BODY_SIZE - lineIndex * LINE_HEIGHT, {
+          font,
+          size: BODY_SIZE,
+          color: COLOR_TEXT,
+        });
+      });
+      x += width;
+    });
+  }
+
+  // Draws a table whose cells wrap within their column; the header row is
+  // repeated at the top of every page the table spans.
+  table(columns: PdfTableColumn[], rows: PdfTableRow[]) {
+    const headerHeight = LINE_HEIGHT + CELL_PADDING * 2;
+    this.ensureSpace(headerHeight + LINE_HEIGHT + CELL_PADDING * 2);
+    this.drawTableHeader(columns);
+
+    for (const row of rows) {
+      const font: PdfFont = row.style === 'subtotal' || row.style === 'total' ? 'bold' : 'regular';
+      const lines = columns.map((column, index) =>
+        wrapText(row.cells[index] || '', font, BODY_SIZE, column.width * CONTENT_WIDTH - CELL_PADDING * 2)
+      );
+      const height = Math.max(...lines.map(l => l.length)) * LINE_HEIGHT + CELL_PADDING * 2;
+
+      if (this.y - height < CONTENT_BOTTOM) {
+        this.newPage();
+        this.drawTableHeader(columns);
+      }
+
+      if (row.style === 'subtotal' || row.style === 'total') {
+        this.page.rect(MARGIN, this.y - height, CONTENT_WIDTH, height, COLOR_SUBTOTAL_FILL);
+      }
+      this.drawCells(columns, lines, font, this.y - CELL_PADDING);
+      this.y -= height;
+      this.page.line(MARGIN, this.y, MARGIN + CONTENT_WIDTH, this.y, {
+        color: COLOR_RULE,
+        width: row.style === 'total' ? 1 : 0.5,
+      });
+    }
+
+    this.y -= LINE_HEIGHT / 2;
+  }
+
+  build(): Uint8Array {
+    const pageCount = this.document.pages.length;
+
+    this.document.pages.forEach((page, index) => {
+      const headerY = PAGE_HEIGHT - MARGIN - 12;
+      page.text(this.options.title, MARGIN, headerY, { font: 'bold', size: 11, color: COLOR_TEXT });
+      const subtitleWidth = measureText(this.options.subtitle, 'regular', BODY_SIZE);
+      page.text(this.options.subtitle, MARGIN + CONTENT_WIDTH - subtitleWidth, headerY, {
+        size: BODY_SIZE,
+        color: COLOR_MUTED,
+      });
+      page.line(MARGIN, headerY - 8, MARGIN + CONTENT_WIDTH, headerY - 8, { width: 1, color: COLOR_TEXT });
+
+      const footerY = MARGIN;
+      page.line(MARGIN, footerY + 12, MARGIN + CONTENT_WIDTH, footerY + 12, { color: COLOR_RULE });
+      if (this.options.footerNote) {
+        page.text(this.options.footerNote, MARGIN, footerY, { size: 8, color: COLOR_MUTED });
+      }
+      const pageLabel = `Page ${index + 1} of ${pageCount}`;
+      page.text(pageLabel, MARGIN + CONTENT_WIDTH - measureText(pageLabel, 'regular', 8), footerY, {
+        size: 8,
+        color: COLOR_MUTED,
+      });
+    });
+
+    return this.document.toBytes();
+  }
+}
@@ -0,0 +1,189 @@
+// Minimal PDF 1.4 writer for text reports. It only uses the standard
+// Helvetica fonts, so nothing needs embedding and it works fully offline.
+// Output contains no timestamps or random IDs: the same input always produces
+// the same bytes.
+
+export type PdfFont = 'regular' | 'bold';
+
+export const PAGE_WIDTH = 612; // US Letter, in points
+export const PAGE_HEIGHT = 792;
+
+const FONT_RESOURCES: Record<PdfFont, { name: string; baseFont: string }> = {
+  regular: { name: 'F1', baseFont: 'Helvetica' },
+  bold: { name: 'F2', baseFont: 'Helvetica-Bold' },
+};
+
+// Glyph widths (1/1000 em) for ASCII 32-126 from the standard Helvetica AFM files
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+const DEFAULT_GLYPH_WIDTH = 556;
+
+// Unicode characters outside Latin-1 that WinAnsiEncoding can still represent
+const WIN_ANSI_EXTRAS: Record<number, number> = {
+  0x20ac: 0x80, // €
+  0x2026: 0x85, // …
+  0x2018: 0x91, // ‘
+  0x2019: 0x92, // ’
+  0x201c: 0x93, // “
+  0x201d: 0x94, // ”
+  0x2022: 0x95, // •
+  0x2013: 0x96, // –
+  0x2014: 0x97, // —
+};
+
+const toWinAnsiCode = (codePoint: number): number => {
+  if (codePoint < 0x80 || (codePoint >= 0xa0 && codePoint <= 0xff)) {
+    return codePoint;
+  }
+  return WIN_ANSI_EXTRAS[codePoint] ?? 0x3f; // '?'
+};
+
+export const measureText = (text: string, font: PdfFont, size: number): number => {
+  const widths = font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let total = 0;
+
+  for (const char of text) {
+    const code = toWinAnsiCode(char.codePointAt(0) || 0);
+    if (code >= 32 && code <= 126) {
+      total += widths[code - 32];
+    } else if (code === 0x95) {
+      total += 350;
+    } else {
+      total += DEFAULT_GLYPH_WIDTH;
+    }
+  }
+
+  return (total * size) / 1000;
+};
+
+// Encodes text as a PDF literal string in WinAnsiEncoding
+const encodeText = (text: string): string => {
+  let encoded = '(';
+  for (const char of text) {
+    const code = toWinAnsiCode(char.codePointAt(0) || 0);
+    if (code === 0x28 || code === 0x29 || code === 0x5c) {
+      encoded += '\\' + String.fromCharCode(code);
+    } else if (code < 32) {
+      encoded += ' ';
+    } else {
+      encoded += String.fromCharCode(code);
+    }
+  }
+  return encoded + ')';
+};
+
+const formatNumber = (value: number): string => {
+  // Fixed precision keeps the output byte-stable across platforms
+  return (Math.round(value * 100) / 100).toFixed(2).replace(/\.?0+$/, '') || '0';
+};
+
+export type RGB = [number, number, number];
+
+export class PdfPage {
+  private operations: string[] = [];
+
+  text(text: string, x: number, y: number, options: { font?: PdfFont; size?: number; color?: RGB } = {}) {
+    const { name } = FONT_RESOURCES[options.font || 'regular'];
+    const color = options.color || [0, 0, 0];
+    this.operations.push(
+      `BT ${color.map(formatNumber).join(' ')} rg /${name} ${formatNumber(options.size || 10)} Tf ` +
+      `${formatNumber(x)} ${formatNumber(y)} Td ${encodeText(text)} Tj ET`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, options: { width?: number; color?: RGB } = {}) {
+    const color = options.color || [0, 0, 0];
+    this.operations.push(
+      `${color.map(formatNumber).join(' ')} RG ${formatNumber(options.width || 0.5)} w ` +
+      `${formatNumber(x1)} ${formatNumber(y1)} m ${formatNumber(x2)} ${formatNumber(y2)} l S`
+    );
+  }
+
+  rect(x: number, y: number, width: number, height: number, fill: RGB) {
+    this.operations.push(
+      `${fill.map(formatNumber).join(' ')} rg ` +
+      `${formatNumber(x)} ${formatNumber(y)} ${formatNumber(width)} ${formatNumber(height)} re f`
+    );
+  }
+
+  toContentStream(): string {
+    return this.operations.join('\n');
+  }
+}
+
+export class PdfDocument {
+  readonly pages: PdfPage[] = [];
+
+  constructor(private readonly info: { title: string; author?: string }) {}
+
+  addPage(): PdfPage {
+    const page = new PdfPage();
+    this.pages.push(page);
+    return page;
+  }
+
+  toBytes(): Uint8Array {
+    const objects: string[] = [];
+    const fontIds: Record<PdfFont, number> = { regular: 3, bold: 4 };
+    const firstPageId = 6;
+    const pageIds = this.pages.map((_, index) => firstPageId + index * 2);
+
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+    (Object.keys(FONT_RESOURCES) as PdfFont[]).forEach(font => {
+      objects[fontIds[font]] =
+        `<< /Type /Font /Subtype /Type1 /BaseFont /${FONT_RESOURCES[font].baseFont} /Encoding /WinAnsiEncoding >>`;
+    });
+    objects[5] = `<< /Title ${encodeText(this.info.title)} /Producer (FlipTrackr)` +
+      (this.info.author ? ` /Author ${encodeText(this.info.author)}` : '') + ' >>';
+
+    this.pages.forEach((page, index) => {
+      const pageId = pageIds[index];
+      const contentId = pageId + 1;
+      const stream = page.toContentStream();
+
+      objects[pageId] =
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 ${fontIds.regular} 0 R /F2 ${fontIds.bold} 0 R >> >> /Contents ${contentId} 0 R >>`;
+      objects[contentId] = `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`;
+    });
+
+    // Every character is a single byte at this point, so string length equals byte offset
+    let output = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+    const offsets: number[] = [];
+
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = output.length;
+      output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    const bytes = new Uint8Array(output.length);
+    for (let i = 0; i < output.length; i++) {
+      bytes[i] = output.charCodeAt(i) & 0xff;
+    }
+    return bytes;
+  }
+}
@@ -0,0 +1,99 @@
+import * as FileSystem from 'expo-file-system';
+import * as DocumentPicker from 'expo-document-picker';
+import * as ImagePicker from 'expo-image-picker';
+
+// Receipts are stored relative to the document directory because the absolute
+// container path can change between app updates on iOS.
+const RECEIPTS_FOLDER = 'receipts/';
+
+export type ReceiptSource = 'camera' | 'document';
+
+export interface PickedReceipt {
+  uri: string;
+  name?: string;
+  mimeType?: string;
+}
+
+const getReceiptsDirectory = (): string => {
+  if (!FileSystem.documentDirectory) {
+    throw new Error('Document directory is not available on this platform');
+  }
+  return `${FileSystem.documentDirectory}${RECEIPTS_FOLDER}`;
+};
+
+const ensureReceiptsDirectory = async (): Promise<void> => {
+  const directory = getReceiptsDirectory();
+  const info = await FileSystem.getInfoAsync(directory);
+  if (!info.exists) {
+    await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+  }
+};
+
+const getExtension = (receipt: PickedReceipt): string => {
+  const fromName = (receipt.name || receipt.uri).match(/\.([a-zA-Z0-9]+)(?:\?.*)?$/);
+  if (fromName) return fromName[1].toLowerCase();
+  if (receipt.mimeType === 'application/pdf') return 'pdf';
+  if (receipt.mimeType === 'image/png') return 'png';
+  return 'jpg';
+};
+
+export const resolveReceiptUri = (storedPath: string): string => {
+  if (/^[a-z]+:\/\//i.test(storedPath)) {
+    return storedPath;
+  }
+  return `${FileSystem.documentDirectory}${storedPath}`;
+};
+
+export const isPdfReceipt = (storedPath: string): boolean => {
+  return /\.pdf$/i.test(storedPath);
+};
+
+export const pickReceipt = async (source: ReceiptSource): Promise<PickedReceipt | null> => {
+  if (source === 'document') {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: ['image/*', 'application/pdf'],
+      copyToCacheDirectory: true,
+    });
+    if (result.canceled || result.assets.length === 0) return null;
+    const asset = result.assets[0];
+    return { uri: asset.uri, name: asset.name, mimeType: asset.mimeType };
+  }
+
+  const permission = await ImagePicker.requestCameraPermissionsAsync();
+  if (!permission.granted) {
+    throw new Error('Camera permission is required to photograph receipts');
+  }
+
+  const result = await ImagePicker.launchCameraAsync({ mediaTypes: ['images'], quality: 0.7 });
+
+  if (result.canceled || result.assets.length === 0) return null;
+  const asset = result.assets[0];
+  return { uri: asset.uri, name: asset.fileName || undefined, mimeType: asset.mimeType };
+};
+
+// Copies a picked file into the app-owned receipts folder and returns the
+// relative path that should be stored in line_items.receipt_uri.
+export const saveReceipt = async (receipt: PickedReceipt): Promise<string> => {
+  await ensureReceiptsDirectory();
+
+  const suffix = Math.random().toString(36).slice(2, 8);
+  const storedPath = `${RECEIPTS_FOLDER}receipt-${Date.now()}-${suffix}.${getExtension(receipt)}`;
+
+  await FileSystem.copyAsync({
+    from: receipt.uri,
+    to: resolveReceiptUri(storedPath),
+  });
+
+  return storedPath;
+};
+
+export const deleteReceipt = async (storedPath?: string | null): Promise<void> => {
+  if (!storedPath) return;
+
+  try {
+    await FileSystem.deleteAsync(resolveReceiptUri(storedPath), { idempotent: true });
+  } catch (error) {
+    // A missing file shouldn't block deleting the expense itself
+    console.error('Error deleting receipt file:', error);
+  }
+};
@@ -0,0 +1,72 @@
+import { Flip, PaymentMethod, SaleDetails } from '../types';
+import { toCalendarDate } from './dates';
+
+export class SaleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SaleError';
+  }
+}
+
+export const PAYMENT_METHODS: PaymentMethod[] = [
+  'cash',
+  'check',
+  'cashiers_check',
+  'bank_transfer',
+  'financing',
+  'trade',
+  'other',
+];
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: 'Cash',
+  check: 'Check',
+  cashiers_check: "Cashier's Check",
+  bank_transfer: 'Bank Transfer',
+  financing: 'Financing',
+  trade: 'Trade',
+  other: 'Other',
+};
+
+// Checks a sale against what's known about the purchase. Returns why it
+// can't be recorded, or null when it's fine.
+export const validateSale = (flip: Flip, sale: SaleDetails, now: Date = new Date()): string | null => {
+  const soldDay = toCalendarDate(sale.soldDate).getTime();
+  if (isNaN(soldDay)) return 'Enter the sale date';
+  if (soldDay > toCalendarDate(now.toISOString()).getTime()) return 'The sale date is in the future';
+  if (flip.purchase_date && soldDay < toCalendarDate(flip.purchase_date).getTime()) {
+    return 'The sale date is before the purchase date';
+  }
+
+  if (!Number.isInteger(sale.sellPriceCents) || sale.sellPriceCents <= 0) return 'Enter the final sale price';
+
+  if (sale.soldMiles !== undefined) {
+    if (!Number.isInteger(sale.soldMiles) || sale.soldMiles < 0) return 'Enter the odometer reading in whole miles';
+    if (flip.miles != null && sale.soldMiles < flip.miles) {
+      return `The odometer at sale is below the ${flip.miles} miles it was bought with`;
+    }
+  }
+
+  return null;
+};
+
+// The sale already recorded on a flip, or null while it's unsold
+export const getRecordedSale = (flip: Flip): SaleDetails | null => {
+  if (!flip.sold_date) return null;
+  return {
+    soldDate: flip.sold_date,
+    sellPriceCents: flip.sell_price_cents ?? 0,
+    buyer: flip.buyer,
+    paymentMethod: flip.payment_method,
+    soldMiles: flip.sold_miles,
+  };
+};
+
+// Flip fields that make up a sale, for recording one or clearing it
+export const toSaleFields = (sale: SaleDetails | null): Pick<Flip, 'sold_date' | 'sell_price_cents' | 'buyer' | 'payment_method' | 'sold_miles'> => ({
+  sold_date: sale?.soldDate,
+  sell_price_cents: sale?.sellPriceCents,
+  buyer: sale?.buyer?.trim() || undefined,
+  payment_method: sale?.paymentMethod,
+  sold_miles: sale?.soldMiles,
+});
@@ -0,0 +1,85 @@
+import { AppSettings, SettingKey, TaxYearDefault } from '../types';
+import { DEFAULT_CURRENCY } from './currency';
+import { DEFAULT_LOCALE, SUPPORTED_LOCALES } from './locale';
+import { LINE_ITEM_CATEGORIES } from './categorize';
+import { DEFAULT_FLIP_LIST_FILTERS, validateFlipListFilters } from './flipFilters';
+
+export class SettingsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SettingsError';
+  }
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  locale: DEFAULT_LOCALE,
+  base_currency: DEFAULT_CURRENCY,
+  default_category: null,
+  tax_year_default: 'current',
+  estimated_tax_rate: 0,
+  report_itemize_expenses: true,
+  flip_list_filters: DEFAULT_FLIP_LIST_FILTERS,
+};
+
+export const SETTING_KEYS = Object.keys(DEFAULT_SETTINGS) as SettingKey[];
+
+export const TAX_YEAR_DEFAULT_LABELS: Record<TaxYearDefault, string> = {
+  current: 'Current year',
+  previous: 'Previous year',
+};
+
+// Each validator returns why a value is unacceptable, or null when it's fine
+const VALIDATORS: { [K in SettingKey]: (value: unknown) => string | null } = {
+  locale: value =>
+    SUPPORTED_LOCALES.some(locale => locale.value === value) ? null : 'Unsupported locale',
+  base_currency: value =>
+    typeof value === 'string' && /^[A-Z]{3}$/.test(value) ? null : 'Currency must be a 3-letter code',
+  default_category: value =>
+    value === null || LINE_ITEM_CATEGORIES.includes(value as never) ? null : 'Unknown category',
+  tax_year_default: value =>
+    value === 'current' || value === 'previous' ? null : 'Tax year must be current or previous',
+  estimated_tax_rate: value =>
+    typeof value === 'number' && value >= 0 && value < 1 ? null : 'Tax rate must be between 0% and 100%',
+  report_itemize_expenses: value =>
+    typeof value === 'boolean' ? null : 'Expected on or off',
+  flip_list_filters: validateFlipListFilters,
+};
+
+export const validateSetting = (key: SettingKey, value: unknown): string | null => {
+  return VALIDATORS[key](value);
+};
+
+// Values are stored as JSON so numbers and booleans keep their type
+export const serializeSetting = <K extends SettingKey>(key: K, value: AppSettings[K]): string => {
+  const error = validateSetting(key, value);
+  if (error) throw new SettingsError(error);
+  return JSON.stringify(value);
+};
+
+// Anything unreadable or no longer valid falls back to the default. Plain
+// text is accepted too, which is how the base currency was first stored.
+export const parseSetting = <K extends SettingKey>(key: K, raw: string | null | undefined): AppSettings[K] => {
+  if (raw == null) return DEFAULT_SETTINGS[key];
+
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch {
+    value = raw;
+  }
+
+  return validateSetting(key, value) ? DEFAULT_SETTINGS[key] : (value as AppSettings[K]);
+};
+
+// Builds the full settings from stored rows; unknown keys are ignored
+export const parseSettings = (rows: Record<string, string>): AppSettings => {
+  const settings = { ...DEFAULT_SETTINGS };
+  for (const key of SETTING_KEYS) {
+    (settings as Record<SettingKey, unknown>)[key] = parseSetting(key, rows[key]);
+  }
+  return settings;
+};
+
+export const resolveTaxYear = (setting: TaxYearDefault, now: Date = new Date()): number => {
+  return setting === 'previous' ? now.getFullYear() - 1 : now.getFullYear();
+};
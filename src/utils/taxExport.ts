@@ -1,22 +1,46 @@
 import * as FileSystem from 'expo-file-system';
 import * as Sharing from 'expo-sharing';
-import { Flip, LineItem, FlipTotals } from '../types';
-import { formatCurrency } from './currency';
+import { Flip, LineItem, FlipTotals, CurrencyCode } from '../types';
+import { formatCurrency, formatPercentage } from './currency';
+import { getConvertedAmount, getExpenseDate, isInTaxYear } from './taxYear';
+import { formatDate, getHoldingPeriod, HoldingPeriod } from './dates';
+import { CATEGORY_LABELS, LINE_ITEM_CATEGORIES } from './categorize';
+import { PdfReportBuilder, PdfTableColumn, PdfTableRow } from './pdfReport';
+import { bytesToBase64 } from './base64';
+import { getVinWarning } from './vin';
+import { buildForm8949, Form8949Part, Form8949Row, SCHEDULE_D_LINES } from './form8949';
 
 export interface TaxExportData {
   flip: Flip;
   lineItems: LineItem[];
   totals: FlipTotals;
   taxYear: number;
+  generatedAt: string;
+}
+
+export interface FlipTaxEntry {
+  flip: Flip;
+  lineItems: LineItem[];
+  totals: FlipTotals;
+  // When a scrapped flip was scrapped, from its status history
+  scrappedAt?: string;
+}
+
+// Amounts below are in cents of the base currency, like FlipTotals
+export interface InventoryTaxEntry extends FlipTaxEntry {
+  costToDate: number;
+  expensesInYear: number;
 }
 
 export interface AllFlipsTaxData {
-  flips: Array<{
-    flip: Flip;
-    lineItems: LineItem[];
-    totals: FlipTotals;
-  }>;
+  // Vehicles sold during the tax year
+  flips: FlipTaxEntry[];
+  // Vehicles still held at the end of the tax year
+  inventory: InventoryTaxEntry[];
   taxYear: number;
+  generatedAt: string;
+  // Base currency every amount in the report is converted to
+  currency: CurrencyCode;
   summary: {
     totalFlips: number;
     totalProfit: number;
@@ -25,26 +49,112 @@ export interface AllFlipsTaxData {
     totalExpenses: number;
     totalSales: number;
     totalPurchases: number;
+    shortTermGainLoss: number;
+    longTermGainLoss: number;
+    // Gain/loss of sales whose holding period can't be determined
+    unclassifiedGainLoss: number;
+    expensesIncurredInYear: number;
+    inventoryCount: number;
+    inventoryCost: number;
+    // Vehicles scrapped or parted out during the year and what they had cost
+    scrappedCount: number;
+    scrappedCost: number;
   };
 }
 
-export const generateTaxExportPDF = async (data: TaxExportData): Promise<string> => {
-  const { flip, lineItems, totals, taxYear } = data;
+// Preferences from the Settings screen that shape the reports
+export interface TaxReportOptions {
+  // Fraction of a net gain to show as estimated tax; 0 leaves the estimate out
+  estimatedTaxRate: number;
+  // List every expense, or only the total for each category
+  itemizeExpenses: boolean;
+}
+
+export const DEFAULT_TAX_REPORT_OPTIONS: TaxReportOptions = {
+  estimatedTaxRate: 0,
+  itemizeExpenses: true,
+};
+
+// A rough figure for setting money aside, not a tax calculation; losses owe nothing
+const describeEstimatedTax = (
+  gainCents: number,
+  currency: CurrencyCode,
+  options: TaxReportOptions
+): [string, string] | null => {
+  if (!(options.estimatedTaxRate > 0)) return null;
+  const estimate = Math.round(Math.max(0, gainCents) * options.estimatedTaxRate);
+  return [`Estimated Tax at ${formatPercentage(options.estimatedTaxRate)}`, formatCurrency(estimate, currency)];
+};
+
+// Amounts are reported in the base currency; ones entered in another
+// currency show the original alongside
+const formatConverted = (
+  convertedCents: number | undefined,
+  originalCents: number,
+  originalCurrency: CurrencyCode,
+  baseCurrency: CurrencyCode
+): string => {
+  const original = formatCurrency(originalCents, originalCurrency);
+  if (originalCurrency === baseCurrency) return original;
+  if (convertedCents === undefined) return `${original} (no exchange rate)`;
+  return `${formatCurrency(convertedCents, baseCurrency)} (${original})`;
+};
+
+const formatBuyPrice = (flip: Flip, totals: FlipTotals): string => {
+  const converted = totals.missingRates.includes(flip.currency) ? undefined : totals.buyPriceCents;
+  return formatConverted(converted, flip.buy_price_cents, flip.currency, totals.currency);
+};
+
+const formatSellPrice = (flip: Flip, totals: FlipTotals): string => {
+  if (flip.sell_price_cents == null) return formatCurrency(0, totals.currency);
+  return formatConverted(totals.sellPriceCents, flip.sell_price_cents, flip.currency, totals.currency);
+};
+
+const formatExpenseAmount = (item: LineItem, totals: FlipTotals): string => {
+  return formatConverted(totals.lineItemCents[item.id], item.amount_cents, item.currency, totals.currency);
+};
+
+const describeMissingRates = (totals: FlipTotals): string | null => {
+  if (totals.missingRates.length === 0) return null;
+  return `No exchange rate from ${totals.missingRates.join(', ')} to ${totals.currency}; ` +
+    `those amounts are left out of the totals`;
+};
+
+const describeConversion = (currency: CurrencyCode): string => {
+  return `Amounts are in ${currency}. Amounts entered in other currencies are converted at the exchange rate in effect on the transaction date.`;
+};
+
+const describeHoldingPeriod = (holding: HoldingPeriod): string => {
+  if (holding.term === 'long') {
+    return `Long-term Capital Gain/Loss (held ${holding.days} days, more than 1 year)`;
+  }
+  if (holding.term === 'short') {
+    return `Short-term Capital Gain/Loss (held ${holding.days} days, 1 year or less)`;
+  }
+  return `UNDETERMINED - ${holding.issue}; verify dates before filing`;
+};
+
+export const generateTaxReportText = async (
+  data: TaxExportData,
+  options: TaxReportOptions = DEFAULT_TAX_REPORT_OPTIONS
+): Promise<string> => {
+  const { flip, lineItems, totals, taxYear, generatedAt } = data;
+  const { currency } = totals;
   
   const displayName = [flip.year, flip.make, flip.model].filter(Boolean).join(' ') || 'Vehicle Flip';
   
   // Generate detailed tax report content
   let content = `TAX REPORT - VEHICLE FLIP\n`;
-  content += `Generated: ${new Date().toLocaleDateString()}\n`;
+  content += `Generated: ${formatDate(generatedAt)}\n`;
   content += `Tax Year: ${taxYear}\n`;
   content += `=================================\n\n`;
   
   // Vehicle Information
   content += `VEHICLE INFORMATION:\n`;
   content += `Vehicle: ${displayName}\n`;
-  content += `VIN: ${flip.vin || 'Not provided'}\n`;
+  content += `VIN: ${describeVin(flip.vin)}\n`;
   content += `Miles: ${flip.miles ? flip.miles.toLocaleString() : 'Not provided'}\n`;
-  content += `Purchase Date: ${new Date(flip.created_at).toLocaleDateString()}\n`;
+  content += `Purchase Date: ${flip.purchase_date ? new Date(flip.purchase_date).toLocaleDateString() : 'Not provided'}\n`;
   if (flip.sold_date) {
     content += `Sale Date: ${new Date(flip.sold_date).toLocaleDateString()}\n`;
   }
@@ -52,68 +162,103 @@ export const generateTaxExportPDF = async (data: TaxExportData): Promise<string>
   
   // Financial Summary
   content += `FINANCIAL SUMMARY:\n`;
-  content += `Purchase Price: ${formatCurrency(flip.buy_price)}\n`;
-  content += `Sale Price: ${formatCurrency(flip.sell_price || 0)}\n`;
-  content += `Total Expenses: ${formatCurrency(totals.totalCost)}\n`;
-  content += `Total Investment: ${formatCurrency(flip.buy_price + totals.totalCost)}\n`;
-  content += `Gross Profit/Loss: ${formatCurrency(totals.profit)}\n`;
+  content += `${describeConversion(currency)}\n`;
+  content += `Purchase Price: ${formatBuyPrice(flip, totals)}\n`;
+  content += `Sale Price: ${formatSellPrice(flip, totals)}\n`;
+  content += `Total Expenses: ${formatCurrency(totals.totalCostCents, currency)}\n`;
+  content += `Total Investment: ${formatCurrency(totals.buyPriceCents + totals.totalCostCents, currency)}\n`;
+  content += `Gross Profit/Loss: ${formatCurrency(totals.profitCents, currency)}\n`;
   content += `ROI: ${(totals.roi * 100).toFixed(2)}%\n`;
+  const missingRates = describeMissingRates(totals);
+  if (missingRates) {
+    content += `⚠ ${missingRates}\n`;
+  }
   content += `\n`;
   
   // Tax Calculations
-  const shortTermGain = flip.sold_date ? totals.profit : 0; // Assuming held < 1 year for flips
+  const holding = getHoldingPeriod(flip.purchase_date, flip.sold_date);
+  const taxableAmount = flip.sold_date ? totals.profitCents : 0;
   content += `TAX IMPLICATIONS:\n`;
-  content += `Classification: Short-term Capital Gain/Loss (assuming held < 1 year)\n`;
-  content += `Taxable Amount: ${formatCurrency(shortTermGain)}\n`;
+  if (flip.sold_date) {
+    content += `Classification: ${describeHoldingPeriod(holding)}\n`;
+  } else {
+    content += `Classification: Not sold - no gain or loss to report yet\n`;
+  }
+  content += `Taxable Amount: ${formatCurrency(taxableAmount, currency)}\n`;
+  const estimatedTax = describeEstimatedTax(taxableAmount, currency, options);
+  if (estimatedTax) {
+    content += `${estimatedTax[0]}: ${estimatedTax[1]}\n`;
+  }
   content += `Note: Consult your tax professional for proper treatment\n`;
   content += `\n`;
   
+  const categories = ['parts', 'labor', 'fees', 'misc'];
+  const uncategorizedItems = lineItems.filter(item => !item.category);
+
   // Detailed Expenses
-  content += `DETAILED EXPENSES:\n`;
-  content += `Category\t\tDescription\t\t\tAmount\t\tDate\n`;
-  content += `${'='.repeat(80)}\n`;
+  if (options.itemizeExpenses) {
+    content += `DETAILED EXPENSES:\n`;
+    content += `Category\t\tDescription\t\t\tAmount\t\tDate\n`;
+    content += `${'='.repeat(80)}\n`;
   
-  // Purchase cost
-  content += `Purchase\t\tVehicle Purchase\t\t${formatCurrency(flip.buy_price)}\t${new Date(flip.created_at).toLocaleDateString()}\n`;
+    // Purchase cost
+    content += `Purchase\t\tVehicle Purchase\t\t${formatBuyPrice(flip, totals)}\t${flip.purchase_date ? new Date(flip.purchase_date).toLocaleDateString() : 'Not specified'}\n`;
   
-  // Line items grouped by category
-  const categories = ['parts', 'labor', 'fees', 'misc'];
-  for (const category of categories) {
-    const categoryItems = lineItems.filter(item => item.category === category);
-    if (categoryItems.length > 0) {
-      for (const item of categoryItems) {
-        const date = item.date ? new Date(item.date).toLocaleDateString() : 'Not specified';
-        content += `${category || 'misc'}\t\t${item.title}\t\t${formatCurrency(item.amount)}\t\t${date}\n`;
+    // Line items grouped by category
+    for (const category of categories) {
+      const categoryItems = lineItems.filter(item => item.category === category);
+      if (categoryItems.length > 0) {
+        for (const item of categoryItems) {
+          const date = item.date ? new Date(item.date).toLocaleDateString() : 'Not specified';
+          content += `${category || 'misc'}\t\t${item.title}\t\t${formatExpenseAmount(item, totals)}\t\t${date}\n`;
+        }
       }
     }
-  }
   
-  // Items without category
-  const uncategorizedItems = lineItems.filter(item => !item.category);
-  for (const item of uncategorizedItems) {
-    const date = item.date ? new Date(item.date).toLocaleDateString() : 'Not specified';
-    content += `misc\t\t${item.title}\t\t${formatCurrency(item.amount)}\t\t${date}\n`;
-  }
-  
-  content += `${'='.repeat(80)}\n`;
-  content += `TOTAL EXPENSES: ${formatCurrency(totals.totalCost)}\n`;
-  content += `\n`;
+    // Items without category
+    for (const item of uncategorizedItems) {
+      const date = item.date ? new Date(item.date).toLocaleDateString() : 'Not specified';
+      content += `misc\t\t${item.title}\t\t${formatExpenseAmount(item, totals)}\t\t${date}\n`;
+    }
   
+    content += `${'='.repeat(80)}\n`;
+    content += `TOTAL EXPENSES: ${formatCurrency(totals.totalCostCents, currency)}\n`;
+    content += `\n`;
+  }
+
   // Category Totals
   content += `EXPENSE SUMMARY BY CATEGORY:\n`;
   for (const category of categories) {
     const categoryItems = lineItems.filter(item => item.category === category);
     if (categoryItems.length > 0) {
-      const categoryTotal = categoryItems.reduce((sum, item) => sum + item.amount, 0);
-      content += `${category.charAt(0).toUpperCase() + category.slice(1)}: ${formatCurrency(categoryTotal)}\n`;
+      const categoryTotal = categoryItems.reduce((sum, item) => sum + getConvertedAmount(item, totals), 0);
+      content += `${category.charAt(0).toUpperCase() + category.slice(1)}: ${formatCurrency(categoryTotal, currency)}\n`;
     }
   }
   
-  const uncategorizedTotal = uncategorizedItems.reduce((sum, item) => sum + item.amount, 0);
+  const uncategorizedTotal = uncategorizedItems.reduce((sum, item) => sum + getConvertedAmount(item, totals), 0);
   if (uncategorizedTotal > 0) {
-    content += `Miscellaneous: ${formatCurrency(uncategorizedTotal)}\n`;
+    content += `Miscellaneous: ${formatCurrency(uncategorizedTotal, currency)}\n`;
   }
   
+  content += `\n`;
+
+  // Receipt documentation
+  const withReceipt = lineItems.filter(item => !!item.receipt_uri);
+  const missingReceipt = lineItems.filter(item => !item.receipt_uri);
+  content += `RECEIPTS (${withReceipt.length} of ${lineItems.length} expenses documented):\n`;
+  if (withReceipt.length > 0) {
+    content += `Receipt on file:\n`;
+    withReceipt.forEach(item => {
+      content += `  ✓ ${item.title}: ${formatExpenseAmount(item, totals)}\n`;
+    });
+  }
+  if (missingReceipt.length > 0) {
+    content += `Missing receipt:\n`;
+    missingReceipt.forEach(item => {
+      content += `  ✗ ${item.title}: ${formatExpenseAmount(item, totals)}\n`;
+    });
+  }
   content += `\n`;
   content += `IMPORTANT NOTES:\n`;
   content += `- This report is for tax preparation purposes\n`;
@@ -125,33 +270,101 @@ export const generateTaxExportPDF = async (data: TaxExportData): Promise<string>
   return content;
 };
 
-export const generateAllFlipsTaxReport = async (data: AllFlipsTaxData): Promise<string> => {
-  const { flips, taxYear, summary } = data;
+const formatForm8949Row = (row: Form8949Row, currency: CurrencyCode): string => {
+  let line = `  ${row.description}\n`;
+  line += `    (b) Acquired ${row.dateAcquired || '—'}  (c) Sold ${row.dateSold || '—'}\n`;
+  line += `    (d) Proceeds ${formatCurrency(row.proceeds, currency)}  (e) Basis ${formatCurrency(row.costBasis, currency)}`;
+  if (row.adjustmentAmount) {
+    line += `  (f) ${row.adjustmentCode}  (g) ${formatCurrency(row.adjustmentAmount, currency)}`;
+  }
+  line += `  (h) ${formatCurrency(row.gainOrLoss, currency)}\n`;
+  return line;
+};
+
+const formatForm8949Part = (title: string, part: Form8949Part, currency: CurrencyCode): string => {
+  let content = `${title} - Box ${part.box}:\n`;
+  if (part.rows.length === 0) {
+    content += `  None\n`;
+  }
+  part.rows.forEach(row => {
+    content += formatForm8949Row(row, currency);
+  });
+  content += `  Totals: proceeds ${formatCurrency(part.totals.proceeds, currency)}, basis ${formatCurrency(part.totals.costBasis, currency)}, gain/loss ${formatCurrency(part.totals.gainOrLoss, currency)}\n`;
+  content += `  Carry to Schedule D line ${SCHEDULE_D_LINES[part.term]}\n\n`;
+  return content;
+};
+
+// Form 8949 rows ready to transcribe, one per vehicle sold in the tax year
+const generateForm8949Text = (data: AllFlipsTaxData): string => {
+  const form = buildForm8949(data);
+
+  let content = `FORM 8949 WORKSHEET (SCHEDULE D):\n`;
+  content += `Cost basis includes the purchase price and all recorded repairs and fees.\n\n`;
+  content += formatForm8949Part('Part I - Short-Term', form.shortTerm, data.currency);
+  content += formatForm8949Part('Part II - Long-Term', form.longTerm, data.currency);
+
+  if (form.needsReview.length > 0) {
+    content += `Not included above - holding period unknown:\n`;
+    form.needsReview.forEach(row => {
+      content += formatForm8949Row(row, data.currency);
+      content += `    ⚠ ${row.issue}\n`;
+    });
+    content += `\n`;
+  }
+
+  return content;
+};
+
+export const generateAllFlipsTaxReportText = async (
+  data: AllFlipsTaxData,
+  options: TaxReportOptions = DEFAULT_TAX_REPORT_OPTIONS
+): Promise<string> => {
+  const { flips, inventory, taxYear, summary, generatedAt, currency } = data;
+  const unclassified = flips.filter(({ flip }) => !getHoldingPeriod(flip.purchase_date, flip.sold_date).term);
+  const missingRates = [...flips, ...inventory].filter(({ totals }) => totals.missingRates.length > 0);
   
   let content = `COMPLETE TAX REPORT - ALL VEHICLE FLIPS\n`;
-  content += `Generated: ${new Date().toLocaleDateString()}\n`;
+  content += `Generated: ${formatDate(generatedAt)}\n`;
   content += `Tax Year: ${taxYear}\n`;
   content += `=================================================================\n\n`;
   
   // EXECUTIVE SUMMARY
   content += `EXECUTIVE SUMMARY:\n`;
-  content += `Total Vehicles Flipped: ${summary.totalFlips}\n`;
-  content += `Total Sales Revenue: ${formatCurrency(summary.totalSales)}\n`;
-  content += `Total Purchase Cost: ${formatCurrency(summary.totalPurchases)}\n`;
-  content += `Total Operating Expenses: ${formatCurrency(summary.totalExpenses)}\n`;
-  content += `Net Gain/Loss: ${formatCurrency(summary.netGainLoss)}\n`;
+  content += `${describeConversion(currency)}\n`;
+  content += `Vehicles Sold in ${taxYear}: ${summary.totalFlips}\n`;
+  content += `Total Sales Revenue: ${formatCurrency(summary.totalSales, currency)}\n`;
+  content += `Total Purchase Cost (vehicles sold): ${formatCurrency(summary.totalPurchases, currency)}\n`;
+  content += `Total Operating Expenses (vehicles sold): ${formatCurrency(summary.totalExpenses, currency)}\n`;
+  content += `Net Gain/Loss: ${formatCurrency(summary.netGainLoss, currency)}\n`;
+  const estimatedTax = describeEstimatedTax(summary.netGainLoss, currency, options);
+  if (estimatedTax) {
+    content += `${estimatedTax[0]}: ${estimatedTax[1]}\n`;
+  }
+  content += `  Short-term Gain/Loss: ${formatCurrency(summary.shortTermGainLoss, currency)}\n`;
+  content += `  Long-term Gain/Loss: ${formatCurrency(summary.longTermGainLoss, currency)}\n`;
+  if (unclassified.length > 0) {
+    content += `  Unclassified (dates missing): ${formatCurrency(summary.unclassifiedGainLoss, currency)}\n`;
+  }
+  content += `Expenses Incurred in ${taxYear} (all vehicles): ${formatCurrency(summary.expensesIncurredInYear, currency)}\n`;
+  content += `Unsold Inventory at Year End: ${summary.inventoryCount} vehicle(s), ${formatCurrency(summary.inventoryCost, currency)} invested\n`;
+  if (summary.scrappedCount > 0) {
+    content += `Scrapped / Parted Out in ${taxYear}: ${summary.scrappedCount} vehicle(s), ${formatCurrency(summary.scrappedCost, currency)} written off\n`;
+  }
   content += `\n`;
   
   // TAX CLASSIFICATION
   content += `TAX TREATMENT:\n`;
   content += `Business Activity: Vehicle Flipping/Resale\n`;
-  content += `Classification: Short-term Capital Gains (vehicles typically held < 1 year)\n`;
+  content += `Classification: Per vehicle, by holding period (long-term if held more than 1 year)\n`;
   content += `Schedule: Report on Schedule D (Capital Gains and Losses)\n`;
   content += `Self-Employment: May require Schedule C if this is a business activity\n`;
   content += `\n`;
+
+  // FORM 8949 WORKSHEET
+  content += generateForm8949Text(data);
   
   // DETAILED BREAKDOWN BY VEHICLE
-  content += `DETAILED VEHICLE-BY-VEHICLE BREAKDOWN:\n`;
+  content += `DETAILED BREAKDOWN - VEHICLES SOLD IN ${taxYear}:\n`;
   content += `${'='.repeat(80)}\n`;
   
   flips.forEach((flipData, index) => {
@@ -160,18 +373,27 @@ export const generateAllFlipsTaxReport = async (data: AllFlipsTaxData): Promise<
     
     content += `\nVEHICLE ${index + 1}: ${displayName}\n`;
     content += `-`.repeat(50) + '\n';
-    content += `Purchase Date: ${new Date(flip.created_at).toLocaleDateString()}\n`;
+    content += `Purchase Date: ${flip.purchase_date ? new Date(flip.purchase_date).toLocaleDateString() : 'Not provided'}\n`;
     content += `Sale Date: ${flip.sold_date ? new Date(flip.sold_date).toLocaleDateString() : 'Not sold'}\n`;
-    content += `VIN: ${flip.vin || 'Not provided'}\n`;
+    content += `VIN: ${describeVin(flip.vin)}\n`;
     content += `Miles: ${flip.miles ? flip.miles.toLocaleString() : 'Not provided'}\n`;
+    content += `Holding Period: ${describeHoldingPeriod(getHoldingPeriod(flip.purchase_date, flip.sold_date))}\n`;
     
     content += `\nFINANCIALS:\n`;
-    content += `Purchase Price: ${formatCurrency(flip.buy_price)}\n`;
-    content += `Sale Price: ${formatCurrency(flip.sell_price || 0)}\n`;
-    content += `Operating Expenses: ${formatCurrency(totals.totalCost)}\n`;
-    content += `Total Investment: ${formatCurrency(flip.buy_price + totals.totalCost)}\n`;
-    content += `Profit/Loss: ${formatCurrency(totals.profit)}\n`;
+    content += `Purchase Price: ${formatBuyPrice(flip, totals)}\n`;
+    content += `Sale Price: ${formatSellPrice(flip, totals)}\n`;
+    content += `Operating Expenses: ${formatCurrency(totals.totalCostCents, currency)}\n`;
+    content += `Total Investment: ${formatCurrency(totals.buyPriceCents + totals.totalCostCents, currency)}\n`;
+    content += `Profit/Loss: ${formatCurrency(totals.profitCents, currency)}\n`;
     content += `ROI: ${(totals.roi * 100).toFixed(2)}%\n`;
+
+    const expensesInYear = lineItems
+      .filter(item => isInTaxYear(getExpenseDate(item), taxYear))
+      .reduce((sum, item) => sum + getConvertedAmount(item, totals), 0);
+    if (expensesInYear !== totals.totalCostCents) {
+      content += `Expenses Incurred in ${taxYear}: ${formatCurrency(expensesInYear, currency)}\n`;
+      content += `Expenses Incurred in Other Years: ${formatCurrency(totals.totalCostCents - expensesInYear, currency)}\n`;
+    }
     
     if (lineItems.length > 0) {
       content += `\nEXPENSE BREAKDOWN:\n`;
@@ -181,45 +403,104 @@ export const generateAllFlipsTaxReport = async (data: AllFlipsTaxData): Promise<
       categories.forEach(category => {
         const categoryItems = lineItems.filter(item => item.category === category);
         if (categoryItems.length > 0) {
-          const categoryTotal = categoryItems.reduce((sum, item) => sum + item.amount, 0);
-          content += `\n${category.toUpperCase()}: ${formatCurrency(categoryTotal)}\n`;
-          categoryItems.forEach(item => {
-            const date = item.date ? new Date(item.date).toLocaleDateString() : new Date(item.created_at).toLocaleDateString();
-            content += `  • ${item.title}: ${formatCurrency(item.amount)} (${date})\n`;
-          });
+          const categoryTotal = categoryItems.reduce((sum, item) => sum + getConvertedAmount(item, totals), 0);
+          content += `\n${category.toUpperCase()}: ${formatCurrency(categoryTotal, currency)}\n`;
+          if (options.itemizeExpenses) {
+            categoryItems.forEach(item => {
+              const date = item.date ? new Date(item.date).toLocaleDateString() : new Date(item.created_at).toLocaleDateString();
+              content += `  • ${item.title}: ${formatExpenseAmount(item, totals)} (${date})${item.receipt_uri ? '' : ' [no receipt]'}\n`;
+            });
+          }
         }
       });
       
       // Uncategorized items
       const uncategorized = lineItems.filter(item => !item.category);
       if (uncategorized.length > 0) {
-        const uncategorizedTotal = uncategorized.reduce((sum, item) => sum + item.amount, 0);
-        content += `\nMISCELLANEOUS: ${formatCurrency(uncategorizedTotal)}\n`;
-        uncategorized.forEach(item => {
-          const date = item.date ? new Date(item.date).toLocaleDateString() : new Date(item.created_at).toLocaleDateString();
-          content += `  • ${item.title}: ${formatCurrency(item.amount)} (${date})\n`;
-        });
+        const uncategorizedTotal = uncategorized.reduce((sum, item) => sum + getConvertedAmount(item, totals), 0);
+        content += `\nMISCELLANEOUS: ${formatCurrency(uncategorizedTotal, currency)}\n`;
+        if (options.itemizeExpenses) {
+          uncategorized.forEach(item => {
+            const date = item.date ? new Date(item.date).toLocaleDateString() : new Date(item.created_at).toLocaleDateString();
+            content += `  • ${item.title}: ${formatExpenseAmount(item, totals)} (${date})${item.receipt_uri ? '' : ' [no receipt]'}\n`;
+          });
+        }
       }
+
+      const documented = lineItems.filter(item => !!item.receipt_uri).length;
+      content += `\nReceipts: ${documented} of ${lineItems.length} expenses documented\n`;
     }
     
     content += `\n${'='.repeat(80)}\n`;
   });
   
-  // SUMMARY BY CATEGORY (ALL VEHICLES)
-  content += `\nCOMBINED EXPENSE SUMMARY BY CATEGORY:\n`;
+  if (flips.length === 0) {
+    content += `\nNo vehicles were sold in ${taxYear}.\n`;
+  }
+
+  // FLAGGED HOLDING PERIODS
+  if (unclassified.length > 0) {
+    content += `\nNEEDS REVIEW - HOLDING PERIOD UNKNOWN:\n`;
+    unclassified.forEach(({ flip, totals }) => {
+      const displayName = [flip.year, flip.make, flip.model].filter(Boolean).join(' ') || `Flip #${flip.id}`;
+      const { issue } = getHoldingPeriod(flip.purchase_date, flip.sold_date);
+      content += `  ⚠ ${displayName}: ${issue} (gain/loss ${formatCurrency(totals.profitCents, currency)})\n`;
+    });
+  }
+
+  // FLAGGED CONVERSIONS
+  if (missingRates.length > 0) {
+    content += `\nNEEDS REVIEW - MISSING EXCHANGE RATES:\n`;
+    missingRates.forEach(({ flip, totals }) => {
+      const displayName = [flip.year, flip.make, flip.model].filter(Boolean).join(' ') || `Flip #${flip.id}`;
+      content += `  ⚠ ${displayName}: ${describeMissingRates(totals)}\n`;
+    });
+  }
+
+  // UNSOLD INVENTORY
+  content += `\nUNSOLD INVENTORY AT END OF ${taxYear}:\n`;
+  content += `(Not a gain or loss for ${taxYear}; costs carry forward until the vehicle is sold)\n`;
+  if (inventory.length === 0) {
+    content += `None\n`;
+  }
+  inventory.forEach(({ flip, costToDate, expensesInYear }) => {
+    const displayName = [flip.year, flip.make, flip.model].filter(Boolean).join(' ') || `Flip #${flip.id}`;
+    content += `  • ${displayName}`;
+    content += ` - Purchased ${flip.purchase_date ? new Date(flip.purchase_date).toLocaleDateString() : 'date not provided'}`;
+    content += `, cost to date ${formatCurrency(costToDate, currency)}`;
+    content += `, ${taxYear} expenses ${formatCurrency(expensesInYear, currency)}\n`;
+  });
+
+  // SUMMARY BY CATEGORY (VEHICLES SOLD)
+  content += `\nCOMBINED EXPENSE SUMMARY BY CATEGORY (VEHICLES SOLD):\n`;
   const allExpenses: Record<string, number> = {};
   
-  flips.forEach(({ lineItems }) => {
+  flips.forEach(({ lineItems, totals }) => {
     lineItems.forEach(item => {
       const category = item.category || 'misc';
-      allExpenses[category] = (allExpenses[category] || 0) + item.amount;
+      allExpenses[category] = (allExpenses[category] || 0) + getConvertedAmount(item, totals);
     });
   });
   
   Object.entries(allExpenses).forEach(([category, total]) => {
-    content += `${category.charAt(0).toUpperCase() + category.slice(1)}: ${formatCurrency(total)}\n`;
+    content += `${category.charAt(0).toUpperCase() + category.slice(1)}: ${formatCurrency(total, currency)}\n`;
   });
   
+  // RECEIPT DOCUMENTATION (ALL VEHICLES)
+  const missingReceipts = flips.flatMap(({ flip, lineItems, totals }) =>
+    lineItems.filter(item => !item.receipt_uri).map(item => ({ flip, item, totals }))
+  );
+  const totalLineItems = flips.reduce((sum, { lineItems }) => sum + lineItems.length, 0);
+  content += `\nRECEIPT DOCUMENTATION:\n`;
+  content += `Expenses with receipts: ${totalLineItems - missingReceipts.length} of ${totalLineItems}\n`;
+  if (missingReceipts.length > 0) {
+    content += `Expenses missing a receipt:\n`;
+    missingReceipts.forEach(({ flip, item, totals }) => {
+      const vehicle = [flip.year, flip.make, flip.model].filter(Boolean).join(' ') || `Flip #${flip.id}`;
+      content += `  ✗ ${vehicle} - ${item.title}: ${formatExpenseAmount(item, totals)}\n`;
+    });
+  }
+
   // TAX PREPARATION CHECKLIST
   content += `\nTAX PREPARATION CHECKLIST:\n`;
   content += `□ Keep all purchase receipts and contracts\n`;
@@ -244,51 +525,436 @@ export const generateAllFlipsTaxReport = async (data: AllFlipsTaxData): Promise<
   return content;
 };
 
-export const exportAllFlipsTaxReport = async (data: AllFlipsTaxData) => {
-  try {
-    const content = await generateAllFlipsTaxReport(data);
-    const fileName = `AutoTrackr_Complete_Tax_Report_${data.taxYear}.txt`;
-    const fileUri = `${FileSystem.documentDirectory}${fileName}`;
+const getDisplayName = (flip: Flip, fallback = 'Vehicle Flip'): string => {
+  return [flip.year, flip.make, flip.model].filter(Boolean).join(' ') || fallback;
+};
 
-    await FileSystem.writeAsStringAsync(fileUri, content, {
-      encoding: FileSystem.EncodingType.UTF8,
-    });
+// VINs that fail validation are printed as entered, with the reason, so
+// they can be corrected before the report is filed
+const describeVin = (vin?: string): string => {
+  if (!vin) return 'Not provided';
+  const warning = getVinWarning(vin);
+  return warning ? `${vin} (${warning})` : vin;
+};
+
+const formatReportDate = (dateString?: string, fallback = 'Not provided'): string => {
+  return dateString ? formatDate(dateString) : fallback;
+};
 
-    if (await Sharing.isAvailableAsync()) {
-      await Sharing.shareAsync(fileUri, {
-        mimeType: 'text/plain',
-        dialogTitle: 'Export Complete Tax Report',
+const formatTerm = (holding: HoldingPeriod): string => {
+  if (holding.term === 'long') return 'Long-term';
+  if (holding.term === 'short') return 'Short-term';
+  return 'Unknown';
+};
+
+// Groups expenses in report order; uncategorized items are reported as misc.
+// Totals use the converted amounts, keyed by line item ID.
+const groupExpensesByCategory = (lineItems: LineItem[], lineItemCents: Record<number, number>) => {
+  return LINE_ITEM_CATEGORIES
+    .map(category => {
+      const items = lineItems.filter(item => (item.category || 'misc') === category);
+      return {
+        label: CATEGORY_LABELS[category],
+        items,
+        total: items.reduce((sum, item) => sum + (lineItemCents[item.id] ?? 0), 0),
+      };
+    })
+    .filter(group => group.items.length > 0);
+};
+
+const EXPENSE_COLUMNS: PdfTableColumn[] = [
+  { header: 'Category', width: 0.14 },
+  { header: 'Description', width: 0.38 },
+  { header: 'Date', width: 0.16 },
+  { header: 'Receipt', width: 0.12 },
+  { header: 'Amount', width: 0.2, align: 'right' },
+];
+
+// Without itemizing, each category collapses to one row with its count and
+// how many receipts are on file
+const buildExpenseRows = (lineItems: LineItem[], totals: FlipTotals, itemize: boolean): PdfTableRow[] => {
+  const rows: PdfTableRow[] = [];
+
+  for (const group of groupExpensesByCategory(lineItems, totals.lineItemCents)) {
+    if (!itemize) {
+      const documented = group.items.filter(item => !!item.receipt_uri).length;
+      rows.push({
+        cells: [
+          group.label,
+          `${group.items.length} expense(s)`,
+          '',
+          `${documented} of ${group.items.length}`,
+          formatCurrency(group.total, totals.currency),
+        ],
       });
+      continue;
     }
-    
-    return fileUri;
+
+    for (const item of group.items) {
+      rows.push({
+        cells: [
+          group.label,
+          item.title,
+          formatReportDate(getExpenseDate(item)),
+          item.receipt_uri ? 'On file' : 'Missing',
+          formatExpenseAmount(item, totals),
+        ],
+      });
+    }
+    rows.push({ cells: ['', `${group.label} subtotal`, '', '', formatCurrency(group.total, totals.currency)], style: 'subtotal' });
+  }
+
+  return rows;
+};
+
+const TAX_NOTES = [
+  'This report is for tax preparation purposes only.',
+  'Consult with a qualified tax professional.',
+  'Keep all receipts and supporting documentation.',
+  'Vehicle flipping may require a business license in some jurisdictions.',
+  'Consider quarterly estimated tax payments for significant gains.',
+];
+
+export const generateTaxReportPDF = async (
+  data: TaxExportData,
+  options: TaxReportOptions = DEFAULT_TAX_REPORT_OPTIONS
+): Promise<Uint8Array> => {
+  const { flip, lineItems, totals, taxYear, generatedAt } = data;
+  const { currency } = totals;
+  const displayName = getDisplayName(flip);
+  const holding = getHoldingPeriod(flip.purchase_date, flip.sold_date);
+
+  const report = new PdfReportBuilder({
+    title: 'Tax Report - Vehicle Flip',
+    subtitle: `${displayName} - Tax Year ${taxYear}`,
+    footerNote: `Generated ${formatDate(generatedAt)} by FlipTrackr`,
+  });
+
+  report.heading('Vehicle Information');
+  report.keyValues([
+    ['Vehicle', displayName],
+    ['VIN', describeVin(flip.vin)],
+    ['Miles', flip.miles ? flip.miles.toLocaleString('en-US') : 'Not provided'],
+    ['Purchase Date', formatReportDate(flip.purchase_date)],
+    ['Sale Date', formatReportDate(flip.sold_date, 'Not sold')],
+  ]);
+
+  report.heading('Financial Summary');
+  report.paragraph(describeConversion(currency), { muted: true });
+  report.keyValues([
+    ['Purchase Price', formatBuyPrice(flip, totals)],
+    ['Sale Price', formatSellPrice(flip, totals)],
+    ['Total Expenses', formatCurrency(totals.totalCostCents, currency)],
+    ['Total Investment', formatCurrency(totals.buyPriceCents + totals.totalCostCents, currency)],
+    ['Gross Profit/Loss', formatCurrency(totals.profitCents, currency)],
+    ['ROI', `${(totals.roi * 100).toFixed(2)}%`],
+  ]);
+  const missingRates = describeMissingRates(totals);
+  if (missingRates) {
+    report.paragraph(`Warning: ${missingRates}.`);
+  }
+
+  const taxableAmount = flip.sold_date ? totals.profitCents : 0;
+  const estimatedTax = describeEstimatedTax(taxableAmount, currency, options);
+  report.heading('Tax Implications');
+  report.keyValues([
+    ['Classification', flip.sold_date ? describeHoldingPeriod(holding) : 'Not sold - no gain or loss to report yet'],
+    ['Taxable Amount', formatCurrency(taxableAmount, currency)],
+    ...(estimatedTax ? [estimatedTax] : []),
+  ]);
+  report.paragraph('Consult your tax professional for proper treatment.', { muted: true });
+
+  report.heading(options.itemizeExpenses ? 'Detailed Expenses' : 'Expenses by Category');
+  report.table(EXPENSE_COLUMNS, [
+    {
+      cells: ['Purchase', 'Vehicle purchase', formatReportDate(flip.purchase_date), '', formatBuyPrice(flip, totals)],
+    },
+    ...buildExpenseRows(lineItems, totals, options.itemizeExpenses),
+    { cells: ['', 'Total expenses', '', '', formatCurrency(totals.totalCostCents, currency)], style: 'total' },
+  ]);
+
+  const documented = lineItems.filter(item => !!item.receipt_uri).length;
+  report.keyValues([['Receipts on File', `${documented} of ${lineItems.length} expenses`]]);
+
+  report.heading('Important Notes');
+  report.bullets(TAX_NOTES);
+
+  return report.build();
+};
+
+const FORM_8949_COLUMNS: PdfTableColumn[] = [
+  { header: '(a) Description', width: 0.3 },
+  { header: '(b) Acquired', width: 0.11 },
+  { header: '(c) Sold', width: 0.11 },
+  { header: '(d) Proceeds', width: 0.12, align: 'right' },
+  { header: '(e) Basis', width: 0.12, align: 'right' },
+  { header: '(f)/(g) Adj.', width: 0.1, align: 'right' },
+  { header: '(h) Gain/Loss', width: 0.14, align: 'right' },
+];
+
+const toForm8949Cells = (row: Form8949Row, currency: CurrencyCode): string[] => [
+  row.description,
+  row.dateAcquired || '-',
+  row.dateSold || '-',
+  formatCurrency(row.proceeds, currency),
+  formatCurrency(row.costBasis, currency),
+  row.adjustmentAmount ? `${row.adjustmentCode} ${formatCurrency(row.adjustmentAmount, currency)}` : '',
+  formatCurrency(row.gainOrLoss, currency),
+];
+
+const addForm8949Section = (report: PdfReportBuilder, data: AllFlipsTaxData) => {
+  const form = buildForm8949(data);
+  const { currency } = data;
+
+  report.heading('Form 8949 Worksheet');
+  report.paragraph('Cost basis includes the purchase price and all recorded repairs and fees.', { muted: true });
+
+  const parts: Array<[string, Form8949Part]> = [
+    ['Part I - Short-Term', form.shortTerm],
+    ['Part II - Long-Term', form.longTerm],
+  ];
+  for (const [title, part] of parts) {
+    report.spacer(6);
+    report.subheading(`${title} (Box ${part.box})`);
+    report.table(FORM_8949_COLUMNS, [
+      ...part.rows.map(row => ({ cells: toForm8949Cells(row, currency) })),
+      {
+        cells: [
+          `Totals - Schedule D line ${SCHEDULE_D_LINES[part.term]}`,
+          '',
+          '',
+          formatCurrency(part.totals.proceeds, currency),
+          formatCurrency(part.totals.costBasis, currency),
+          part.totals.adjustmentAmount ? formatCurrency(part.totals.adjustmentAmount, currency) : '',
+          formatCurrency(part.totals.gainOrLoss, currency),
+        ],
+        style: 'total' as const,
+      },
+    ]);
+  }
+
+  if (form.needsReview.length > 0) {
+    report.subheading('Not Included Above - Holding Period Unknown');
+    report.table(FORM_8949_COLUMNS, form.needsReview.map(row => ({ cells: toForm8949Cells(row, currency) })));
+  }
+};
+
+export const generateAllFlipsTaxReportPDF = async (
+  data: AllFlipsTaxData,
+  options: TaxReportOptions = DEFAULT_TAX_REPORT_OPTIONS
+): Promise<Uint8Array> => {
+  const { flips, inventory, taxYear, summary, generatedAt, currency } = data;
+  const estimatedTax = describeEstimatedTax(summary.netGainLoss, currency, options);
+
+  const report = new PdfReportBuilder({
+    title: 'Complete Tax Report - All Vehicle Flips',
+    subtitle: `Tax Year ${taxYear}`,
+    footerNote: `Generated ${formatDate(generatedAt)} by FlipTrackr`,
+  });
+
+  report.heading('Executive Summary');
+  report.paragraph(describeConversion(currency), { muted: true });
+  report.keyValues([
+    [`Vehicles Sold in ${taxYear}`, String(summary.totalFlips)],
+    ['Total Sales Revenue', formatCurrency(summary.totalSales, currency)],
+    ['Total Purchase Cost (vehicles sold)', formatCurrency(summary.totalPurchases, currency)],
+    ['Total Operating Expenses (vehicles sold)', formatCurrency(summary.totalExpenses, currency)],
+    ['Net Gain/Loss', formatCurrency(summary.netGainLoss, currency)],
+    ...(estimatedTax ? [estimatedTax] : []),
+    ['Short-term Gain/Loss', formatCurrency(summary.shortTermGainLoss, currency)],
+    ['Long-term Gain/Loss', formatCurrency(summary.longTermGainLoss, currency)],
+    [`Expenses Incurred in ${taxYear}`, formatCurrency(summary.expensesIncurredInYear, currency)],
+    ['Unsold Inventory at Year End', `${summary.inventoryCount} vehicle(s), ${formatCurrency(summary.inventoryCost, currency)} invested`],
+    ...(summary.scrappedCount > 0
+      ? [[`Scrapped / Parted Out in ${taxYear}`, `${summary.scrappedCount} vehicle(s), ${formatCurrency(summary.scrappedCost, currency)} written off`] as [string, string]]
+      : []),
+  ]);
+
+  const missingRates = [...flips, ...inventory].filter(({ totals }) => totals.missingRates.length > 0);
+  if (missingRates.length > 0) {
+    report.subheading('Needs Review - Missing Exchange Rates');
+    report.bullets(missingRates.map(({ flip, totals }) =>
+      `${getDisplayName(flip, `Flip #${flip.id}`)}: ${describeMissingRates(totals)}`
+    ));
+  }
+
+  report.heading('Tax Treatment');
+  report.keyValues([
+    ['Business Activity', 'Vehicle Flipping/Resale'],
+    ['Classification', 'Per vehicle, by holding period (long-term if held more than 1 year)'],
+    ['Schedule', 'Report on Schedule D (Capital Gains and Losses)'],
+    ['Self-Employment', 'May require Schedule C if this is a business activity'],
+  ]);
+
+  report.heading(`Vehicles Sold in ${taxYear}`);
+  if (flips.length === 0) {
+    report.paragraph(`No vehicles were sold in ${taxYear}.`, { muted: true });
+  } else {
+    const saleRows: PdfTableRow[] = flips.map(({ flip, totals }, index) => ({
+      cells: [
+        getDisplayName(flip, `Vehicle ${index + 1}`),
+        formatReportDate(flip.purchase_date, 'Missing'),
+        formatReportDate(flip.sold_date, 'Missing'),
+        formatTerm(getHoldingPeriod(flip.purchase_date, flip.sold_date)),
+        formatCurrency(totals.sellPriceCents || 0, currency),
+        formatCurrency(totals.buyPriceCents + totals.totalCostCents, currency),
+        formatCurrency(totals.profitCents, currency),
+      ],
+    }));
+
+    saleRows.push({ cells: ['Short-term total', '', '', '', '', '', formatCurrency(summary.shortTermGainLoss, currency)], style: 'subtotal' });
+    saleRows.push({ cells: ['Long-term total', '', '', '', '', '', formatCurrency(summary.longTermGainLoss, currency)], style: 'subtotal' });
+    if (flips.some(({ flip }) => !getHoldingPeriod(flip.purchase_date, flip.sold_date).term)) {
+      saleRows.push({ cells: ['Unclassified total', '', '', '', '', '', formatCurrency(summary.unclassifiedGainLoss, currency)], style: 'subtotal' });
+    }
+    saleRows.push({ cells: ['Net gain/loss', '', '', '', formatCurrency(summary.totalSales, currency), '', formatCurrency(summary.netGainLoss, currency)], style: 'total' });
+
+    report.table([
+      { header: 'Vehicle', width: 0.24 },
+      { header: 'Acquired', width: 0.12 },
+      { header: 'Sold', width: 0.12 },
+      { header: 'Term', width: 0.12 },
+      { header: 'Proceeds', width: 0.13, align: 'right' },
+      { header: 'Cost Basis', width: 0.14, align: 'right' },
+      { header: 'Gain/Loss', width: 0.13, align: 'right' },
+    ], saleRows);
+
+    const unclassified = flips.filter(({ flip }) => !getHoldingPeriod(flip.purchase_date, flip.sold_date).term);
+    if (unclassified.length > 0) {
+      report.subheading('Needs Review - Holding Period Unknown');
+      report.bullets(unclassified.map(({ flip, totals }) =>
+        `${getDisplayName(flip, `Flip #${flip.id}`)}: ${getHoldingPeriod(flip.purchase_date, flip.sold_date).issue} (gain/loss ${formatCurrency(totals.profitCents, currency)})`
+      ));
+    }
+  }
+
+  addForm8949Section(report, data);
+
+  flips.forEach(({ flip, lineItems, totals }, index) => {
+    report.heading(`Vehicle ${index + 1}: ${getDisplayName(flip, `Vehicle ${index + 1}`)}`);
+    report.keyValues([
+      ['VIN', describeVin(flip.vin)],
+      ['Miles', flip.miles ? flip.miles.toLocaleString('en-US') : 'Not provided'],
+      ['Holding Period', describeHoldingPeriod(getHoldingPeriod(flip.purchase_date, flip.sold_date))],
+      ['Purchase Price', formatBuyPrice(flip, totals)],
+      ['Sale Price', formatSellPrice(flip, totals)],
+      ['Profit/Loss', formatCurrency(totals.profitCents, currency)],
+      ['ROI', `${(totals.roi * 100).toFixed(2)}%`],
+    ]);
+
+    if (lineItems.length > 0) {
+      report.spacer(6);
+      report.table(EXPENSE_COLUMNS, [
+        ...buildExpenseRows(lineItems, totals, options.itemizeExpenses),
+        { cells: ['', 'Total expenses', '', '', formatCurrency(totals.totalCostCents, currency)], style: 'total' },
+      ]);
+    }
+  });
+
+  report.heading(`Unsold Inventory at End of ${taxYear}`);
+  report.paragraph(`Not a gain or loss for ${taxYear}; costs carry forward until the vehicle is sold.`, { muted: true });
+  if (inventory.length === 0) {
+    report.paragraph('None');
+  } else {
+    report.table([
+      { header: 'Vehicle', width: 0.4 },
+      { header: 'Purchased', width: 0.2 },
+      { header: 'Cost to Date', width: 0.2, align: 'right' },
+      { header: `${taxYear} Expenses`, width: 0.2, align: 'right' },
+    ], [
+      ...inventory.map(({ flip, costToDate, expensesInYear }) => ({
+        cells: [
+          getDisplayName(flip, `Flip #${flip.id}`),
+          formatReportDate(flip.purchase_date),
+          formatCurrency(costToDate, currency),
+          formatCurrency(expensesInYear, currency),
+        ],
+      })),
+      { cells: ['Total', '', formatCurrency(summary.inventoryCost, currency), ''], style: 'total' as const },
+    ]);
+  }
+
+  report.heading('Combined Expenses by Category (Vehicles Sold)');
+  const allLineItems = flips.flatMap(({ lineItems }) => lineItems);
+  const allLineItemCents = Object.assign({}, ...flips.map(({ totals }) => totals.lineItemCents));
+  const categoryGroups = groupExpensesByCategory(allLineItems, allLineItemCents);
+  report.table([
+    { header: 'Category', width: 0.4 },
+    { header: 'Items', width: 0.2, align: 'right' },
+    { header: 'Total', width: 0.4, align: 'right' },
+  ], [
+    ...categoryGroups.map(group => ({
+      cells: [group.label, String(group.items.length), formatCurrency(group.total, currency)],
+    })),
+    { cells: ['All categories', String(allLineItems.length), formatCurrency(summary.totalExpenses, currency)], style: 'total' as const },
+  ]);
+
+  report.heading('Receipt Documentation');
+  const missingReceipts = flips.flatMap(({ flip, lineItems, totals }) =>
+    lineItems.filter(item => !item.receipt_uri).map(item => ({ flip, item, totals }))
+  );
+  report.keyValues([['Expenses with Receipts', `${allLineItems.length - missingReceipts.length} of ${allLineItems.length}`]]);
+  if (missingReceipts.length > 0) {
+    report.spacer(6);
+    report.table([
+      { header: 'Vehicle', width: 0.35 },
+      { header: 'Expense', width: 0.45 },
+      { header: 'Amount', width: 0.2, align: 'right' },
+    ], missingReceipts.map(({ flip, item, totals }) => ({
+      cells: [getDisplayName(flip, `Flip #${flip.id}`), item.title, formatExpenseAmount(item, totals)],
+    })));
+  }
+
+  report.heading('Important Tax Notes');
+  report.bullets([
+    'This report is for tax preparation purposes only.',
+    'Vehicle flipping may be considered business income vs. capital gains.',
+    'Consult with a qualified tax professional.',
+    'Keep detailed records and receipts for all transactions.',
+    'Consider sales tax obligations in your state.',
+    'Some states require dealer licenses for multiple vehicle sales.',
+    'Report all gains - the IRS may have records of vehicle sales.',
+  ]);
+
+  return report.build();
+};
+
+const writeAndSharePdf = async (bytes: Uint8Array, fileName: string, dialogTitle: string): Promise<string> => {
+  const fileUri = `${FileSystem.documentDirectory}${fileName}`;
+
+  await FileSystem.writeAsStringAsync(fileUri, bytesToBase64(bytes), {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+
+  if (await Sharing.isAvailableAsync()) {
+    await Sharing.shareAsync(fileUri, {
+      mimeType: 'application/pdf',
+      UTI: 'com.adobe.pdf',
+      dialogTitle,
+    });
+  }
+
+  return fileUri;
+};
+
+export const exportAllFlipsTaxReport = async (data: AllFlipsTaxData, options?: TaxReportOptions) => {
+  try {
+    const bytes = await generateAllFlipsTaxReportPDF(data, options);
+    return await writeAndSharePdf(bytes, `FlipTrackr_Complete_Tax_Report_${data.taxYear}.pdf`, 'Export Complete Tax Report');
   } catch (error) {
     console.error('Error exporting complete tax report:', error);
     throw error;
   }
 };
 
-export const exportTaxReport = async (data: TaxExportData) => {
+export const exportTaxReport = async (data: TaxExportData, options?: TaxReportOptions) => {
   try {
-    const content = await generateTaxExportPDF(data);
-    const displayName = [data.flip.year, data.flip.make, data.flip.model].filter(Boolean).join(' ') || 'Vehicle';
-    const fileName = `${displayName.replace(/\s+/g, '_')}_Tax_Report_${data.taxYear}.txt`;
-    const fileUri = `${FileSystem.documentDirectory}${fileName}`;
-
-    await FileSystem.writeAsStringAsync(fileUri, content, {
-      encoding: FileSystem.EncodingType.UTF8,
-    });
-
-    if (await Sharing.isAvailableAsync()) {
-      await Sharing.shareAsync(fileUri, {
-        mimeType: 'text/plain',
-        dialogTitle: 'Export Tax Report',
-      });
-    }
-    
-    return fileUri;
+    const bytes = await generateTaxReportPDF(data, options);
+    const displayName = getDisplayName(data.flip, 'Vehicle');
+    const fileName = `${displayName.replace(/[^A-Za-z0-9]+/g, '_')}_Tax_Report_${data.taxYear}.pdf`;
+    return await writeAndSharePdf(bytes, fileName, 'Export Tax Report');
   } catch (error) {
     console.error('Error exporting tax report:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,141 @@
+import { CurrencyCode, Flip, FlipTotals, LineItem } from '../types';
+import { getHoldingPeriod } from './dates';
+import { AllFlipsTaxData, FlipTaxEntry, InventoryTaxEntry } from './taxExport';
+
+// Expenses without an explicit date are attributed to when they were entered
+export const getExpenseDate = (item: LineItem): string => {
+  return item.date || item.created_at;
+};
+
+// An expense in the base currency; zero when it has no exchange rate
+export const getConvertedAmount = (item: LineItem, totals: FlipTotals): number => {
+  return totals.lineItemCents[item.id] ?? 0;
+};
+
+export const getTaxYearOf = (dateString?: string): number | null => {
+  if (!dateString) return null;
+  const year = new Date(dateString).getFullYear();
+  return isNaN(year) ? null : year;
+};
+
+export const isInTaxYear = (dateString: string | undefined, taxYear: number): boolean => {
+  return getTaxYearOf(dateString) === taxYear;
+};
+
+const isOnOrBeforeTaxYear = (dateString: string | undefined, taxYear: number): boolean => {
+  const year = getTaxYearOf(dateString);
+  return year === null || year <= taxYear;
+};
+
+// Years that have at least one sale, plus the current year, newest first
+export const getAvailableTaxYears = (flips: Flip[]): number[] => {
+  const years = new Set<number>([new Date().getFullYear()]);
+  flips.forEach(flip => {
+    const year = getTaxYearOf(flip.sold_date);
+    if (year !== null) years.add(year);
+  });
+  return Array.from(years).sort((a, b) => b - a);
+};
+
+// A scrapped flip without a recorded date is taken to be long gone
+const getScrappedYear = ({ flip, scrappedAt }: FlipTaxEntry): number | null => {
+  if (flip.status !== 'scrapped' || flip.sold_date) return null;
+  return getTaxYearOf(scrappedAt) ?? -Infinity;
+};
+
+// Dispositions are flips sold during the tax year. Flips bought by the end of
+// the year but not sold within it are inventory: their costs carry forward and
+// are reported separately rather than as a loss. Flips scrapped during the year
+// are written off at what they had cost; once scrapped they're not inventory.
+export const buildAllFlipsTaxData = (
+  entries: FlipTaxEntry[],
+  taxYear: number,
+  currency: CurrencyCode,
+  generatedAt: string = new Date().toISOString()
+): AllFlipsTaxData => {
+  const dispositions = entries.filter(({ flip }) => isInTaxYear(flip.sold_date, taxYear));
+
+  const toHeldEntry = (entry: FlipTaxEntry): InventoryTaxEntry => {
+    const expensesToDate = entry.lineItems.filter(item => isOnOrBeforeTaxYear(getExpenseDate(item), taxYear));
+    const expensesInYear = expensesToDate.filter(item => isInTaxYear(getExpenseDate(item), taxYear));
+    return {
+      ...entry,
+      costToDate: entry.totals.buyPriceCents +
+        expensesToDate.reduce((sum, item) => sum + getConvertedAmount(item, entry.totals), 0),
+      expensesInYear: expensesInYear.reduce((sum, item) => sum + getConvertedAmount(item, entry.totals), 0),
+    };
+  };
+
+  const inventory: InventoryTaxEntry[] = entries
+    .filter(entry => {
+      const soldYear = getTaxYearOf(entry.flip.sold_date);
+      const unsoldAtYearEnd = soldYear === null || soldYear > taxYear;
+      const scrappedYear = getScrappedYear(entry);
+      const heldAtYearEnd = scrappedYear === null || scrappedYear > taxYear;
+      return unsoldAtYearEnd && heldAtYearEnd && isOnOrBeforeTaxYear(entry.flip.purchase_date, taxYear);
+    })
+    .map(toHeldEntry);
+
+  const scrapped = entries.filter(entry => getScrappedYear(entry) === taxYear).map(toHeldEntry);
+
+  let totalSales = 0;
+  let totalPurchases = 0;
+  let totalExpenses = 0;
+  let totalProfit = 0;
+  let totalLoss = 0;
+  let shortTermGainLoss = 0;
+  let longTermGainLoss = 0;
+  let unclassifiedGainLoss = 0;
+
+  dispositions.forEach(({ flip, totals }) => {
+    const holding = getHoldingPeriod(flip.purchase_date, flip.sold_date);
+    if (holding.term === 'long') {
+      longTermGainLoss += totals.profitCents;
+    } else if (holding.term === 'short') {
+      shortTermGainLoss += totals.profitCents;
+    } else {
+      unclassifiedGainLoss += totals.profitCents;
+    }
+
+    totalSales += totals.sellPriceCents || 0;
+    totalPurchases += totals.buyPriceCents;
+    totalExpenses += totals.totalCostCents;
+
+    if (totals.profitCents > 0) {
+      totalProfit += totals.profitCents;
+    } else {
+      totalLoss += Math.abs(totals.profitCents);
+    }
+  });
+
+  const expensesIncurredInYear = entries.reduce((sum, { lineItems, totals }) => {
+    return sum + lineItems
+      .filter(item => isInTaxYear(getExpenseDate(item), taxYear))
+      .reduce((itemSum, item) => itemSum + getConvertedAmount(item, totals), 0);
+  }, 0);
+
+  return {
+    flips: dispositions,
+    inventory,
+    taxYear,
+    generatedAt,
+    currency,
+    summary: {
+      totalFlips: dispositions.length,
+      totalProfit,
+      totalLoss,
+      netGainLoss: totalProfit - totalLoss,
+      totalExpenses,
+      totalSales,
+      totalPurchases,
+      shortTermGainLoss,
+      longTermGainLoss,
+      unclassifiedGainLoss,
+      expensesIncurredInYear,
+      inventoryCount: inventory.length,
+      inventoryCost: inventory.reduce((sum, entry) => sum + entry.costToDate, 0),
+      scrappedCount: scrapped.length,
+      scrappedCost: scrapped.reduce((sum, entry) => sum + entry.costToDate, 0),
+    },
+  };
+};
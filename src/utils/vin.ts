@@ -0,0 +1,292 @@
+// Offline VIN checks for vehicles built since 1981 (ISO 3779 / 49 CFR 565).
+// Nothing here talks to a network service: the check digit is computed
+// locally and manufacturers come from the bundled WMI table below.
+
+export const VIN_LENGTH = 17;
+
+export type VinStatus = 'valid' | 'invalid' | 'unverified';
+
+export interface VinValidation {
+  status: VinStatus;
+  // Why the VIN is invalid or couldn't be verified
+  message?: string;
+}
+
+export interface VinDecoding {
+  wmi: string;
+  manufacturer?: string;
+  // Make as it would be typed into a flip, e.g. "Chevrolet"
+  make?: string;
+  country?: string;
+  modelYear?: number;
+}
+
+// Letters stand in for digits in the check-digit sum. I, O and Q never
+// appear in a VIN because they're easily mistaken for 1 and 0.
+const TRANSLITERATION: Record<string, number> = {
+  A: 1, B: 2, C: 3, D: 4, E: 5, F: 6, G: 7, H: 8,
+  J: 1, K: 2, L: 3, M: 4, N: 5, P: 7, R: 9,
+  S: 2, T: 3, U: 4, V: 5, W: 6, X: 7, Y: 8, Z: 9,
+};
+
+const POSITION_WEIGHTS = [8, 7, 6, 5, 4, 3, 2, 10, 0, 9, 8, 7, 6, 5, 4, 3, 2];
+
+const CHECK_DIGIT_INDEX = 8;
+const MODEL_YEAR_INDEX = 9;
+
+// Model year codes repeat every 30 years, starting at 1980
+const MODEL_YEAR_CODES = 'ABCDEFGHJKLMNPRSTVWXY123456789';
+const MODEL_YEAR_BASE = 1980;
+const MODEL_YEAR_CYCLE = 30;
+
+// World manufacturer identifiers (VIN positions 1-3) for makes commonly
+// resold in North America. Unknown WMIs still validate; they just don't decode.
+const WMI_TABLE: Record<string, { manufacturer: string; make: string }> = {
+  '1FA': { manufacturer: 'Ford Motor Company', make: 'Ford' },
+  '1FB': { manufacturer: 'Ford Motor Company', make: 'Ford' },
+  '1FC': { manufacturer: 'Ford Motor Company', make: 'Ford' },
+  '1FD': { manufacturer: 'Ford Motor Company', make: 'Ford' },
+  '1FM': { manufacturer: 'Ford Motor Company', make: 'Ford' },
+  '1FT': { manufacturer: 'Ford Motor Company', make: 'Ford' },
+  '1LN': { manufacturer: 'Ford Motor Company', make: 'Lincoln' },
+  '1ME': { manufacturer: 'Ford Motor Company', make: 'Mercury' },
+  '1G1': { manufacturer: 'General Motors', make: 'Chevrolet' },
+  '1GC': { manufacturer: 'General Motors', make: 'Chevrolet' },
+  '1GN': { manufacturer: 'General Motors', make: 'Chevrolet' },
+  '1G4': { manufacturer: 'General Motors', make: 'Buick' },
+  '1G6': { manufacturer: 'General Motors', make: 'Cadillac' },
+  '1GY': { manufacturer: 'General Motors', make: 'Cadillac' },
+  '1GT': { manufacturer: 'General Motors', make: 'GMC' },
+  '1GK': { manufacturer: 'General Motors', make: 'GMC' },
+  '1G2': { manufacturer: 'General Motors', make: 'Pontiac' },
+  '1G8': { manufacturer: 'General Motors', make: 'Saturn' },
+  '1C3': { manufacturer: 'FCA US', make: 'Chrysler' },
+  '1C4': { manufacturer: 'FCA US', make: 'Jeep' },
+  '1C6': { manufacturer: 'FCA US', make: 'Ram' },
+  '1B3': { manufacturer: 'Chrysler Corporation', make: 'Dodge' },
+  '1B7': { manufacturer: 'Chrysler Corporation', make: 'Dodge' },
+  '1D7': { manufacturer: 'Chrysler Corporation', make: 'Dodge' },
+  '1J4': { manufacturer: 'Chrysler Corporation', make: 'Jeep' },
+  '1J8': { manufacturer: 'Chrysler Corporation', make: 'Jeep' },
+  '1HG': { manufacturer: 'Honda of America', make: 'Honda' },
+  '1N4': { manufacturer: 'Nissan North America', make: 'Nissan' },
+  '1N6': { manufacturer: 'Nissan North America', make: 'Nissan' },
+  '1NX': { manufacturer: 'NUMMI', make: 'Toyota' },
+  '1VW': { manufacturer: 'Volkswagen of America', make: 'Volkswagen' },
+  '1YV': { manufacturer: 'Mazda (AutoAlliance)', make: 'Mazda' },
+  '2C3': { manufacturer: 'FCA Canada', make: 'Chrysler' },
+  '2C4': { manufacturer: 'FCA Canada', make: 'Chrysler' },
+  '2FA': { manufacturer: 'Ford Motor Company of Canada', make: 'Ford' },
+  '2FM': { manufacturer: 'Ford Motor Company of Canada', make: 'Ford' },
+  '2G1': { manufacturer: 'General Motors of Canada', make: 'Chevrolet' },
+  '2GC': { manufacturer: 'General Motors of Canada', make: 'Chevrolet' },
+  '2GT': { manufacturer: 'General Motors of Canada', make: 'GMC' },
+  '2HG': { manufacturer: 'Honda of Canada', make: 'Honda' },
+  '2HK': { manufacturer: 'Honda of Canada', make: 'Honda' },
+  '2HM': { manufacturer: 'Hyundai Auto Canada', make: 'Hyundai' },
+  '2T1': { manufacturer: 'Toyota Motor Manufacturing Canada', make: 'Toyota' },
+  '2T2': { manufacturer: 'Toyota Motor Manufacturing Canada', make: 'Lexus' },
+  '2T3': { manufacturer: 'Toyota Motor Manufacturing Canada', make: 'Toyota' },
+  '3FA': { manufacturer: 'Ford Motor Company de Mexico', make: 'Ford' },
+  '3G1': { manufacturer: 'General Motors de Mexico', make: 'Chevrolet' },
+  '3GC': { manufacturer: 'General Motors de Mexico', make: 'Chevrolet' },
+  '3GN': { manufacturer: 'General Motors de Mexico', make: 'Chevrolet' },
+  '3C4': { manufacturer: 'FCA Mexico', make: 'Chrysler' },
+  '3C6': { manufacturer: 'FCA Mexico', make: 'Ram' },
+  '3D7': { manufacturer: 'Chrysler de Mexico', make: 'Dodge' },
+  '3HG': { manufacturer: 'Honda de Mexico', make: 'Honda' },
+  '3N1': { manufacturer: 'Nissan Mexicana', make: 'Nissan' },
+  '3VW': { manufacturer: 'Volkswagen de Mexico', make: 'Volkswagen' },
+  '4S3': { manufacturer: 'Subaru of Indiana', make: 'Subaru' },
+  '4S4': { manufacturer: 'Subaru of Indiana', make: 'Subaru' },
+  '4T1': { manufacturer: 'Toyota Motor Manufacturing Kentucky', make: 'Toyota' },
+  '4T3': { manufacturer: 'Toyota Motor Manufacturing Kentucky', make: 'Toyota' },
+  '4T4': { manufacturer: 'Toyota Motor Manufacturing Kentucky', make: 'Toyota' },
+  '4JG': { manufacturer: 'Mercedes-Benz U.S. International', make: 'Mercedes-Benz' },
+  '5FN': { manufacturer: 'Honda Manufacturing of Alabama', make: 'Honda' },
+  '5J6': { manufacturer: 'Honda of America', make: 'Honda' },
+  '5J8': { manufacturer: 'Honda of America', make: 'Acura' },
+  '5N1': { manufacturer: 'Nissan North America', make: 'Nissan' },
+  '5NP': { manufacturer: 'Hyundai Motor Manufacturing Alabama', make: 'Hyundai' },
+  '5NM': { manufacturer: 'Hyundai Motor Manufacturing Alabama', make: 'Hyundai' },
+  '5TD': { manufacturer: 'Toyota Motor Manufacturing Indiana', make: 'Toyota' },
+  '5TF': { manufacturer: 'Toyota Motor Manufacturing Texas', make: 'Toyota' },
+  '5UX': { manufacturer: 'BMW Manufacturing', make: 'BMW' },
+  '5XY': { manufacturer: 'Kia Georgia', make: 'Kia' },
+  '5YJ': { manufacturer: 'Tesla', make: 'Tesla' },
+  '7SA': { manufacturer: 'Tesla', make: 'Tesla' },
+  'JA3': { manufacturer: 'Mitsubishi Motors', make: 'Mitsubishi' },
+  'JA4': { manufacturer: 'Mitsubishi Motors', make: 'Mitsubishi' },
+  'JF1': { manufacturer: 'Subaru', make: 'Subaru' },
+  'JF2': { manufacturer: 'Subaru', make: 'Subaru' },
+  'JHM': { manufacturer: 'Honda Motor Company', make: 'Honda' },
+  'JHL': { manufacturer: 'Honda Motor Company', make: 'Honda' },
+  'JH4': { manufacturer: 'Honda Motor Company', make: 'Acura' },
+  'JM1': { manufacturer: 'Mazda Motor Corporation', make: 'Mazda' },
+  'JM3': { manufacturer: 'Mazda Motor Corporation', make: 'Mazda' },
+  'JN1': { manufacturer: 'Nissan Motor Company', make: 'Nissan' },
+  'JN8': { manufacturer: 'Nissan Motor Company', make: 'Nissan' },
+  'JNK': { manufacturer: 'Nissan Motor Company', make: 'Infiniti' },
+  'JS3': { manufacturer: 'Suzuki Motor Corporation', make: 'Suzuki' },
+  'JT2': { manufacturer: 'Toyota Motor Corporation', make: 'Toyota' },
+  'JT3': { manufacturer: 'Toyota Motor Corporation', make: 'Toyota' },
+  'JTD': { manufacturer: 'Toyota Motor Corporation', make: 'Toyota' },
+  'JTE': { manufacturer: 'Toyota Motor Corporation', make: 'Toyota' },
+  'JTH': { manufacturer: 'Toyota Motor Corporation', make: 'Lexus' },
+  'JTJ': { manufacturer: 'Toyota Motor Corporation', make: 'Lexus' },
+  'JTM': { manufacturer: 'Toyota Motor Corporation', make: 'Toyota' },
+  'JTN': { manufacturer: 'Toyota Motor Corporation', make: 'Toyota' },
+  'KL1': { manufacturer: 'GM Korea', make: 'Chevrolet' },
+  'KM8': { manufacturer: 'Hyundai Motor Company', make: 'Hyundai' },
+  'KMH': { manufacturer: 'Hyundai Motor Company', make: 'Hyundai' },
+  'KNA': { manufacturer: 'Kia Corporation', make: 'Kia' },
+  'KND': { manufacturer: 'Kia Corporation', make: 'Kia' },
+  'SAJ': { manufacturer: 'Jaguar Land Rover', make: 'Jaguar' },
+  'SAL': { manufacturer: 'Jaguar Land Rover', make: 'Land Rover' },
+  'SCC': { manufacturer: 'Lotus Cars', make: 'Lotus' },
+  'VF1': { manufacturer: 'Renault', make: 'Renault' },
+  'VF3': { manufacturer: 'Peugeot', make: 'Peugeot' },
+  'WA1': { manufacturer: 'Audi AG', make: 'Audi' },
+  'WAU': { manufacturer: 'Audi AG', make: 'Audi' },
+  'WBA': { manufacturer: 'BMW AG', make: 'BMW' },
+  'WBS': { manufacturer: 'BMW M GmbH', make: 'BMW' },
+  'WBX': { manufacturer: 'BMW AG', make: 'BMW' },
+  'WDB': { manufacturer: 'Mercedes-Benz AG', make: 'Mercedes-Benz' },
+  'WDC': { manufacturer: 'Mercedes-Benz AG', make: 'Mercedes-Benz' },
+  'WDD': { manufacturer: 'Mercedes-Benz AG', make: 'Mercedes-Benz' },
+  'W1K': { manufacturer: 'Mercedes-Benz AG', make: 'Mercedes-Benz' },
+  'W1N': { manufacturer: 'Mercedes-Benz AG', make: 'Mercedes-Benz' },
+  'WMW': { manufacturer: 'BMW AG', make: 'MINI' },
+  'WP0': { manufacturer: 'Porsche AG', make: 'Porsche' },
+  'WP1': { manufacturer: 'Porsche AG', make: 'Porsche' },
+  'WVW': { manufacturer: 'Volkswagen AG', make: 'Volkswagen' },
+  'WVG': { manufacturer: 'Volkswagen AG', make: 'Volkswagen' },
+  'YV1': { manufacturer: 'Volvo Cars', make: 'Volvo' },
+  'YV4': { manufacturer: 'Volvo Cars', make: 'Volvo' },
+  'ZAM': { manufacturer: 'Maserati', make: 'Maserati' },
+  'ZAR': { manufacturer: 'Alfa Romeo', make: 'Alfa Romeo' },
+  'ZFA': { manufacturer: 'Fiat', make: 'Fiat' },
+  'ZFF': { manufacturer: 'Ferrari', make: 'Ferrari' },
+};
+
+// Country of manufacture by the first character, narrowed by the second
+// where one letter covers several countries
+const COUNTRY_PREFIXES: [string, string][] = [
+  ['1', 'United States'],
+  ['4', 'United States'],
+  ['5', 'United States'],
+  ['7', 'United States'],
+  ['2', 'Canada'],
+  ['3', 'Mexico'],
+  ['J', 'Japan'],
+  ['KL', 'South Korea'],
+  ['KM', 'South Korea'],
+  ['KN', 'South Korea'],
+  ['L', 'China'],
+  ['SA', 'United Kingdom'],
+  ['SC', 'United Kingdom'],
+  ['VF', 'France'],
+  ['W', 'Germany'],
+  ['YV', 'Sweden'],
+  ['Z', 'Italy'],
+];
+
+// Only North American VINs are required to carry a check digit
+const isNorthAmerican = (vin: string): boolean => /^[1-5]/.test(vin);
+
+export const normalizeVin = (text: string): string => {
+  return text.toUpperCase().replace(/[\s-]+/g, '');
+};
+
+export const computeCheckDigit = (vin: string): string | null => {
+  if (vin.length !== VIN_LENGTH) return null;
+
+  let sum = 0;
+  for (let i = 0; i < VIN_LENGTH; i++) {
+    const char = vin[i];
+    const value = /\d/.test(char) ? Number(char) : TRANSLITERATION[char];
+    if (value === undefined) return null;
+    sum += value * POSITION_WEIGHTS[i];
+  }
+
+  const remainder = sum % 11;
+  return remainder === 10 ? 'X' : String(remainder);
+};
+
+export const validateVin = (text: string): VinValidation => {
+  const vin = normalizeVin(text);
+
+  if (/[IOQ]/.test(vin)) {
+    return { status: 'invalid', message: 'VINs never contain I, O or Q' };
+  }
+  if (/[^A-Z0-9]/.test(vin)) {
+    return { status: 'invalid', message: 'VINs contain only letters and digits' };
+  }
+  if (vin.length !== VIN_LENGTH) {
+    // Vehicles built before 1981 have shorter, manufacturer-specific numbers
+    return vin.length < VIN_LENGTH
+      ? { status: 'unverified', message: `${vin.length} of ${VIN_LENGTH} characters; pre-1981 VINs can't be checked` }
+      : { status: 'invalid', message: `VINs are ${VIN_LENGTH} characters, this has ${vin.length}` };
+  }
+
+  if (computeCheckDigit(vin) !== vin[CHECK_DIGIT_INDEX]) {
+    return isNorthAmerican(vin)
+      ? { status: 'invalid', message: 'Check digit does not match; look for a typo' }
+      : { status: 'unverified', message: 'Check digit does not match; it\'s optional outside North America' };
+  }
+
+  return { status: 'valid' };
+};
+
+const decodeModelYear = (vin: string): number | undefined => {
+  const index = MODEL_YEAR_CODES.indexOf(vin[MODEL_YEAR_INDEX]);
+  if (index === -1) return undefined;
+
+  const latestYear = new Date().getFullYear() + 1;
+  const candidates = [0, 1, 2]
+    .map(cycle => MODEL_YEAR_BASE + index + cycle * MODEL_YEAR_CYCLE)
+    .filter(year => year <= latestYear);
+
+  // North American light vehicles put a letter in position 7 from 2010 on
+  // and a digit before that, which tells the 30-year cycles apart
+  if (isNorthAmerican(vin)) {
+    const since2010 = /[A-Z]/.test(vin[6]);
+    const match = candidates.filter(year => (year >= 2010) === since2010).pop();
+    if (match) return match;
+  }
+
+  return candidates.pop();
+};
+
+const lookUpCountry = (vin: string): string | undefined => {
+  const matches = COUNTRY_PREFIXES.filter(([prefix]) => vin.startsWith(prefix));
+  // Longest prefix wins
+  return matches.sort((a, b) => b[0].length - a[0].length)[0]?.[1];
+};
+
+// Decodes what can be known offline. Returns null for text that isn't a
+// 17-character VIN; invalid check digits still decode, so check validateVin.
+export const decodeVin = (text: string): VinDecoding | null => {
+  const vin = normalizeVin(text);
+  if (vin.length !== VIN_LENGTH || /[^A-HJ-NPR-Z0-9]/.test(vin)) return null;
+
+  const wmi = vin.slice(0, 3);
+  const entry = WMI_TABLE[wmi];
+
+  return {
+    wmi,
+    manufacturer: entry?.manufacturer,
+    make: entry?.make,
+    country: lookUpCountry(vin),
+    modelYear: decodeModelYear(vin),
+  };
+};
+
+// Short warning for badges and reports, or null when there's nothing to flag
+export const getVinWarning = (vin?: string): string | null => {
+  if (!vin) return null;
+
+  const { status, message } = validateVin(vin);
+  if (status === 'valid') return null;
+  return status === 'invalid' ? `Invalid VIN: ${message}` : `Unverified VIN: ${message}`;
+};